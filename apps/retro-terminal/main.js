@@ -2,6 +2,20 @@ const { app, BrowserWindow, ipcMain } = require('electron');
 const path = require('node:path');
 const fs = require('node:fs');
 
+// Lines printed by the current run go here instead of to the renderer when its caller asked to capture them
+let capturedOutputs = null;
+
+function sendOutput(payload) {
+  if (terminalWindow && !terminalWindow.isDestroyed()) {
+    terminalWindow.webContents.send('repl:output', payload);
+  }
+}
+
+// A run that fails mid-line leaves it open; finish it so the error starts on a line of its own
+async function endPartialOutput() {
+  await sessionPromise.then((session) => session.takeOutputs(), () => undefined);
+}
+
 const sessionPromise = (async () => {
   const {
     InterpreterSession,
@@ -28,7 +42,22 @@ const sessionPromise = (async () => {
     }
   };
 
-  const session = new InterpreterSession({ hostEnvironment: env });
+  // Stream output to the renderer as PRINT runs, so animations and long programs show progress
+  const session = new InterpreterSession({
+    hostEnvironment: env,
+    onOutput: (line) => {
+      if (capturedOutputs) {
+        capturedOutputs.push(line);
+      } else {
+        sendOutput({ text: line, complete: true });
+      }
+    },
+    onFlush: (pending) => {
+      if (!capturedOutputs) {
+        sendOutput({ text: pending, complete: false });
+      }
+    }
+  });
   return session;
 })();
 
@@ -50,14 +79,23 @@ function createWindow() {
   terminalWindow.loadFile(path.join(__dirname, 'renderer', 'index.html'));
 }
 
-ipcMain.handle('repl:execute', async (_event, source) => {
+ipcMain.handle('repl:execute', async (_event, source, options = {}) => {
   const command = typeof source === 'string' ? source : '';
   if (!command.trim()) {
     return { ok: true, outputs: [], variables: {}, halted: null };
   }
+  capturedOutputs = options.capture ? [] : null;
   try {
     const session = await sessionPromise;
-    const { getAndClearPendingCanvasCommands } = await import('../../dist/index.js');
+    const { getAndClearPendingCanvasCommands, parseSource, formatDiagnostic } = await import('../../dist/index.js');
+
+    // Report every syntax error at once instead of stopping at the first
+    const diagnostics = [];
+    parseSource(command, { diagnostics });
+    if (diagnostics.length > 0) {
+      return { ok: false, error: diagnostics.map((diagnostic) => formatDiagnostic(diagnostic, command)).join('\n') };
+    }
+
     const result = await session.run(command);
 
     // Process any pending canvas commands
@@ -70,15 +108,25 @@ ipcMain.handle('repl:execute', async (_event, source) => {
 
     return {
       ok: true,
-      outputs: Array.from(result.outputs),
+      outputs: capturedOutputs ?? [],
       variables: result.variables,
       halted: result.halted ?? null
     };
   } catch (error) {
-    return { ok: false, error: formatError(error) };
+    await endPartialOutput();
+    return { ok: false, error: await formatError(error, command) };
+  } finally {
+    capturedOutputs = null;
   }
 });
 
+// Ctrl+C while a program runs: it halts with BREAK and CONT can pick it up again
+ipcMain.handle('repl:interrupt', async () => {
+  const session = await sessionPromise;
+  session.interrupt();
+  return { ok: true };
+});
+
 ipcMain.handle('repl:reset', async () => {
   const session = await sessionPromise;
   session.reset();
@@ -86,21 +134,23 @@ ipcMain.handle('repl:reset', async () => {
 });
 
 ipcMain.handle('repl:boot', async () => {
+  let bootScript = null;
   try {
     const session = await sessionPromise;
-    const bootScript = await fs.promises.readFile(path.join(__dirname, 'boot.bas'), 'utf8').catch(() => null);
+    bootScript = await fs.promises.readFile(path.join(__dirname, 'boot.bas'), 'utf8').catch(() => null);
     if (bootScript) {
       const result = await session.run(bootScript);
       return {
         ok: true,
-        outputs: Array.from(result.outputs),
+        outputs: [], // Already streamed to the renderer
         variables: result.variables,
         halted: result.halted ?? null
       };
     }
     return { ok: true, outputs: [], variables: {}, halted: null };
   } catch (error) {
-    return { ok: false, error: formatError(error) };
+    await endPartialOutput();
+    return { ok: false, error: await formatError(error, bootScript) };
   }
 });
 
@@ -153,10 +203,15 @@ function createTerminalNamespace(createNamespace, createFunction) {
   });
 }
 
-function formatError(error) {
+async function formatError(error, source) {
   if (!error) {
     return 'Unknown error';
   }
+  // Show the offending line with a caret, "did you mean" hints and the BASIC call stack
+  if (error instanceof Error && typeof source === 'string') {
+    const { formatDiagnostic } = await import('../../dist/index.js');
+    return formatDiagnostic(error, source);
+  }
   if (error instanceof Error) {
     return error.message;
   }
@@ -1,11 +1,16 @@
 const { contextBridge, ipcRenderer } = require('electron');
 
 contextBridge.exposeInMainWorld('basic9000', {
-  execute: (source) => ipcRenderer.invoke('repl:execute', source),
+  // Pass { capture: true } to get printed lines back in `outputs` instead of on the screen
+  execute: (source, options) => ipcRenderer.invoke('repl:execute', source, options),
   reset: () => ipcRenderer.invoke('repl:reset'),
+  interrupt: () => ipcRenderer.invoke('repl:interrupt'),
   boot: () => ipcRenderer.invoke('repl:boot'),
   onAction: (listener) => {
     ipcRenderer.on('terminal:action', (_event, payload) => listener?.(payload));
+  },
+  onOutput: (listener) => {
+    ipcRenderer.on('repl:output', (_event, payload) => listener?.(payload));
   }
 });
 
@@ -63,6 +63,29 @@ let historyIndex = -1;
 let executing = false;
 let overlayTimer = null;
 
+// Program output streams in while it runs; an unfinished line (PRINT ending in ; or ,) is redrawn as it grows
+let partialOutputRows = 0; // Terminal rows the unfinished output takes up, newlines and wrapping included; 0 when there is none
+let outputLineCount = 0;
+
+window.basic9000.onOutput(({ text, complete }) => {
+  const lines = String(text).split('\n');
+  if (complete && lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  const highlighted = lines.map((line) => highlighter.highlightLine(line)).join('\r\n');
+  // Go back to the first row of the unfinished output and clear everything below it
+  const erase = partialOutputRows > 0
+    ? `${partialOutputRows > 1 ? `\x1b[${partialOutputRows - 1}A` : ''}\r\x1b[J`
+    : '';
+  term.write(`${erase}${highlighted}${complete ? '\r\n' : ''}`);
+  partialOutputRows = complete
+    ? 0
+    : lines.reduce((rows, line) => rows + Math.max(1, Math.ceil(line.length / term.cols)), 0);
+  if (complete) {
+    outputLineCount += 1;
+  }
+});
+
 window.basic9000.onAction((payload) => {
   if (!payload || typeof payload !== 'object') {
     return;
@@ -207,7 +230,7 @@ async function executeBuffer() {
         if (readResponse.ok) {
           // Now retrieve the content by printing the variable
           const getCommand = `PRINT fileContent$`;
-          const getResponse = await window.basic9000.execute(getCommand);
+          const getResponse = await window.basic9000.execute(getCommand, { capture: true });
 
           if (getResponse.ok && getResponse.outputs && getResponse.outputs.length > 0) {
             fileContent = getResponse.outputs.join('\n');
@@ -231,16 +254,6 @@ async function executeBuffer() {
       const runResponse = await window.basic9000.execute(fileContent);
 
       if (runResponse.ok) {
-        if (runResponse.outputs?.length) {
-          runResponse.outputs.forEach((line) => {
-            const lines = String(line).split('\n');
-            lines.forEach((l, i) => {
-              if (i === lines.length - 1 && l === '') return;
-              const highlighted = highlighter.highlightLine(l);
-              term.writeln(highlighted);
-            });
-          });
-        }
         if (runResponse.halted) {
           term.writeln(`(HALTED: ${runResponse.halted})`);
         }
@@ -269,21 +282,6 @@ async function executeBuffer() {
   try {
     const response = await window.basic9000.execute(command);
     if (response.ok) {
-      if (response.outputs?.length) {
-        response.outputs.forEach((line) => {
-          // Handle multiline output by splitting on newlines
-          const lines = String(line).split('\n');
-          lines.forEach((l, i) => {
-            if (i === lines.length - 1 && l === '') {
-              // Skip empty last line from split
-              return;
-            }
-            // Apply syntax highlighting to output
-            const highlighted = highlighter.highlightLine(l);
-            term.writeln(highlighted);
-          });
-        });
-      }
       if (response.halted) {
         term.writeln(`(HALTED: ${response.halted})`);
       }
@@ -386,6 +384,10 @@ function findWordBoundary(forward) {
 
 term.onData(async (data) => {
   if (executing) {
+    if (data === '\u0003') { // Ctrl+C stops the running program
+      term.write('^C');
+      await window.basic9000.interrupt();
+    }
     return;
   }
 
@@ -483,21 +485,8 @@ setStatus('READY');
 
 // Run boot script after terminal is ready
 window.basic9000.boot().then(result => {
-  if (result.ok && result.outputs.length > 0) {
-    // Display boot script output with same formatting as regular REPL output
-    result.outputs.forEach(output => {
-      // Handle multiline output by splitting on newlines
-      const lines = String(output).split('\n');
-      lines.forEach((l, i) => {
-        if (i === lines.length - 1 && l === '') {
-          // Skip empty last line from split
-          return;
-        }
-        // Apply syntax highlighting to output
-        const highlighted = highlighter.highlightLine(l);
-        term.writeln(highlighted);
-      });
-    });
+  if (result.ok && outputLineCount > 0) {
+    // The boot script's output has already streamed in
     term.writeln(''); // Add blank line after boot output
   } else if (!result.ok) {
     // Display boot errors to the user
@@ -3,16 +3,17 @@
 const KEYWORDS = [
   // Core BASIC keywords
   'LET', 'PRINT', 'IF', 'THEN', 'ELSE', 'END', 'FOR', 'TO', 'NEXT', 'WHILE', 'WEND',
-  'DO', 'LOOP', 'RETURN', 'REM', 'DIM', 'FUNCTION', 'SUB',
+  'DO', 'LOOP', 'RETURN', 'GOTO', 'GOSUB', 'REM', 'DIM', 'REDIM', 'FUNCTION', 'SUB',
   // Modern control flow
-  'SELECT', 'CASE', 'SPAWN', 'ROUTINE', 'WITH', 'TRY', 'CATCH', 'FINALLY', 'DEFER', 'THROW',
-  'EXIT', 'CONTINUE', 'CALL', 'ASYNC', 'AWAIT',
+  'SELECT', 'CASE', 'SPAWN', 'ROUTINE', 'WITH', 'TRY', 'CATCH', 'FINALLY', 'RETHROW', 'DEFER', 'THROW',
+  'EXIT', 'CONTINUE', 'CALL', 'ASYNC', 'AWAIT', 'KILL', 'JOIN', 'YIELD',
+  'CHANNEL', 'BUFFER', 'BROADCAST', 'RECEIVE',
   // Type system
   'TYPE', 'AS', 'PROPERTY', 'REF', 'SPREAD', 'CONST', 'NEW',
   // Data types and literals
   'TRUE', 'FALSE', 'NULL',
   // Terminal commands
-  'STOP', 'RUN', 'LIST', 'CLEAR', 'HELP', 'TRACE', 'BREAK', 'DESCRIBE'
+  'STOP', 'CONT', 'RUN', 'LIST', 'CLEAR', 'HELP', 'TRACE', 'BREAK', 'DESCRIBE'
 ];
 
 const BUILT_IN_FUNCTIONS = [
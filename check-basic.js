@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+import { checkSource } from './dist/interpreter/checker.js';
+import { formatDiagnostic } from './dist/interpreter/diagnostics.js';
+import { readFileSync } from 'fs';
+import { basename, resolve } from 'path';
+
+const files = process.argv.slice(2);
+if (files.length === 0) {
+  console.log('Usage: node check-basic.js <filename.bas>...');
+  console.log('Example: node check-basic.js demos/space-battle-game.bas');
+  process.exit(1);
+}
+
+let errorCount = 0;
+for (const filename of files) {
+  const filepath = resolve(filename);
+  let source = '';
+  let errors;
+  try {
+    source = readFileSync(filepath, 'utf-8');
+    errors = checkSource(source, { fileName: basename(filepath) });
+  } catch (error) {
+    // Unreadable files and tokenizer errors stop the check of this file only
+    errors = [error];
+  }
+
+  for (const error of errors) {
+    console.error(`${filename}:`);
+    console.error(formatDiagnostic(error, source, { fileName: basename(filepath), color: process.stderr.isTTY }));
+  }
+  errorCount += errors.length;
+}
+
+if (errorCount > 0) {
+  console.error(`\n${errorCount} error(s) found`);
+  process.exit(1);
+}
+console.log(`No errors in ${files.length} file(s)`);
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+import { formatSource } from './dist/interpreter/formatter.js';
+import { formatDiagnostic } from './dist/interpreter/diagnostics.js';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+
+const args = process.argv.slice(2);
+const files = args.filter(arg => !arg.startsWith('--'));
+if (files.length === 0) {
+  console.log('Usage: node fmt-basic.js <filename.bas>... [--write] [--check] [--renumber | --remove-line-numbers]');
+  console.log('Example: node fmt-basic.js demos/adventure-game.bas --write');
+  process.exit(1);
+}
+
+const write = args.includes('--write');
+const check = args.includes('--check');
+const lineNumbers = args.includes('--renumber')
+  ? 'renumber'
+  : args.includes('--remove-line-numbers') ? 'remove' : 'keep';
+
+let exitCode = 0;
+for (const filename of files) {
+  const filepath = resolve(filename);
+  let source = '';
+  try {
+    source = readFileSync(filepath, 'utf-8');
+    const formatted = formatSource(source, { lineNumbers });
+
+    if (check) {
+      // Report files that would change, without touching them
+      if (formatted !== source) {
+        console.log(filename);
+        exitCode = 1;
+      }
+    } else if (write) {
+      if (formatted !== source) {
+        writeFileSync(filepath, formatted);
+      }
+    } else {
+      process.stdout.write(formatted);
+    }
+  } catch (error) {
+    console.error(`${filename}:`);
+    console.error(formatDiagnostic(error, source, { color: process.stderr.isTTY }));
+    exitCode = 1;
+  }
+}
+
+process.exit(exitCode);
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 import { parseSource } from './dist/interpreter/parser.js';
 import { executeProgram } from './dist/interpreter/evaluator.js';
+import { formatDiagnostic } from './dist/interpreter/diagnostics.js';
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
 import readline from 'readline';
@@ -20,9 +21,10 @@ const verbose = args.includes('--verbose');
 const filepath = resolve(filename);
 
 async function runBasicProgram(filepath) {
+  let source = '';
   try {
     // Read the file
-    const source = readFileSync(filepath, 'utf-8');
+    source = readFileSync(filepath, 'utf-8');
 
     if (verbose) {
       console.log('=== SOURCE CODE ===');
@@ -54,7 +56,7 @@ async function runBasicProgram(filepath) {
     };
 
     // Execute the program with input handler
-    const result = await executeProgram(parsed, { inputHandler });
+    const result = await executeProgram(parsed, { inputHandler, sourcePath: filepath });
 
     // Close readline interface
     rl.close();
@@ -95,11 +97,7 @@ async function runBasicProgram(filepath) {
 
   } catch (error) {
     console.error('\n=== ERROR ===');
-    console.error(error.message);
-
-    if (error.line && error.column) {
-      console.error(`Location: line ${error.line}, column ${error.column}`);
-    }
+    console.error(formatDiagnostic(error, source, { color: process.stderr.isTTY }));
 
     if (verbose && error.stack) {
       console.error('\n=== STACK TRACE ===');
@@ -0,0 +1,309 @@
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import type { Readable, Writable } from 'node:stream';
+
+import { checkSource } from '../interpreter/checker.js';
+import { formatDiagnostic } from '../interpreter/diagnostics.js';
+import { InterpreterSession, RuntimeError } from '../interpreter/evaluator.js';
+import type { HostEnvironment } from '../interpreter/host.js';
+import { ParseError, parseSource } from '../interpreter/parser.js';
+import { Profiler } from '../interpreter/profiler.js';
+import { isTty, LineReader } from './line-reader.js';
+import { streamOutput } from './output.js';
+import { startRepl } from './repl.js';
+
+export interface CliStreams {
+  readonly stdin: Readable;
+  readonly stdout: Writable;
+  readonly stderr: Writable;
+}
+
+export interface CliOptions {
+  readonly hostEnvironment?: HostEnvironment;
+}
+
+/** Process exit codes; `run` reports how the program finished. */
+export const ExitCode = {
+  Success: 0, // Ran to the end or to END; every check and test passed
+  Error: 1, // Syntax or runtime error, failed check or test, unreadable file
+  Usage: 2, // Unknown command or bad options
+  Stopped: 3 // The program hit STOP
+} as const;
+
+const USAGE = [
+  'Usage: basic9000 [command] [options]',
+  '',
+  'Commands:',
+  '  repl                   Interactive session (the default)',
+  '  run <file>             Run a program',
+  '  check <file>...        Report syntax errors without running anything',
+  '  test <file|dir>...     Run programs and count their PASS:/FAIL: lines',
+  '',
+  'Options:',
+  '  --max-steps <n>        Stop programs after n statements (repl, run, test)',
+  '  --profile <file>       Time the program: flame graph stacks to file, summary to stderr (run)',
+  '  --types                Also run the static type checker (check)',
+  '  -h, --help             Show this help'
+].join('\n');
+
+class UsageError extends Error {}
+
+interface Arguments {
+  readonly command: string;
+  readonly paths: string[];
+  readonly maxSteps?: number;
+  readonly types: boolean;
+  readonly profile?: string;
+}
+
+/** Runs the `basic9000` command line and resolves with the process exit code. */
+export async function runCli(args: readonly string[], streams: CliStreams, options: CliOptions = {}): Promise<number> {
+  let parsed: Arguments;
+  try {
+    parsed = parseArguments(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) {
+      throw error;
+    }
+    streams.stderr.write(`basic9000: ${error.message}\n\n${USAGE}\n`);
+    return ExitCode.Usage;
+  }
+
+  const { command, paths, maxSteps, types, profile } = parsed;
+  const color = isTty(streams.stderr);
+  switch (command) {
+    case 'help':
+      streams.stdout.write(`${USAGE}\n`);
+      return ExitCode.Success;
+    case 'repl':
+      return startRepl(streams.stdin, streams.stdout, {
+        maxSteps,
+        hostEnvironment: options.hostEnvironment,
+        color: isTty(streams.stdout)
+      });
+    case 'run':
+      return runProgram(paths[0]!, streams, { maxSteps, hostEnvironment: options.hostEnvironment, color, profile });
+    case 'check':
+      return checkFiles(paths, streams, { types, color });
+    case 'test':
+      return testPrograms(paths, streams, { maxSteps, hostEnvironment: options.hostEnvironment, color });
+    default:
+      throw new Error(`Unhandled command '${command}'`);
+  }
+}
+
+function parseArguments(args: readonly string[]): Arguments {
+  const positional: string[] = [];
+  let maxSteps: number | undefined;
+  let types = false;
+  let profile: string | undefined;
+  let help = false;
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index]!;
+    if (arg === '--max-steps') {
+      const value = Number(args[++index]);
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new UsageError('--max-steps needs a positive whole number');
+      }
+      maxSteps = value;
+    } else if (arg === '--profile') {
+      profile = args[++index];
+      if (!profile) {
+        throw new UsageError('--profile needs a file to write');
+      }
+    } else if (arg === '--types') {
+      types = true;
+    } else if (arg === '-h' || arg === '--help') {
+      help = true;
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option '${arg}'`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command = 'repl', ...paths] = positional;
+  if (help) {
+    return { command: 'help', paths, types };
+  }
+  switch (command) {
+    case 'help':
+    case 'repl':
+      if (paths.length > 0) {
+        throw new UsageError(`'${command}' takes no files`);
+      }
+      break;
+    case 'run':
+      if (paths.length !== 1) {
+        throw new UsageError("'run' takes exactly one file");
+      }
+      break;
+    case 'check':
+    case 'test':
+      if (paths.length === 0) {
+        throw new UsageError(`'${command}' needs at least one file`);
+      }
+      break;
+    default:
+      throw new UsageError(`Unknown command '${command}'`);
+  }
+  return { command, paths, maxSteps, types, profile };
+}
+
+interface RunOptions {
+  readonly maxSteps?: number;
+  readonly hostEnvironment?: HostEnvironment;
+  readonly color: boolean;
+  readonly profile?: string; // Where the folded stacks go
+}
+
+async function runProgram(path: string, streams: CliStreams, options: RunOptions): Promise<number> {
+  const fileName = basename(path);
+  let source: string;
+  try {
+    source = await readFile(path, 'utf8');
+  } catch (error) {
+    streams.stderr.write(`basic9000: cannot read ${path}: ${(error as Error).message}\n`);
+    return ExitCode.Error;
+  }
+
+  // Only programs that INPUT take hold of stdin, so the rest exit without waiting for it to end
+  let reader: LineReader | undefined;
+  const profiler = options.profile ? new Profiler() : undefined;
+  const session = new InterpreterSession({
+    sourcePath: resolve(path),
+    maxSteps: options.maxSteps,
+    hostEnvironment: options.hostEnvironment,
+    profiler,
+    inputHandler: async () => {
+      reader ??= new LineReader(streams.stdin, streams.stdout);
+      return (await reader.read()) ?? '';
+    },
+    ...streamOutput(streams.stdout)
+  });
+
+  try {
+    const result = await session.run(source, { fileName });
+    return result.halted === 'STOP' ? ExitCode.Stopped : ExitCode.Success;
+  } catch (error) {
+    session.takeOutputs(); // Ends a half-printed line
+    streams.stderr.write(`${formatDiagnostic(error, source, { fileName, color: options.color })}\n`);
+    return ExitCode.Error;
+  } finally {
+    reader?.close();
+    if (profiler) {
+      await writeProfile(profiler, options.profile!, streams);
+    }
+  }
+}
+
+async function writeProfile(profiler: Profiler, path: string, streams: CliStreams): Promise<void> {
+  streams.stderr.write(`\n${profiler.summary()}`);
+  try {
+    await writeFile(path, profiler.foldedStacks());
+  } catch (error) {
+    streams.stderr.write(`basic9000: cannot write ${path}: ${(error as Error).message}\n`);
+  }
+}
+
+async function checkFiles(paths: readonly string[], streams: CliStreams, options: { types: boolean; color: boolean }): Promise<number> {
+  let errorCount = 0;
+  for (const path of paths) {
+    const fileName = basename(path);
+    let source = '';
+    let errors: unknown[];
+    try {
+      source = await readFile(path, 'utf8');
+      if (options.types) {
+        errors = checkSource(source, { fileName });
+      } else {
+        const diagnostics: ParseError[] = [];
+        parseSource(source, { fileName, diagnostics });
+        errors = diagnostics;
+      }
+    } catch (error) {
+      // Unreadable files and tokenizer errors stop the check of this file only
+      errors = [error];
+    }
+
+    for (const error of errors) {
+      streams.stderr.write(`${path}:\n${formatDiagnostic(error, source, { fileName, color: options.color })}\n`);
+    }
+    errorCount += errors.length;
+  }
+
+  if (errorCount > 0) {
+    streams.stderr.write(`\n${errorCount} error(s) found\n`);
+    return ExitCode.Error;
+  }
+  streams.stdout.write(`No errors in ${paths.length} file(s)\n`);
+  return ExitCode.Success;
+}
+
+/**
+ * Runs each program in a fresh session. A program passes when it prints no FAIL: line, or, when it
+ * contains `REM EXPECT: RuntimeError`, when it stops with a runtime error.
+ */
+async function testPrograms(paths: readonly string[], streams: CliStreams, options: RunOptions): Promise<number> {
+  const files: string[] = [];
+  for (const path of paths) {
+    try {
+      files.push(...await listPrograms(path));
+    } catch (error) {
+      streams.stderr.write(`basic9000: cannot read ${path}: ${(error as Error).message}\n`);
+      return ExitCode.Error;
+    }
+  }
+
+  let passed = 0;
+  for (const file of files) {
+    const source = await readFile(file, 'utf8');
+    const expectsRuntimeError = source.includes('REM EXPECT: RuntimeError');
+    const session = new InterpreterSession({
+      sourcePath: resolve(file),
+      maxSteps: options.maxSteps,
+      hostEnvironment: options.hostEnvironment
+    });
+
+    let problems: string[];
+    try {
+      const { outputs } = await session.run(source, { fileName: basename(file) });
+      problems = outputs.filter((line) => line.includes('FAIL:'));
+      if (expectsRuntimeError) {
+        problems.push('expected a RuntimeError, but the program finished');
+      }
+    } catch (error) {
+      problems = error instanceof RuntimeError && expectsRuntimeError
+        ? []
+        : [formatDiagnostic(error, source, { fileName: basename(file), color: options.color })];
+    }
+
+    if (problems.length === 0) {
+      passed += 1;
+      streams.stdout.write(`ok   ${file}\n`);
+    } else {
+      streams.stdout.write(`FAIL ${file}\n${problems.map((problem) => indent(problem)).join('\n')}\n`);
+    }
+  }
+
+  const failed = files.length - passed;
+  streams.stdout.write(`\n${passed} passed, ${failed} failed\n`);
+  return failed > 0 ? ExitCode.Error : ExitCode.Success;
+}
+
+async function listPrograms(path: string): Promise<string[]> {
+  if (!(await stat(path)).isDirectory()) {
+    return [path];
+  }
+  const entries = (await readdir(path)).sort();
+  const nested = await Promise.all(entries.map(async (entry) => {
+    const child = join(path, entry);
+    return (await stat(child)).isDirectory() ? listPrograms(child) : entry.endsWith('.bas') ? [child] : [];
+  }));
+  return nested.flat();
+}
+
+function indent(text: string): string {
+  return text.split('\n').map((line) => `    ${line}`).join('\n');
+}
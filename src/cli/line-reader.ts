@@ -0,0 +1,83 @@
+import { createInterface, type Interface } from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+
+/**
+ * Hands out input lines one at a time. Lines that arrive before anyone asks, as piped input does,
+ * are queued rather than dropped; with `terminal` set, readline provides line editing and history.
+ */
+export class LineReader {
+  private readonly readline: Interface;
+  private readonly queued: string[] = [];
+  private waiting: ((line: string | undefined) => void) | undefined;
+  private closed = false;
+
+  constructor(input: Readable, private readonly output: Writable, private readonly terminal = false) {
+    this.readline = createInterface({ input, output, terminal, historySize: terminal ? 100 : 0 });
+    this.readline.on('line', (line) => {
+      const waiting = this.waiting;
+      this.waiting = undefined;
+      if (waiting) {
+        waiting(line);
+      } else {
+        this.queued.push(line);
+      }
+    });
+    this.readline.on('close', () => {
+      this.closed = true;
+      const waiting = this.waiting;
+      this.waiting = undefined;
+      waiting?.(undefined);
+    });
+  }
+
+  // Resolves undefined once the input has ended. Without a prompt, typing continues the current
+  // output line, so a program's `PRINT "Name? ";` stays in front of the answer
+  public read(prompt = ''): Promise<string | undefined> {
+    const line = this.queued.shift();
+    if (line !== undefined || this.closed) {
+      return Promise.resolve(line);
+    }
+    if (prompt) {
+      this.prompt(prompt);
+    } else {
+      this.readline.setPrompt('');
+    }
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+    });
+  }
+
+  // Prompts only make sense to someone typing, so piped input gets none
+  public prompt(prompt: string): void {
+    if (!this.terminal) {
+      return;
+    }
+    this.readline.setPrompt(prompt);
+    this.readline.prompt();
+  }
+
+  // Gives whoever is waiting for a line nothing, as if the input had ended
+  public cancelRead(): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.(undefined);
+  }
+
+  // Ctrl+C on a terminal: the half-typed line is dropped before the handler runs
+  public onInterrupt(handler: () => void): void {
+    this.readline.on('SIGINT', () => {
+      this.readline.write('', { ctrl: true, name: 'e' });
+      this.readline.write('', { ctrl: true, name: 'u' });
+      this.output.write('^C\n');
+      handler();
+    });
+  }
+
+  public close(): void {
+    this.readline.close();
+  }
+}
+
+export function isTty(stream: Readable | Writable): boolean {
+  return (stream as { isTTY?: boolean }).isTTY === true;
+}
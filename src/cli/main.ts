@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+import { runCli } from './cli.js';
+
+const code = await runCli(process.argv.slice(2), {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr
+});
+// Let buffered output reach a pipe before the process goes away
+process.stdout.write('', () => process.exit(code));
@@ -0,0 +1,18 @@
+import type { Writable } from 'node:stream';
+
+import type { ExecutionOptions } from '../interpreter/evaluator.js';
+
+/** Output callbacks that write program output to the stream as it is printed, partial lines included. */
+export function streamOutput(stream: Writable): Pick<ExecutionOptions, 'onOutput' | 'onFlush'> {
+  let written = 0; // Characters of the unfinished line already on the stream
+  return {
+    onFlush: (pending) => {
+      stream.write(pending.slice(written));
+      written = pending.length;
+    },
+    onOutput: (line) => {
+      stream.write(`${line.slice(written)}\n`);
+      written = 0;
+    }
+  };
+}
@@ -0,0 +1,155 @@
+import type { Readable, Writable } from 'node:stream';
+
+import type { ProgramNode } from '../interpreter/ast.js';
+import { formatDiagnostic } from '../interpreter/diagnostics.js';
+import { InterpreterSession } from '../interpreter/evaluator.js';
+import type { HostEnvironment } from '../interpreter/host.js';
+import { ParseError, parseSource } from '../interpreter/parser.js';
+import { TokenType, tokenize } from '../interpreter/tokenizer.js';
+import { isTty, LineReader } from './line-reader.js';
+import { streamOutput } from './output.js';
+
+export interface ReplOptions {
+  readonly maxSteps?: number;
+  readonly hostEnvironment?: HostEnvironment;
+  readonly terminal?: boolean; // Line editing and history; defaults to whether both streams are TTYs
+  readonly color?: boolean; // ANSI colours in error messages
+}
+
+// Same prompt as the retro terminal; continuation lines line up under it
+const PROMPT = 'READY> ';
+const CONTINUATION_PROMPT = '  ...> ';
+
+const HELP = [
+  'Enter BASIC statements to run them; variables, FUNCTIONs and TYPEs persist between entries.',
+  'Unclosed blocks continue on the next line; a blank line runs what you have so far.',
+  'Ctrl+C stops a running program; CONT carries on from where it stopped.',
+  '  .help    Show this help',
+  '  .reset   Forget everything defined so far',
+  '  .exit    Leave the REPL (or press Ctrl+D)'
+].join('\n');
+
+/**
+ * Whether the source stops in the middle of a block, so the REPL should read another line instead
+ * of running it. FOR and WHILE parse without their NEXT and WEND, so those are counted separately.
+ */
+export function isIncompleteInput(source: string): boolean {
+  let program: ProgramNode;
+  try {
+    // The line break the user typed turns `IF ... THEN` into a block opener rather than an empty IF
+    program = parseSource(`${source}\n`);
+  } catch (error) {
+    return error instanceof ParseError &&
+      (error.token.type === TokenType.EOF || error.detail === 'Unterminated TYPE declaration');
+  }
+
+  const counts = new Map<string, number>();
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === 'object') {
+      const { type } = node as { type?: unknown };
+      if (typeof type === 'string') {
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+      }
+      Object.values(node).forEach(visit);
+    }
+  };
+  visit(program.lines);
+
+  const wends = tokenize(source).filter((token) => token.type === TokenType.Keyword && token.lexeme.toUpperCase() === 'WEND').length;
+  return (counts.get('ForStatement') ?? 0) > (counts.get('NextStatement') ?? 0) ||
+    (counts.get('WhileStatement') ?? 0) > wends;
+}
+
+/** Interactive read-eval-print loop over one InterpreterSession; resolves with the exit code once input ends. */
+export async function startRepl(input: Readable, output: Writable, options: ReplOptions = {}): Promise<number> {
+  const terminal = options.terminal ?? (isTty(input) && isTty(output));
+  const reader = new LineReader(input, output, terminal);
+  const session = new InterpreterSession({
+    maxSteps: options.maxSteps,
+    hostEnvironment: options.hostEnvironment,
+    inputHandler: async () => (await reader.read()) ?? '',
+    ...streamOutput(output)
+  });
+  const write = (text: string): void => {
+    output.write(`${text}\n`);
+  };
+
+  let buffer: string[] = [];
+  let running = false;
+  reader.onInterrupt(() => {
+    if (running) {
+      session.interrupt();
+      reader.cancelRead(); // An INPUT waiting for an answer gets none
+      return;
+    }
+    buffer = [];
+    reader.prompt(PROMPT);
+  });
+
+  if (terminal) {
+    write('BASIC9000 REPL. Type .help for commands.');
+  }
+  for (;;) {
+    const line = await reader.read(buffer.length > 0 ? CONTINUATION_PROMPT : PROMPT);
+    if (line === undefined) {
+      break;
+    }
+
+    if (buffer.length === 0) {
+      const command = line.trim().toLowerCase();
+      if (command === '.exit') {
+        break;
+      }
+      if (command === '.help') {
+        write(HELP);
+        continue;
+      }
+      if (command === '.reset') {
+        session.reset();
+        write('Session reset.');
+        continue;
+      }
+      if (command === '') {
+        continue;
+      }
+    }
+
+    buffer.push(line);
+    const source = buffer.join('\n');
+    if (line.trim() !== '' && isIncompleteInput(source)) {
+      continue;
+    }
+    buffer = [];
+
+    // Report every syntax error at once instead of stopping at the first
+    const diagnostics: ParseError[] = [];
+    let errors: unknown[] = diagnostics;
+    try {
+      parseSource(source, { diagnostics });
+    } catch (error) {
+      errors = [error]; // The tokenizer does not recover
+    }
+    if (errors.length > 0) {
+      write(errors.map((error) => formatDiagnostic(error, source, { color: options.color })).join('\n'));
+      continue;
+    }
+
+    running = true;
+    try {
+      const result = await session.run(source);
+      if (result.halted === 'STOP' || result.halted === 'BREAK') {
+        write(`(HALTED: ${result.halted})`);
+      }
+    } catch (error) {
+      session.takeOutputs(); // Ends a half-printed line
+      write(formatDiagnostic(error, source, { color: options.color }));
+    } finally {
+      running = false;
+    }
+  }
+
+  reader.close();
+  return 0;
+}
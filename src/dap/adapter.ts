@@ -0,0 +1,269 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Writable, type Readable } from 'node:stream';
+
+import { streamOutput } from '../cli/output.js';
+import { Debugger, type Breakpoint } from '../interpreter/debugger.js';
+import { formatDiagnostic } from '../interpreter/diagnostics.js';
+import {
+  executeProgram,
+  ExecutionAbortedError,
+  runtimeValueToString,
+  type ExecutionOptions
+} from '../interpreter/evaluator.js';
+import type { HostEnvironment } from '../interpreter/host.js';
+import { parseSource } from '../interpreter/parser.js';
+import { isRecordValue, RuntimeRecordValue, type RuntimeValue } from '../interpreter/runtime-values.js';
+import { DapConnection } from './connection.js';
+
+export interface DebugAdapterOptions {
+  readonly hostEnvironment?: HostEnvironment;
+  readonly onExit?: () => void; // Called once the client disconnects
+}
+
+interface LaunchArguments {
+  readonly program?: string; // Path of the .bas file to run
+  readonly stopOnEntry?: boolean;
+  readonly noDebug?: boolean;
+  readonly maxSteps?: number;
+}
+
+interface SetBreakpointsArguments {
+  readonly source: { readonly path?: string };
+  readonly breakpoints?: readonly { readonly line: number; readonly condition?: string }[];
+}
+
+// Only user values with members can be expanded in the Variables view
+type Container = Readonly<Record<string, RuntimeValue>> | readonly RuntimeValue[] | RuntimeRecordValue;
+
+interface Launch {
+  readonly path: string;
+  readonly source: string;
+  readonly options: ExecutionOptions;
+}
+
+// BASIC9000 programs run on a single fiber as far as the client is concerned
+const THREAD_ID = 1;
+
+/**
+ * Debug Adapter Protocol server that runs one .bas program under a Debugger: breakpoints (with
+ * conditions), stepping, pause, the call stack, variables and WITH objects, and expression evaluation
+ * for watches and hovers. Program output goes to the client as `output` events.
+ */
+export class DebugAdapter {
+  private readonly breakpoints = new Map<string, readonly Breakpoint[]>(); // File name -> breakpoints
+  private readonly sourcePaths = new Map<string, string>(); // File name -> path the client knows it by
+  private readonly abort = new AbortController();
+  private containers: Container[] = []; // variablesReference - 1 -> container; valid until the program moves on
+  private debug: Debugger | undefined;
+  private launch: Launch | undefined;
+  private configured = false;
+  private running = false;
+
+  constructor(private readonly connection: DapConnection, private readonly options: DebugAdapterOptions = {}) {
+    connection.onRequest('initialize', () => ({
+      supportsConfigurationDoneRequest: true,
+      supportsConditionalBreakpoints: true,
+      supportsEvaluateForHovers: true,
+      supportsTerminateRequest: true
+    }), () => connection.sendEvent('initialized'));
+    // The program runs as soon as it is both launched and configured, whichever comes last
+    connection.onRequest('launch', (args) => this.prepare(args as LaunchArguments), () => this.startWhenReady());
+    connection.onRequest('configurationDone', () => {
+      this.configured = true;
+    }, () => this.startWhenReady());
+    connection.onRequest('setBreakpoints', (args) => this.setBreakpoints(args as SetBreakpointsArguments));
+    connection.onRequest('setExceptionBreakpoints', () => ({}));
+    connection.onRequest('threads', () => ({ threads: [{ id: THREAD_ID, name: 'main' }] }));
+
+    connection.onRequest('stackTrace', () => {
+      const entries = this.requireDebugger().stackTrace();
+      return {
+        stackFrames: entries.map((entry, id) => ({
+          id,
+          name: entry.name,
+          line: entry.line,
+          column: entry.column,
+          source: this.sourceFor(entry.file)
+        })),
+        totalFrames: entries.length
+      };
+    });
+    // Routines share the program's variables, so every frame shows the same scopes
+    connection.onRequest('scopes', () => {
+      const location = this.requireDebugger().location;
+      if (!location) {
+        throw new Error('The program is not stopped');
+      }
+      const scopes = [{ name: 'Variables', variablesReference: this.handleFor(location.variables()), expensive: false }];
+      if (location.withStack.length > 0) {
+        // Innermost WITH object first, the one `.field` refers to
+        scopes.push({ name: 'WITH', variablesReference: this.handleFor(location.withStack.slice().reverse()), expensive: false });
+      }
+      return { scopes };
+    });
+    connection.onRequest('variables', (args) => {
+      const { variablesReference } = args as { variablesReference: number };
+      const container = this.containers[variablesReference - 1];
+      return { variables: container ? members(container).map(([name, value]) => ({ name, ...this.describe(value) })) : [] };
+    });
+    connection.onRequest('evaluate', async (args) => {
+      const { expression } = args as { expression: string };
+      const { value, variablesReference } = this.describe(await this.requireDebugger().evaluate(expression));
+      return { result: value, variablesReference };
+    });
+
+    connection.onRequest('continue', () => {
+      this.moveOn((debug) => debug.continue());
+      return { allThreadsContinued: true };
+    });
+    connection.onRequest('next', () => this.moveOn((debug) => debug.stepOver()));
+    connection.onRequest('stepIn', () => this.moveOn((debug) => debug.stepInto()));
+    connection.onRequest('stepOut', () => this.moveOn((debug) => debug.stepOut()));
+    connection.onRequest('pause', () => this.requireDebugger().pause());
+    connection.onRequest('terminate', () => this.terminate());
+    connection.onRequest('disconnect', () => this.terminate(), () => this.options.onExit?.());
+  }
+
+  private async prepare(args: LaunchArguments): Promise<void> {
+    if (!args.program) {
+      throw new Error('Launch configuration needs "program", the path of a .bas file');
+    }
+    const programPath = path.resolve(args.program);
+    const source = await readFile(programPath, 'utf8');
+    const fileName = path.basename(programPath);
+    this.sourcePaths.set(fileName, programPath);
+
+    if (!args.noDebug) {
+      this.debug = new Debugger({
+        stopOnEntry: args.stopOnEntry,
+        onStop: (reason) => {
+          this.containers = [];
+          this.connection.sendEvent('stopped', { reason, threadId: THREAD_ID, allThreadsStopped: true });
+        }
+      });
+      for (const [file, breakpoints] of this.breakpoints) {
+        this.debug.setBreakpoints(file, breakpoints);
+      }
+    }
+    this.launch = {
+      path: programPath,
+      source,
+      options: {
+        sourcePath: programPath,
+        maxSteps: args.maxSteps,
+        hostEnvironment: this.options.hostEnvironment,
+        signal: this.abort.signal,
+        debugHook: this.debug,
+        ...streamOutput(new Writable({
+          write: (chunk: Buffer, _encoding, done) => {
+            this.connection.sendEvent('output', { category: 'stdout', output: chunk.toString('utf8') });
+            done();
+          }
+        }))
+      }
+    };
+  }
+
+  // Tokens name their file without its directory, so breakpoints are kept by file name too
+  private setBreakpoints(args: SetBreakpointsArguments): unknown {
+    const requested = args.breakpoints ?? [];
+    if (args.source.path) {
+      const fileName = path.basename(args.source.path);
+      this.sourcePaths.set(fileName, args.source.path);
+      this.breakpoints.set(fileName, requested);
+      this.debug?.setBreakpoints(fileName, requested);
+    }
+    return { breakpoints: requested.map(({ line }) => ({ verified: Boolean(args.source.path), line })) };
+  }
+
+  private startWhenReady(): void {
+    const { launch } = this;
+    if (!launch || !this.configured || this.running) {
+      return;
+    }
+    this.running = true;
+    void this.run(launch);
+  }
+
+  private async run(launch: Launch): Promise<void> {
+    let exitCode = 0;
+    try {
+      const program = parseSource(launch.source, { fileName: path.basename(launch.path) });
+      await executeProgram(program, launch.options);
+    } catch (error) {
+      if (!(error instanceof ExecutionAbortedError)) {
+        const report = formatDiagnostic(error, launch.source, { fileName: path.basename(launch.path) });
+        this.connection.sendEvent('output', { category: 'stderr', output: `${report}\n` });
+        exitCode = 1;
+      }
+    }
+    this.connection.sendEvent('exited', { exitCode });
+    this.connection.sendEvent('terminated');
+  }
+
+  private terminate(): void {
+    this.abort.abort('Debug session ended');
+    this.debug?.continue(); // A stopped program must move on to notice the abort
+  }
+
+  private moveOn(step: (debug: Debugger) => void): void {
+    this.containers = [];
+    step(this.requireDebugger());
+  }
+
+  private requireDebugger(): Debugger {
+    if (!this.debug) {
+      throw new Error('No program is being debugged');
+    }
+    return this.debug;
+  }
+
+  private sourceFor(file: string | undefined): { name: string; path: string } | undefined {
+    const launchPath = this.launch?.path;
+    const fileName = file ?? (launchPath && path.basename(launchPath));
+    if (!fileName || !launchPath) {
+      return undefined;
+    }
+    return { name: fileName, path: this.sourcePaths.get(fileName) ?? path.join(path.dirname(launchPath), fileName) };
+  }
+
+  private handleFor(container: Container): number {
+    this.containers.push(container);
+    return this.containers.length;
+  }
+
+  private describe(value: RuntimeValue): { value: string; type?: string; variablesReference: number } {
+    if (Array.isArray(value)) {
+      return { value: `ARRAY(${value.length})`, type: 'ARRAY', variablesReference: this.handleFor(value) };
+    }
+    if (isRecordValue(value)) {
+      return { value: runtimeValueToString(value), type: value.typeName, variablesReference: this.handleFor(value) };
+    }
+    if (typeof value === 'string') {
+      return { value: JSON.stringify(value), type: 'STRING', variablesReference: 0 };
+    }
+    return {
+      value: runtimeValueToString(value),
+      type: typeof value === 'number' ? 'NUMBER' : typeof value === 'boolean' ? 'BOOLEAN' : undefined,
+      variablesReference: 0
+    };
+  }
+}
+
+export function startDebugAdapter(input: Readable, output: Writable, options: DebugAdapterOptions = {}): DebugAdapter {
+  const connection = new DapConnection(input, output);
+  const adapter = new DebugAdapter(connection, options);
+  connection.listen();
+  return adapter;
+}
+
+function members(container: Container): [string, RuntimeValue][] {
+  if (Array.isArray(container)) {
+    return container.map((value, index) => [`[${index}]`, value]);
+  }
+  if (container instanceof RuntimeRecordValue) {
+    return container.entries();
+  }
+  return Object.entries(container);
+}
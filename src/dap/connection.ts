@@ -0,0 +1,72 @@
+import type { Readable, Writable } from 'node:stream';
+
+import { readFramedMessages, writeFramedMessage } from '../lsp/framing.js';
+
+interface DapRequest {
+  readonly seq: number;
+  readonly type: 'request';
+  readonly command: string;
+  readonly arguments?: unknown;
+}
+
+export type DapRequestHandler = (args: unknown) => unknown | Promise<unknown>;
+
+/**
+ * Debug Adapter Protocol messages over a byte stream, framed like LSP with a `Content-Length` header.
+ * Each request gets a response carrying its handler's result as the body, or its error as the message.
+ */
+export class DapConnection {
+  private readonly handlers = new Map<string, { handler: DapRequestHandler; after?: () => void }>();
+  private pending: Promise<void> = Promise.resolve(); // Requests are handled one at a time, in arrival order
+  private seq = 1;
+
+  constructor(private readonly input: Readable, private readonly output: Writable) {}
+
+  // `after` runs once a successful response is sent, for events the client must see after it
+  public onRequest(command: string, handler: DapRequestHandler, after?: () => void): void {
+    this.handlers.set(command, { handler, after });
+  }
+
+  public listen(): void {
+    readFramedMessages(this.input, (body) => {
+      this.pending = this.pending.then(() => this.dispatch(body));
+    });
+  }
+
+  public sendEvent(event: string, body?: unknown): void {
+    this.write({ type: 'event', event, body });
+  }
+
+  private async dispatch(body: string): Promise<void> {
+    let request: DapRequest;
+    try {
+      request = JSON.parse(body) as DapRequest;
+    } catch {
+      return; // DAP has no response for a message without a readable seq
+    }
+    if (request.type !== 'request') {
+      return; // Responses to reverse requests are not used
+    }
+
+    const respond = (success: boolean, extra: { body?: unknown; message?: string }): void => {
+      this.write({ type: 'response', request_seq: request.seq, command: request.command, success, ...extra });
+    };
+    const entry = this.handlers.get(request.command);
+    if (!entry) {
+      respond(false, { message: `Unsupported request ${request.command}` });
+      return;
+    }
+    try {
+      const result = await entry.handler(request.arguments);
+      respond(true, { body: result ?? undefined });
+    } catch (error) {
+      respond(false, { message: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    entry.after?.();
+  }
+
+  private write(message: object): void {
+    writeFramedMessage(this.output, { seq: this.seq++, ...message });
+  }
+}
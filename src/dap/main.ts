@@ -0,0 +1,17 @@
+import { createServer } from 'node:net';
+
+import { startDebugAdapter } from './adapter.js';
+
+// `--port N` serves debug sessions over TCP, for editors that attach with `debugServer`; stdio otherwise
+const portIndex = process.argv.indexOf('--port');
+if (portIndex !== -1) {
+  const port = Number(process.argv[portIndex + 1]);
+  createServer((socket) => {
+    startDebugAdapter(socket, socket, { onExit: () => socket.end() });
+  }).listen(port);
+} else {
+  startDebugAdapter(process.stdin, process.stdout, {
+    // Let the disconnect response reach the client before the process goes away
+    onExit: () => process.stdout.write('', () => process.exit(0))
+  });
+}
@@ -2,7 +2,15 @@ export * from './interpreter/tokenizer.js';
 export * from './interpreter/parser.js';
 export * from './interpreter/ast.js';
 export * from './interpreter/evaluator.js';
+export * from './interpreter/embedding.js';
+export * from './interpreter/debugger.js';
+export * from './interpreter/profiler.js';
+export * from './interpreter/diagnostics.js';
+export * from './interpreter/checker.js';
+export * from './interpreter/formatter.js';
 export * from './interpreter/host.js';
 export * from './interpreter/runtime-values.js';
 export * from './interpreter/host-defaults.js';
 export { getAndClearPendingCanvasCommands } from './interpreter/canvas-namespace.js';
+export * from './lsp/server.js';
+export * from './dap/adapter.js';
@@ -3,6 +3,16 @@ import type { Token } from './tokenizer.js';
 export interface ProgramNode {
   readonly type: 'Program';
   readonly lines: LineNode[];
+  readonly data: readonly DataItemNode[]; // Every DATA value in source order, for READ
+}
+
+export interface DataValueNode {
+  readonly value: number | string;
+  readonly token: Token;
+}
+
+export interface DataItemNode extends DataValueNode {
+  readonly lineIndex: number; // Line holding the DATA statement, for RESTORE
 }
 
 export interface LineNode {
@@ -13,6 +23,7 @@ export interface LineNode {
 export type StatementNode =
   | PrintStatementNode
   | LetStatementNode
+  | DimStatementNode
   | AssignmentStatementNode
   | TypeDeclarationNode
   | IfStatementNode
@@ -22,10 +33,12 @@ export type StatementNode =
   | NextStatementNode
   | ReturnStatementNode
   | StopStatementNode
+  | ContStatementNode
   | EndStatementNode
   | ExpressionStatementNode
   | TryCatchStatementNode
   | ErrorStatementNode
+  | RethrowStatementNode
   | FunctionStatementNode
   | SubStatementNode
   | ExitStatementNode
@@ -33,11 +46,30 @@ export type StatementNode =
   | PropertyStatementNode
   | WithStatementNode
   | SelectCaseStatementNode
+  | SelectReceiveStatementNode
   | InputStatementNode
   | DeferStatementNode
   | DeferBlockStatementNode
   | SendStatementNode
-  | AIFuncDeclarationNode;
+  | BroadcastStatementNode
+  | KillStatementNode
+  | JoinStatementNode
+  | YieldStatementNode
+  | ConstStatementNode
+  | RedimStatementNode
+  | GotoStatementNode
+  | GosubStatementNode
+  | OnJumpStatementNode
+  | OnErrorStatementNode
+  | DataStatementNode
+  | ReadStatementNode
+  | RestoreStatementNode
+  | ResumeStatementNode
+  | OptionBaseStatementNode
+  | ModuleStatementNode
+  | ImportStatementNode
+  | AIFuncDeclarationNode
+  | InvalidStatementNode;
 
 export interface BaseStatementNode {
   readonly type: StatementNode['type'];
@@ -57,14 +89,91 @@ export interface PrintArgument {
 
 export interface LetStatementNode extends BaseStatementNode {
   readonly type: 'LetStatement';
-  readonly target: IdentifierNode | MemberExpressionNode | WithFieldNode;
+  readonly target: AssignmentTargetNode;
   readonly typeAnnotation?: TypeAnnotationNode;
   readonly value: ExpressionNode;
 }
 
+export type AssignmentTargetNode = IdentifierNode | MemberExpressionNode | IndexExpressionNode | WithFieldNode;
+
+export interface DimStatementNode extends BaseStatementNode {
+  readonly type: 'DimStatement';
+  readonly name: IdentifierNode;
+  readonly dimensions?: readonly ArrayBoundsNode[]; // DIM grid(80, 25) declares an array
+  readonly typeAnnotation?: TypeAnnotationNode; // CHANNEL OF T is CHANNEL with typeArguments [T]
+  readonly buffer?: ExpressionNode; // CHANNEL buffer size
+}
+
+export interface RedimStatementNode extends BaseStatementNode {
+  readonly type: 'RedimStatement';
+  readonly name: IdentifierNode;
+  readonly dimensions: readonly ArrayBoundsNode[];
+  readonly typeAnnotation?: TypeAnnotationNode;
+  readonly preserve: boolean;
+}
+
+export interface ArrayBoundsNode {
+  readonly lower: ExpressionNode; // OPTION BASE when written without TO
+  readonly upper: ExpressionNode;
+}
+
+export interface LineTargetNode {
+  readonly lineNumber: number;
+  readonly token: Token;
+}
+
+export interface GotoStatementNode extends BaseStatementNode {
+  readonly type: 'GotoStatement';
+  readonly target: LineTargetNode;
+}
+
+export interface GosubStatementNode extends BaseStatementNode {
+  readonly type: 'GosubStatement';
+  readonly target: LineTargetNode;
+}
+
+// ON x GOTO 100, 200 picks the x-th target (1-based) and falls through when x is out of range
+export interface OnJumpStatementNode extends BaseStatementNode {
+  readonly type: 'OnJumpStatement';
+  readonly selector: ExpressionNode;
+  readonly mode: 'GOTO' | 'GOSUB';
+  readonly targets: readonly LineTargetNode[];
+}
+
+export interface OnErrorStatementNode extends BaseStatementNode {
+  readonly type: 'OnErrorStatement';
+  readonly target?: LineTargetNode; // Undefined for ON ERROR GOTO 0, which removes the handler
+}
+
+export interface ResumeStatementNode extends BaseStatementNode {
+  readonly type: 'ResumeStatement';
+  readonly mode: 'RETRY' | 'NEXT' | 'LINE'; // RESUME, RESUME NEXT, RESUME 100
+  readonly target?: LineTargetNode;
+}
+
+export interface DataStatementNode extends BaseStatementNode {
+  readonly type: 'DataStatement';
+  readonly values: readonly DataValueNode[];
+}
+
+export interface ReadStatementNode extends BaseStatementNode {
+  readonly type: 'ReadStatement';
+  readonly targets: readonly AssignmentTargetNode[];
+}
+
+export interface RestoreStatementNode extends BaseStatementNode {
+  readonly type: 'RestoreStatement';
+  readonly target?: LineTargetNode; // Defaults to the first DATA value
+}
+
+export interface OptionBaseStatementNode extends BaseStatementNode {
+  readonly type: 'OptionBaseStatement';
+  readonly base: number; // Applied by the parser to later DIM and REDIM bounds
+}
+
 export interface AssignmentStatementNode extends BaseStatementNode {
   readonly type: 'AssignmentStatement';
-  readonly target: IdentifierNode | MemberExpressionNode | WithFieldNode;
+  readonly target: AssignmentTargetNode;
   readonly value: ExpressionNode;
 }
 
@@ -73,6 +182,7 @@ export interface TypeDeclarationNode extends BaseStatementNode {
   readonly name: IdentifierNode;
   readonly fields: readonly TypeFieldNode[];
   readonly spreadFields?: readonly string[]; // Field names for spread operator in order
+  readonly isPublic?: boolean; // Exported by a module
 }
 
 export interface TypeFieldNode {
@@ -123,6 +233,10 @@ export interface StopStatementNode extends BaseStatementNode {
   readonly type: 'StopStatement';
 }
 
+export interface ContStatementNode extends BaseStatementNode {
+  readonly type: 'ContStatement';
+}
+
 export interface EndStatementNode extends BaseStatementNode {
   readonly type: 'EndStatement';
 }
@@ -131,6 +245,8 @@ export interface SpawnExpressionNode {
   readonly type: 'SpawnExpression';
   readonly token: Token;
   readonly routine: ExpressionNode;
+  readonly supervisor?: ExpressionNode; // SUPERVISED BY task or channel that receives exit records
+  readonly restartLimit?: ExpressionNode; // RESTART ON ERROR n TIMES
 }
 
 export interface InputStatementNode extends BaseStatementNode {
@@ -147,13 +263,26 @@ export interface ExpressionStatementNode extends BaseStatementNode {
 export interface TryCatchStatementNode extends BaseStatementNode {
   readonly type: 'TryCatchStatement';
   readonly tryBlock: StatementNode[];
-  readonly catchClause?: {
-    readonly variable: IdentifierNode;
-    readonly block: StatementNode[];
-  };
+  readonly catchClauses: readonly CatchClauseNode[]; // Tried in order; the first matching type handles the error
   readonly finallyBlock?: StatementNode[];
 }
 
+export interface CatchClauseNode {
+  readonly variable: IdentifierNode;
+  readonly errorType?: IdentifierNode; // CATCH e AS HttpError; omitted or Error catches everything
+  readonly block: StatementNode[];
+}
+
+// Stands in for a statement the parser skipped while recovering from a syntax error
+export interface InvalidStatementNode extends BaseStatementNode {
+  readonly type: 'InvalidStatement';
+  readonly message: string;
+}
+
+export interface RethrowStatementNode extends BaseStatementNode {
+  readonly type: 'RethrowStatement';
+}
+
 export interface ErrorStatementNode extends BaseStatementNode {
   readonly type: 'ErrorStatement';
   readonly message: ExpressionNode;
@@ -165,6 +294,7 @@ export interface FunctionStatementNode extends BaseStatementNode {
   readonly parameters: ParameterNode[];
   readonly returnType?: TypeAnnotationNode;
   readonly body: StatementNode[];
+  readonly isPublic?: boolean; // Exported by a module
 }
 
 export interface SubStatementNode extends BaseStatementNode {
@@ -172,6 +302,25 @@ export interface SubStatementNode extends BaseStatementNode {
   readonly name: IdentifierNode;
   readonly parameters: ParameterNode[];
   readonly body: StatementNode[];
+  readonly isPublic?: boolean; // Exported by a module
+}
+
+export interface ConstStatementNode extends BaseStatementNode {
+  readonly type: 'ConstStatement';
+  readonly name: IdentifierNode;
+  readonly value: ExpressionNode; // Already folded when built from literals and earlier constants
+  readonly isPublic?: boolean; // Exported by a module
+}
+
+export interface ModuleStatementNode extends BaseStatementNode {
+  readonly type: 'ModuleStatement';
+  readonly name: IdentifierNode; // Default namespace for importers that omit AS
+}
+
+export interface ImportStatementNode extends BaseStatementNode {
+  readonly type: 'ImportStatement';
+  readonly path: string; // Relative to the importing file
+  readonly alias?: IdentifierNode;
 }
 
 export interface ParameterNode {
@@ -242,6 +391,24 @@ export interface CaseClause {
   readonly statements: StatementNode[];
 }
 
+export interface SelectReceiveStatementNode extends BaseStatementNode {
+  readonly type: 'SelectReceiveStatement';
+  readonly cases: ReceiveCaseClause[];
+  readonly timeout?: ReceiveTimeoutClause;
+  readonly elseCase?: StatementNode[]; // Runs at once when no source is ready
+}
+
+export interface ReceiveCaseClause {
+  readonly target: IdentifierNode; // Variable bound to the received message
+  readonly source?: ExpressionNode; // Channel; the task's own mailbox when omitted
+  readonly statements: StatementNode[];
+}
+
+export interface ReceiveTimeoutClause {
+  readonly duration: ExpressionNode; // Milliseconds
+  readonly statements: StatementNode[];
+}
+
 export type ExpressionNode =
   | NumberLiteralNode
   | StringLiteralNode
@@ -367,6 +534,7 @@ export interface IndexExpressionNode {
   readonly type: 'IndexExpression';
   readonly object: ExpressionNode;
   readonly index: ExpressionNode;
+  readonly subscript?: boolean; // Written grid(x, y) rather than grid[x][y]
 }
 
 export interface AwaitExpressionNode {
@@ -410,10 +578,31 @@ export interface SendStatementNode extends BaseStatementNode {
   readonly message: ExpressionNode; // Message to send
 }
 
+export interface BroadcastStatementNode extends BaseStatementNode {
+  readonly type: 'BroadcastStatement';
+  readonly target: ExpressionNode; // Channel whose subscribers get the message
+  readonly message: ExpressionNode;
+}
+
+export interface KillStatementNode extends BaseStatementNode {
+  readonly type: 'KillStatement';
+  readonly target: ExpressionNode; // Task to cancel
+}
+
+export interface JoinStatementNode extends BaseStatementNode {
+  readonly type: 'JoinStatement';
+  readonly targets: ExpressionNode[]; // Tasks to wait for
+}
+
+export interface YieldStatementNode extends BaseStatementNode {
+  readonly type: 'YieldStatement';
+}
+
 export interface RecvExpressionNode {
   readonly type: 'RecvExpression';
   readonly token: Token;
-  readonly timeout?: ExpressionNode; // Optional timeout in milliseconds
+  readonly source?: ExpressionNode; // Channel, for RECEIVE(channel, timeout)
+  readonly timeout?: ExpressionNode; // Timeout in milliseconds, or a channel when it is the only argument
 }
 
 export type AnyNode = ProgramNode | LineNode | StatementNode | ExpressionNode;
@@ -0,0 +1,890 @@
+import type {
+  AssignmentTargetNode,
+  CallExpressionNode,
+  ExpressionNode,
+  MemberExpressionNode,
+  NewExpressionNode,
+  ParameterNode,
+  ProgramNode,
+  RecordLiteralNode,
+  StatementNode,
+  TypeAnnotationNode
+} from './ast.js';
+import { suggestNames } from './diagnostics.js';
+import { BUILT_IN_RECORD_TYPES, BUILT_IN_TYPE_NAMES } from './evaluator.js';
+import { createDefaultHostEnvironment } from './host-defaults.js';
+import { isHostFunction, isHostNamespace, type HostEnvironment, type HostFunctionValue } from './host.js';
+import { ParseError, parseSource } from './parser.js';
+import { formatLocation, type Token } from './tokenizer.js';
+
+/** A mistake found before running: a type mismatch, a bad call or an unknown field, method or type. */
+export class TypeCheckError extends Error {
+  public suggestions: readonly string[] = []; // Known names close to a misspelled one, for "did you mean" hints
+
+  constructor(public readonly detail: string, public readonly token: Token) {
+    super(`${detail} (${formatLocation(token)})`);
+    this.name = 'TypeCheckError';
+  }
+}
+
+export interface CheckOptions {
+  readonly hostEnvironment?: HostEnvironment; // Namespaces calls resolve against; the default set otherwise
+  readonly fileName?: string; // Recorded in token locations
+}
+
+/**
+ * Parse and type check a program, returning every syntax and type error in source order. Only
+ * tokenizer errors throw, since nothing can be parsed past them.
+ */
+export function checkSource(source: string, options: CheckOptions = {}): (ParseError | TypeCheckError)[] {
+  const diagnostics: ParseError[] = [];
+  const program = parseSource(source, { fileName: options.fileName, diagnostics });
+  return [...diagnostics, ...checkProgram(program, options)].sort(
+    (left, right) => left.token.line - right.token.line || left.token.column - right.token.column
+  );
+}
+
+/**
+ * Infer expression types from AS annotations, TYPE declarations and literals, and report what
+ * would go wrong at run time: arguments that match no overload, values assigned to a variable,
+ * field or RETURN of another type, and fields, methods or types that do not exist. Anything whose
+ * type cannot be known statically is let through.
+ */
+export function checkProgram(program: ProgramNode, options: CheckOptions = {}): TypeCheckError[] {
+  return new TypeChecker(options.hostEnvironment ?? createDefaultHostEnvironment()).check(program);
+}
+
+// Static types are written like annotations: NUMBER, STRING, BOOL, ARRAY<Point>, a TYPE name, or ANY when unknown
+type StaticType = string;
+const ANY: StaticType = 'ANY';
+
+interface Routine {
+  readonly name: string;
+  readonly parameters: readonly ParameterNode[];
+  readonly returnType: StaticType;
+}
+
+interface RecordType {
+  readonly fields: Map<string, StaticType>;
+}
+
+interface Variable {
+  type: StaticType;
+  readonly declared: boolean; // Typed by an AS clause, so other types are errors rather than a change of type
+}
+
+class Scope {
+  private readonly variables = new Map<string, Variable>();
+
+  constructor(public readonly parent?: Scope) {}
+
+  public lookup(name: string): Variable | undefined {
+    return this.variables.get(name) ?? this.parent?.lookup(name);
+  }
+
+  public define(name: string, type: StaticType, declared: boolean): void {
+    this.variables.set(name, { type, declared });
+  }
+}
+
+interface Argument {
+  readonly type: StaticType;
+  readonly node: ExpressionNode;
+}
+
+class TypeChecker {
+  private readonly errors: TypeCheckError[] = [];
+  private readonly types = new Map<string, RecordType>();
+  private readonly routines = new Map<string, Routine[]>();
+  private readonly properties = new Map<string, StaticType>(); // "Type.Name" -> PROPERTY type
+  private readonly constants = new Map<string, StaticType>();
+  private readonly modules = new Set<string>(); // IMPORT aliases, which hide host namespaces of that name
+  private readonly withTypes: StaticType[] = [];
+  private scope = new Scope();
+  private routine: { readonly name: string; readonly returnType?: TypeAnnotationNode } | undefined;
+
+  constructor(private readonly hostEnvironment: HostEnvironment) {
+    for (const [name, fields] of Object.entries(BUILT_IN_RECORD_TYPES)) {
+      this.types.set(name, { fields: new Map(fields) });
+    }
+  }
+
+  public check(program: ProgramNode): TypeCheckError[] {
+    const statements = program.lines.flatMap((line) => line.statements);
+    this.declare(statements);
+    this.statements(statements);
+    return this.errors.sort((left, right) => left.token.line - right.token.line || left.token.column - right.token.column);
+  }
+
+  // TYPEs, routines and PROPERTYs may be used before the line declaring them
+  private declare(statements: readonly StatementNode[]): void {
+    for (const statement of statements) {
+      switch (statement.type) {
+        case 'TypeDeclaration':
+          this.types.set(statement.name.name, {
+            fields: new Map(statement.fields.map((field) => [field.name.name, this.typeOf(field.annotation)]))
+          });
+          break;
+        case 'FunctionStatement':
+        case 'SubStatement':
+        case 'AIFuncDeclaration': {
+          const parameters = statement.type === 'AIFuncDeclaration'
+            ? [statement.selfParameter, ...statement.parameters]
+            : statement.parameters;
+          const returnType = statement.type === 'SubStatement' || !statement.returnType ? ANY : this.typeOf(statement.returnType);
+          const overloads = this.routines.get(statement.name.name) ?? [];
+          overloads.push({ name: statement.name.name, parameters, returnType });
+          this.routines.set(statement.name.name, overloads);
+          break;
+        }
+        case 'PropertyStatement':
+          this.properties.set(`${statement.typeName.name}.${statement.name.name}`, this.typeOf(statement.returnType));
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  // ---- Statements ----
+
+  private statements(statements: readonly StatementNode[]): void {
+    statements.forEach((statement) => this.statement(statement));
+  }
+
+  private statement(statement: StatementNode): void {
+    switch (statement.type) {
+      case 'PrintStatement':
+        statement.arguments.forEach((argument) => this.expression(argument.expression));
+        return;
+      case 'LetStatement': {
+        const value = this.expression(statement.value);
+        if (statement.target.type === 'Identifier' && statement.typeAnnotation) {
+          this.validateAnnotation(statement.typeAnnotation);
+          const declared = this.typeOf(statement.typeAnnotation);
+          this.expectAssignable(declared, value, statement.value, `'${statement.target.name}' declared AS ${declared}`);
+          this.scope.define(statement.target.name, declared, true);
+          return;
+        }
+        this.assign(statement.target, value, statement.value);
+        return;
+      }
+      case 'AssignmentStatement':
+        this.assign(statement.target, this.expression(statement.value), statement.value);
+        return;
+      case 'DimStatement':
+      case 'RedimStatement': {
+        statement.dimensions?.forEach(({ lower, upper }) => {
+          this.expression(lower);
+          this.expression(upper);
+        });
+        if (statement.type === 'DimStatement' && statement.buffer) {
+          this.expression(statement.buffer);
+        }
+        if (statement.typeAnnotation) {
+          this.validateAnnotation(statement.typeAnnotation);
+        }
+        let type = statement.typeAnnotation ? this.typeOf(statement.typeAnnotation) : ANY;
+        for (let rank = statement.dimensions?.length ?? 0; rank > 0; rank -= 1) {
+          type = type === ANY ? 'ARRAY' : `ARRAY<${type}>`;
+        }
+        this.scope.define(statement.name.name, type, Boolean(statement.typeAnnotation));
+        return;
+      }
+      case 'TypeDeclaration':
+        statement.fields.forEach((field) => this.validateAnnotation(field.annotation));
+        return;
+      case 'IfStatement':
+        this.expression(statement.condition);
+        this.statements(statement.thenBranch);
+        this.statements(statement.elseBranch ?? []);
+        return;
+      case 'ForStatement':
+        this.expression(statement.start);
+        this.expression(statement.end);
+        if (statement.step) {
+          this.expression(statement.step);
+        }
+        this.assignVariable(statement.iterator.name, 'NUMBER', statement.start);
+        return;
+      case 'WhileStatement':
+      case 'DoWhileStatement':
+        this.expression(statement.condition);
+        this.statements(statement.body);
+        return;
+      case 'ReturnStatement': {
+        if (!statement.value) {
+          return;
+        }
+        const value = this.expression(statement.value);
+        if (this.routine?.returnType) {
+          const declared = this.typeOf(this.routine.returnType);
+          this.expectAssignable(declared, value, statement.value, `the result of '${this.routine.name}' declared AS ${declared}`);
+        }
+        return;
+      }
+      case 'ExpressionStatement':
+        this.expression(statement.expression);
+        return;
+      case 'TryCatchStatement':
+        this.statements(statement.tryBlock);
+        for (const clause of statement.catchClauses) {
+          let type = ANY;
+          if (clause.errorType) {
+            type = clause.errorType.name === 'ERROR' ? 'Error' : clause.errorType.name;
+            if (!this.types.has(type)) {
+              this.report(`Unknown error type '${type}' in CATCH`, clause.errorType.token, this.types.keys());
+              type = ANY;
+            }
+          }
+          this.inScope(() => {
+            this.scope.define(clause.variable.name, type, false);
+            this.statements(clause.block);
+          });
+        }
+        this.statements(statement.finallyBlock ?? []);
+        return;
+      case 'ErrorStatement':
+        this.expression(statement.message);
+        return;
+      case 'FunctionStatement':
+      case 'SubStatement':
+        if (statement.type === 'FunctionStatement' && statement.returnType) {
+          this.validateAnnotation(statement.returnType);
+        }
+        this.routineBody(
+          statement.name.name,
+          statement.parameters,
+          statement.body,
+          statement.type === 'FunctionStatement' ? statement.returnType : undefined
+        );
+        return;
+      case 'PropertyStatement':
+        if (!this.types.has(statement.typeName.name)) {
+          this.report(`Unknown type '${statement.typeName.name}'`, statement.typeName.token, this.types.keys());
+        }
+        this.validateAnnotation(statement.returnType);
+        this.routineBody(statement.name.name, [statement.selfParam], statement.body, statement.returnType);
+        return;
+      case 'AIFuncDeclaration':
+        this.validateAnnotation(statement.returnType);
+        statement.parameters.forEach((parameter) => this.parameter(parameter));
+        if (statement.usingExpression) {
+          this.expression(statement.usingExpression);
+        }
+        return;
+      case 'WithStatement':
+        this.withTypes.push(this.expression(statement.object));
+        this.statements(statement.body);
+        this.withTypes.pop();
+        return;
+      case 'SelectCaseStatement':
+        this.expression(statement.expression);
+        for (const clause of statement.cases) {
+          clause.values.forEach((value) => this.expression(value));
+          this.statements(clause.statements);
+        }
+        this.statements(statement.elseCase ?? []);
+        return;
+      case 'SelectReceiveStatement':
+        for (const clause of statement.cases) {
+          if (clause.source) {
+            this.expression(clause.source);
+          }
+          this.assignVariable(clause.target.name, ANY, undefined);
+          this.statements(clause.statements);
+        }
+        if (statement.timeout) {
+          this.expression(statement.timeout.duration);
+          this.statements(statement.timeout.statements);
+        }
+        this.statements(statement.elseCase ?? []);
+        return;
+      case 'InputStatement':
+        if (statement.prompt) {
+          this.expression(statement.prompt);
+        }
+        this.assignVariable(statement.variable.name, ANY, undefined);
+        return;
+      case 'DeferStatement':
+        this.statement(statement.statement);
+        return;
+      case 'DeferBlockStatement':
+        this.statements(statement.block);
+        return;
+      case 'SendStatement':
+      case 'BroadcastStatement':
+        this.expression(statement.target);
+        this.expression(statement.message);
+        return;
+      case 'KillStatement':
+        this.expression(statement.target);
+        return;
+      case 'JoinStatement':
+        statement.targets.forEach((target) => this.expression(target));
+        return;
+      case 'ConstStatement':
+        this.constants.set(statement.name.name, this.expression(statement.value));
+        return;
+      case 'OnJumpStatement':
+        this.expression(statement.selector);
+        return;
+      case 'ReadStatement':
+        statement.targets.forEach((target) => this.assign(target, ANY, undefined));
+        return;
+      case 'ImportStatement':
+        if (statement.alias) {
+          this.modules.add(statement.alias.name);
+        }
+        return;
+      case 'NextStatement':
+      case 'StopStatement':
+      case 'ContStatement':
+      case 'EndStatement':
+      case 'RethrowStatement':
+      case 'ExitStatement':
+      case 'ContinueStatement':
+      case 'YieldStatement':
+      case 'GotoStatement':
+      case 'GosubStatement':
+      case 'OnErrorStatement':
+      case 'ResumeStatement':
+      case 'DataStatement':
+      case 'RestoreStatement':
+      case 'OptionBaseStatement':
+      case 'ModuleStatement':
+      case 'InvalidStatement':
+        return;
+      default: {
+        const exhaustiveCheck: never = statement;
+        throw exhaustiveCheck;
+      }
+    }
+  }
+
+  private routineBody(
+    name: string,
+    parameters: readonly ParameterNode[],
+    body: readonly StatementNode[],
+    returnType: TypeAnnotationNode | undefined
+  ): void {
+    const enclosing = this.routine;
+    this.routine = { name, returnType };
+    this.inScope(() => {
+      parameters.forEach((parameter) => this.parameter(parameter));
+      this.statements(body);
+    });
+    this.routine = enclosing;
+  }
+
+  private parameter(parameter: ParameterNode): void {
+    let type = ANY;
+    if (parameter.typeAnnotation) {
+      this.validateAnnotation(parameter.typeAnnotation);
+      type = this.typeOf(parameter.typeAnnotation);
+    }
+    if (parameter.defaultValue) {
+      const value = this.expression(parameter.defaultValue);
+      this.expectAssignable(type, value, parameter.defaultValue, `parameter '${parameter.name.name}' declared AS ${type}`);
+    }
+    this.scope.define(parameter.name.name, parameter.isVarArgs ? 'ARRAY' : type, Boolean(parameter.typeAnnotation));
+  }
+
+  private inScope(body: () => void): void {
+    const enclosing = this.scope;
+    this.scope = new Scope(enclosing);
+    try {
+      body();
+    } finally {
+      this.scope = enclosing;
+    }
+  }
+
+  private assign(target: AssignmentTargetNode, value: StaticType, valueNode: ExpressionNode | undefined): void {
+    switch (target.type) {
+      case 'Identifier':
+        this.assignVariable(target.name, value, valueNode);
+        return;
+      case 'MemberExpression':
+        this.assignField(this.expression(target.object), target.property.name, target.property.token, value, valueNode);
+        return;
+      case 'WithField':
+        this.assignField(this.withTypes[this.withTypes.length - 1] ?? ANY, target.field.name, target.field.token, value, valueNode);
+        return;
+      case 'IndexExpression':
+        this.expression(target);
+        return;
+    }
+  }
+
+  private assignVariable(name: string, value: StaticType, valueNode: ExpressionNode | undefined): void {
+    const variable = this.scope.lookup(name);
+    if (variable?.declared) {
+      if (valueNode) {
+        this.expectAssignable(variable.type, value, valueNode, `'${name}' declared AS ${variable.type}`);
+      }
+    } else if (variable) {
+      // Untyped variables take whatever they are given; once that varies nothing is known
+      variable.type = variable.type === value ? value : ANY;
+    } else {
+      this.scope.define(name, name.endsWith('$') ? 'STRING' : value, false);
+    }
+  }
+
+  private assignField(record: StaticType, field: string, token: Token, value: StaticType, valueNode: ExpressionNode | undefined): void {
+    const recordType = this.types.get(record);
+    if (!recordType) {
+      return;
+    }
+    const declared = recordType.fields.get(field);
+    if (declared === undefined) {
+      this.report(`Type '${record}' has no field '${field}'`, token, recordType.fields.keys());
+    } else if (valueNode) {
+      this.expectAssignable(declared, value, valueNode, `field '${record}.${field}' declared AS ${declared}`);
+    }
+  }
+
+  // ---- Expressions ----
+
+  private expression(expression: ExpressionNode): StaticType {
+    switch (expression.type) {
+      case 'NumberLiteral':
+        return 'NUMBER';
+      case 'StringLiteral':
+        return 'STRING';
+      case 'BooleanLiteral':
+        return 'BOOL';
+      case 'NullLiteral':
+        return ANY;
+      case 'Identifier':
+        return this.identifierType(expression.name);
+      case 'WithField':
+        return this.member(this.withTypes[this.withTypes.length - 1] ?? ANY, expression.field.name, expression.field.token);
+      case 'ArrayLiteral': {
+        const elements = expression.elements.map((element) => this.expression(element));
+        const [first] = elements;
+        return first && first !== ANY && elements.every((element) => element === first) ? `ARRAY<${first}>` : 'ARRAY';
+      }
+      case 'ObjectLiteral':
+        expression.fields.forEach((field) => this.expression(field.value));
+        return 'RECORD';
+      case 'RecordLiteral':
+        return this.recordLiteral(expression);
+      case 'UnaryExpression':
+        this.expression(expression.operand);
+        return expression.operator.lexeme === 'NOT' ? 'BOOL' : 'NUMBER';
+      case 'BinaryExpression': {
+        const left = this.expression(expression.left);
+        const right = this.expression(expression.right);
+        switch (expression.operator.lexeme.toUpperCase()) {
+          case '+':
+            if (left === 'STRING' || right === 'STRING') {
+              return 'STRING';
+            }
+            return isNumeric(left) && isNumeric(right) ? 'NUMBER' : ANY;
+          case '-':
+          case '*':
+          case '/':
+          case '^':
+          case 'MOD':
+            return 'NUMBER';
+          default:
+            return 'BOOL'; // Comparisons, AND and OR yield -1 or 0
+        }
+      }
+      case 'ConditionalExpression': {
+        this.expression(expression.condition);
+        const whenTrue = this.expression(expression.whenTrue);
+        const whenFalse = this.expression(expression.whenFalse);
+        if (whenTrue === whenFalse) {
+          return whenTrue;
+        }
+        return isNumeric(whenTrue) && isNumeric(whenFalse) ? 'NUMBER' : ANY;
+      }
+      case 'CallExpression':
+        return this.call(expression);
+      case 'MemberExpression':
+        return this.memberExpression(expression);
+      case 'IndexExpression': {
+        const object = this.expression(expression.object);
+        this.expression(expression.index);
+        return elementType(object);
+      }
+      case 'AwaitExpression':
+        this.expression(expression.expression);
+        return ANY;
+      case 'SpreadExpression':
+        this.expression(expression.target);
+        return ANY;
+      case 'NewExpression':
+        return this.newExpression(expression);
+      case 'RecvExpression':
+        [expression.source, expression.timeout].forEach((operand) => operand && this.expression(operand));
+        return ANY;
+      case 'SpawnExpression':
+        [expression.routine, expression.supervisor, expression.restartLimit].forEach((operand) => operand && this.expression(operand));
+        return ANY;
+      default: {
+        const exhaustiveCheck: never = expression;
+        throw exhaustiveCheck;
+      }
+    }
+  }
+
+  private identifierType(name: string): StaticType {
+    const variable = this.scope.lookup(name);
+    if (variable) {
+      return variable.type;
+    }
+    if (this.constants.has(name)) {
+      return this.constants.get(name)!;
+    }
+    if (name === 'ERR' || name === 'ERL') {
+      return 'NUMBER';
+    }
+    return name.endsWith('$') ? 'STRING' : ANY;
+  }
+
+  // A host namespace the name refers to, unless a variable or IMPORT alias hides it
+  private namespaceNamed(expression: ExpressionNode) {
+    if (expression.type !== 'Identifier' || this.scope.lookup(expression.name) || this.modules.has(expression.name)) {
+      return undefined;
+    }
+    const entry = this.hostEnvironment.get(expression.name);
+    return isHostNamespace(entry) ? entry : undefined;
+  }
+
+  private namespaceMember(expression: MemberExpressionNode) {
+    const namespace = this.namespaceNamed(expression.object);
+    if (!namespace) {
+      return undefined;
+    }
+    const member = namespace.getMember(expression.property.name);
+    if (member === undefined) {
+      this.report(`Unknown member '${expression.property.name}' on ${namespace.name}`, expression.property.token, namespace.listMembers());
+    }
+    return { member };
+  }
+
+  private memberExpression(expression: MemberExpressionNode): StaticType {
+    if (this.namespaceMember(expression)) {
+      return ANY;
+    }
+    return this.member(this.expression(expression.object), expression.property.name, expression.property.token);
+  }
+
+  // Field, PROPERTY or UFCS method `name` read from a value of the given type
+  private member(receiver: StaticType, name: string, token: Token): StaticType {
+    const recordType = this.types.get(receiver);
+    const field = recordType?.fields.get(name);
+    if (field !== undefined) {
+      return field;
+    }
+    const property = this.properties.get(`${receiver}.${name}`);
+    if (property !== undefined) {
+      return property;
+    }
+    if (!this.routines.has(name) && !this.findHostFunction(name)) {
+      this.reportUnknownMethod(receiver, name, token);
+    }
+    return ANY;
+  }
+
+  private call(expression: CallExpressionNode): StaticType {
+    const { callee } = expression;
+    const args = expression.args.map((arg): Argument => ({ type: this.expression(arg), node: arg }));
+
+    if (callee.type === 'Identifier') {
+      const variable = this.scope.lookup(callee.name);
+      if (variable) {
+        // grid(x, y) on an array the parser did not see DIMmed
+        return args.reduce((type) => elementType(type), variable.type);
+      }
+      const overloads = this.routines.get(callee.name);
+      if (overloads) {
+        return this.callRoutine(overloads, args, callee.token);
+      }
+      const host = this.hostEnvironment.get(callee.name);
+      if (isHostFunction(host)) {
+        this.checkHostArity(host, args, callee.token);
+      }
+      return ANY;
+    }
+
+    if (callee.type === 'MemberExpression') {
+      const namespaced = this.namespaceMember(callee);
+      if (namespaced) {
+        if (isHostFunction(namespaced.member)) {
+          this.checkHostArity(namespaced.member, args, callee.property.token);
+        }
+        return ANY;
+      }
+
+      const receiver: Argument = { type: this.expression(callee.object), node: callee.object };
+      const { name, token } = callee.property;
+      if (this.types.get(receiver.type)?.fields.has(name) || this.properties.has(`${receiver.type}.${name}`)) {
+        return ANY; // Calling what a field or PROPERTY holds
+      }
+      const overloads = this.routines.get(name);
+      if (overloads) {
+        return this.callRoutine(overloads, [receiver, ...args], token, 1);
+      }
+      const host = this.findHostFunction(name);
+      if (host) {
+        this.checkHostArity(host, [receiver, ...args], token);
+      } else {
+        this.reportUnknownMethod(receiver.type, name, token);
+      }
+      return ANY;
+    }
+
+    this.expression(callee);
+    return ANY;
+  }
+
+  // The first overload the arguments fit decides the result type; `offset` arguments are a UFCS receiver
+  private callRoutine(overloads: readonly Routine[], args: readonly Argument[], token: Token, offset = 0): StaticType {
+    if (args.some((arg) => arg.node.type === 'SpreadExpression')) {
+      return overloads.every((overload) => overload.returnType === overloads[0]!.returnType) ? overloads[0]!.returnType : ANY;
+    }
+    const problems = overloads.map((overload) => this.signatureProblem(overload, args, token, offset));
+    const match = problems.findIndex((problem) => problem === undefined);
+    if (match !== -1) {
+      return overloads[match]!.returnType;
+    }
+
+    if (overloads.length === 1) {
+      const [problem] = problems;
+      this.report(problem!.message, problem!.token);
+    } else {
+      const received = args.map((arg) => arg.type).join(', ');
+      const candidates = overloads.map((overload) => formatRoutine(overload)).join(', ');
+      this.report(`No overload of '${overloads[0]!.name}' accepts (${received}); candidates: ${candidates}`, token);
+    }
+    return ANY;
+  }
+
+  private signatureProblem(
+    routine: Routine,
+    args: readonly Argument[],
+    token: Token,
+    offset: number
+  ): { message: string; token: Token } | undefined {
+    const { parameters } = routine;
+    const varArgs = parameters.some((parameter) => parameter.isVarArgs);
+    const required = parameters.filter((parameter) => !parameter.defaultValue && !parameter.isVarArgs).length;
+    const maximum = varArgs ? Number.POSITIVE_INFINITY : parameters.length;
+    if (args.length < required || args.length > maximum) {
+      const expected = required === maximum
+        ? `${required - offset}`
+        : args.length < required ? `at least ${required - offset}` : `at most ${maximum - offset}`;
+      return { message: `'${routine.name}' expects ${expected} argument(s), got ${args.length - offset}`, token };
+    }
+
+    for (let index = 0; index < args.length; index += 1) {
+      const parameter = parameters[index]!;
+      if (parameter.isVarArgs) {
+        break;
+      }
+      const arg = args[index]!;
+      if (parameter.isRef && arg.node.type !== 'Identifier' && arg.node.type !== 'MemberExpression') {
+        return { message: `REF parameter '${parameter.name.name}' of '${routine.name}' needs a variable or field`, token: nodeToken(arg.node) };
+      }
+      const expected = parameter.typeAnnotation ? this.typeOf(parameter.typeAnnotation) : ANY;
+      if (!this.isAssignable(expected, arg.type)) {
+        const which = index < offset ? 'Receiver' : `Argument ${index + 1 - offset}`;
+        return {
+          message: `${which} of '${routine.name}' must be ${expected}, got ${arg.type}`,
+          token: nodeToken(arg.node)
+        };
+      }
+    }
+    return undefined;
+  }
+
+  private checkHostArity(host: HostFunctionValue, args: readonly Argument[], token: Token): void {
+    if (typeof host.arity === 'number' && args.length !== host.arity && !args.some((arg) => arg.node.type === 'SpreadExpression')) {
+      this.report(`Function ${host.name} expects ${host.arity} argument(s), got ${args.length}`, token);
+    }
+  }
+
+  // UFCS falls back to a function of that name in any host namespace
+  private findHostFunction(name: string): HostFunctionValue | undefined {
+    for (const namespace of this.hostEnvironment.getAllNamespaces()) {
+      const member = namespace.getMember(name);
+      if (isHostFunction(member)) {
+        return member;
+      }
+    }
+    return undefined;
+  }
+
+  // Only values whose type is fully known can be said to lack a member
+  private reportUnknownMethod(receiver: StaticType, name: string, token: Token): void {
+    const recordType = this.types.get(receiver);
+    const base = baseType(receiver);
+    if (!recordType && !['STRING', 'NUMBER', 'BOOL', 'ARRAY'].includes(base)) {
+      return;
+    }
+    const properties = Array.from(this.properties.keys())
+      .filter((key) => key.startsWith(`${receiver}.`))
+      .map((key) => key.slice(receiver.length + 1));
+    const candidates = [...(recordType?.fields.keys() ?? []), ...properties, ...this.routines.keys()];
+    this.report(`No field or method '${name}' on type ${receiver}`, token, candidates);
+  }
+
+  private recordLiteral(expression: RecordLiteralNode): StaticType {
+    const typeName = expression.typeName.name;
+    const recordType = this.types.get(typeName);
+    const values = expression.fields.map((field) => this.expression(field.value));
+    if (!recordType) {
+      this.report(`Unknown type '${typeName}'`, expression.typeName.token, this.types.keys());
+      return ANY;
+    }
+
+    const provided = new Set<string>();
+    expression.fields.forEach((field, index) => {
+      const name = field.name.name;
+      const declared = recordType.fields.get(name);
+      if (declared === undefined) {
+        this.report(`Type '${typeName}' has no field '${name}'`, field.name.token, recordType.fields.keys());
+      } else if (provided.has(name)) {
+        this.report(`Field '${name}' provided more than once`, field.name.token);
+      } else {
+        this.expectAssignable(declared, values[index]!, field.value, `field '${typeName}.${name}' declared AS ${declared}`);
+      }
+      provided.add(name);
+    });
+    for (const name of recordType.fields.keys()) {
+      if (!provided.has(name)) {
+        this.report(`Missing value for field '${name}' in type '${typeName}'`, expression.token);
+      }
+    }
+    return typeName;
+  }
+
+  private newExpression(expression: NewExpressionNode): StaticType {
+    const typeName = expression.typeName.name;
+    const args = expression.args.map((arg): Argument => ({ type: this.expression(arg), node: arg }));
+    const recordType = this.types.get(typeName);
+    const host = this.hostEnvironment.get(typeName);
+    if (isHostNamespace(host) && host.getMember('NEW')) {
+      return recordType ? typeName : ANY;
+    }
+
+    if (recordType) {
+      const fields = Array.from(recordType.fields);
+      if (args.length > fields.length) {
+        this.report(
+          `Type '${typeName}' constructor expected at most ${fields.length} argument(s), got ${args.length}`,
+          expression.token
+        );
+      }
+      args.slice(0, fields.length).forEach((arg, index) => {
+        const [field, declared] = fields[index]!;
+        this.expectAssignable(declared, arg.type, arg.node, `field '${typeName}.${field}' declared AS ${declared}`);
+      });
+      return typeName;
+    }
+
+    const overloads = this.routines.get(typeName);
+    if (overloads) {
+      return this.callRoutine(overloads, args, expression.typeName.token);
+    }
+    this.report(`Unknown type or constructor '${typeName}'`, expression.typeName.token, this.types.keys());
+    return ANY;
+  }
+
+  // ---- Types ----
+
+  private typeOf(annotation: TypeAnnotationNode): StaticType {
+    const upper = annotation.name.toUpperCase();
+    const name = BUILT_IN_TYPE_NAMES.has(upper) || upper === 'CHANNEL'
+      ? (upper === 'BOOLEAN' ? 'BOOL' : upper)
+      : annotation.name;
+    return annotation.typeArguments?.length
+      ? `${name}<${annotation.typeArguments.map((argument) => this.typeOf(argument)).join(', ')}>`
+      : name;
+  }
+
+  private validateAnnotation(annotation: TypeAnnotationNode): void {
+    const upper = annotation.name.toUpperCase();
+    if (!BUILT_IN_TYPE_NAMES.has(upper) && upper !== 'CHANNEL' && !this.types.has(annotation.name)) {
+      this.report(`Unknown type '${annotation.name}'`, annotation.token, [...this.types.keys(), ...BUILT_IN_TYPE_NAMES]);
+    }
+    annotation.typeArguments?.forEach((argument) => this.validateAnnotation(argument));
+  }
+
+  private isAssignable(expected: StaticType, actual: StaticType): boolean {
+    const target = baseType(expected);
+    const source = baseType(actual);
+    if (target === ANY || source === ANY || target === source) {
+      return true;
+    }
+    if (isNumeric(target) && isNumeric(source)) {
+      return true;
+    }
+    // RECORD accepts any record, and an untyped record may be any TYPE
+    if (target === 'RECORD') {
+      return this.types.has(source);
+    }
+    return source === 'RECORD' && this.types.has(target);
+  }
+
+  private expectAssignable(expected: StaticType, actual: StaticType, node: ExpressionNode, description: string): void {
+    if (!this.isAssignable(expected, actual)) {
+      this.report(`Cannot assign ${actual} to ${description}`, nodeToken(node));
+    }
+  }
+
+  private report(message: string, token: Token, candidates?: Iterable<string>): void {
+    const error = new TypeCheckError(message, token);
+    if (candidates) {
+      error.suggestions = suggestNames(token.lexeme, candidates);
+    }
+    this.errors.push(error);
+  }
+}
+
+function baseType(type: StaticType): string {
+  const bracket = type.indexOf('<');
+  return bracket === -1 ? type : type.slice(0, bracket);
+}
+
+// What indexing a value of this type yields
+function elementType(type: StaticType): StaticType {
+  return baseType(type) === 'ARRAY' && type.endsWith('>') ? type.slice('ARRAY<'.length, -1) : ANY;
+}
+
+// BOOL values are the -1 and 0 that conditions produce, so they mix freely with numbers
+function isNumeric(type: StaticType): boolean {
+  return type === 'NUMBER' || type === 'BOOL';
+}
+
+function formatRoutine(routine: Routine): string {
+  const parameters = routine.parameters.map((parameter) =>
+    parameter.isVarArgs ? '...' : parameter.typeAnnotation?.name ?? ANY
+  );
+  return `${routine.name}(${parameters.join(', ')})`;
+}
+
+// Where to point at an expression, mirroring Parser.getExpressionToken
+function nodeToken(expression: ExpressionNode): Token {
+  switch (expression.type) {
+    case 'UnaryExpression':
+      return expression.operator;
+    case 'BinaryExpression':
+      return nodeToken(expression.left);
+    case 'CallExpression':
+      return nodeToken(expression.callee);
+    case 'MemberExpression':
+    case 'IndexExpression':
+      return nodeToken(expression.object);
+    case 'AwaitExpression':
+      return expression.keyword;
+    case 'ConditionalExpression':
+      return expression.questionToken;
+    default:
+      return expression.token;
+  }
+}
@@ -0,0 +1,261 @@
+import type { StatementNode } from './ast.js';
+import { truthy, type DebugHook, type DebugLocation } from './evaluator.js';
+import type { RuntimeValue } from './runtime-values.js';
+import type { Token } from './tokenizer.js';
+
+export type StopReason = 'entry' | 'breakpoint' | 'step' | 'pause';
+
+export interface Breakpoint {
+  readonly line: number;
+  readonly condition?: string; // Stops only where this expression is truthy; one that fails to evaluate stops too
+}
+
+export interface DebuggerOptions {
+  readonly stopOnEntry?: boolean;
+  readonly onStop?: (reason: StopReason, location: DebugLocation) => void;
+}
+
+/** One routine on the paused program's call stack, and the line it is at. */
+export interface StackEntry {
+  readonly name: string; // `<main>` for the program itself
+  readonly line: number;
+  readonly column: number;
+  readonly file?: string;
+}
+
+export interface WatchResult {
+  readonly expression: string;
+  readonly value?: RuntimeValue;
+  readonly error?: string; // Set instead of value when the expression fails
+}
+
+type StepMode =
+  | { readonly kind: 'run' }
+  | { readonly kind: 'into' }
+  | { readonly kind: 'over'; readonly depth: number }
+  | { readonly kind: 'out'; readonly depth: number };
+
+// Statements run on one line since the program got there; running one again means a loop came back to it
+interface LineVisit {
+  readonly line: string;
+  readonly statements: Set<StatementNode>;
+}
+
+interface Stop {
+  readonly location: DebugLocation;
+  readonly released: Promise<void>;
+  readonly release: () => void;
+}
+
+/**
+ * Line breakpoints, stepping and inspection for a run, plugged in as its `debugHook`. The program
+ * waits before a statement whenever the debugger stops it, until one of the step or continue
+ * methods lets it go; steps count depth in user FUNCTION and SUB calls.
+ */
+export class Debugger implements DebugHook {
+  private readonly breakpoints = new Map<string, readonly Breakpoint[]>(); // Token file ('' for the main program) -> breakpoints
+  private readonly watchExpressions: string[] = [];
+  private mode: StepMode;
+  private entryPending: boolean;
+  private pauseRequested = false;
+  private visitsByDepth: LineVisit[] = []; // Line last run at each call depth, so a breakpoint fires once per visit
+  private evaluating = 0; // Routines called by conditions and watches run without stopping
+  private stop: Stop | undefined;
+
+  constructor(private readonly options: DebuggerOptions = {}) {
+    this.entryPending = options.stopOnEntry ?? false;
+    this.mode = { kind: 'run' };
+  }
+
+  // Replaces the breakpoints of one file; leave `file` out for the main program
+  public setBreakpoints(file: string | undefined, breakpoints: readonly Breakpoint[]): void {
+    this.breakpoints.set(file ?? '', breakpoints.slice());
+  }
+
+  public addWatch(expression: string): void {
+    if (!this.watchExpressions.includes(expression)) {
+      this.watchExpressions.push(expression);
+    }
+  }
+
+  public removeWatch(expression: string): void {
+    const index = this.watchExpressions.indexOf(expression);
+    if (index !== -1) {
+      this.watchExpressions.splice(index, 1);
+    }
+  }
+
+  public get watches(): readonly string[] {
+    return this.watchExpressions;
+  }
+
+  // Where the program is stopped, or undefined while it runs
+  public get location(): DebugLocation | undefined {
+    return this.stop?.location;
+  }
+
+  public continue(): void {
+    this.release({ kind: 'run' });
+  }
+
+  public stepInto(): void {
+    this.release({ kind: 'into' });
+  }
+
+  // Runs to the next statement at this call depth or shallower, so calls made here run through
+  public stepOver(): void {
+    this.release({ kind: 'over', depth: this.stop?.location.callStack.length ?? 0 });
+  }
+
+  // Runs until the current routine has returned to its caller
+  public stepOut(): void {
+    this.release({ kind: 'out', depth: this.stop?.location.callStack.length ?? 0 });
+  }
+
+  // Stops before the next statement the running program reaches
+  public pause(): void {
+    if (!this.stop) {
+      this.pauseRequested = true;
+    }
+  }
+
+  /** The paused program's routines, innermost first, ending with the main program. */
+  public stackTrace(): StackEntry[] {
+    const { statement, callStack } = this.requireStop().location;
+    const entries: StackEntry[] = [];
+    let location: Token = statement.token;
+    for (let index = callStack.length - 1; index >= 0; index -= 1) {
+      const frame = callStack[index]!;
+      entries.push(stackEntry(frame.module ? `${frame.module}.${frame.name}` : frame.name, location));
+      location = frame.callSite;
+    }
+    entries.push(stackEntry('<main>', location));
+    return entries;
+  }
+
+  // Evaluates an expression in the paused program's scope, WITH objects included
+  public async evaluate(expression: string): Promise<RuntimeValue> {
+    return this.evaluateAt(this.requireStop().location, expression);
+  }
+
+  public async evaluateWatches(): Promise<WatchResult[]> {
+    const { location } = this.requireStop();
+    const results: WatchResult[] = [];
+    for (const expression of this.watchExpressions) {
+      try {
+        results.push({ expression, value: await this.evaluateAt(location, expression) });
+      } catch (error) {
+        results.push({ expression, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return results;
+  }
+
+  public async beforeStatement(location: DebugLocation): Promise<void> {
+    if (this.evaluating > 0) {
+      return;
+    }
+    // Task fibers reaching a statement while another is stopped wait with it
+    while (this.stop) {
+      await this.stop.released;
+    }
+
+    const { statement } = location;
+    const depth = location.callStack.length;
+    const line = `${statement.token.file ?? ''}:${statement.token.line}`;
+    const visit = this.visitsByDepth[depth];
+    const arrived = !visit || visit.line !== line || visit.statements.has(statement);
+    this.visitsByDepth = this.visitsByDepth.slice(0, depth);
+    if (arrived) {
+      this.visitsByDepth[depth] = { line, statements: new Set([statement]) };
+    } else {
+      visit.statements.add(statement);
+      this.visitsByDepth[depth] = visit;
+    }
+
+    const reason = await this.stopReason(location, depth, arrived);
+    if (reason) {
+      await this.suspend(reason, location);
+    }
+  }
+
+  private async stopReason(location: DebugLocation, depth: number, arrived: boolean): Promise<StopReason | undefined> {
+    if (this.entryPending) {
+      this.entryPending = false;
+      return 'entry';
+    }
+    if (this.pauseRequested) {
+      this.pauseRequested = false;
+      return 'pause';
+    }
+    const { mode } = this;
+    if (
+      mode.kind === 'into'
+      || (mode.kind === 'over' && depth <= mode.depth)
+      || (mode.kind === 'out' && depth < mode.depth)
+    ) {
+      return 'step';
+    }
+    if (arrived && await this.hitsBreakpoint(location)) {
+      return 'breakpoint';
+    }
+    return undefined;
+  }
+
+  private async hitsBreakpoint(location: DebugLocation): Promise<boolean> {
+    const { token } = location.statement;
+    const breakpoint = this.breakpoints.get(token.file ?? '')?.find((candidate) => candidate.line === token.line);
+    if (!breakpoint) {
+      return false;
+    }
+    if (!breakpoint.condition) {
+      return true;
+    }
+    try {
+      return truthy(await this.evaluateAt(location, breakpoint.condition));
+    } catch {
+      return true;
+    }
+  }
+
+  private async suspend(reason: StopReason, location: DebugLocation): Promise<void> {
+    this.mode = { kind: 'run' };
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    this.stop = { location, released, release };
+    this.options.onStop?.(reason, location);
+    await released;
+  }
+
+  private release(mode: StepMode): void {
+    const { stop } = this;
+    if (!stop) {
+      return;
+    }
+    this.stop = undefined;
+    this.mode = mode;
+    stop.release();
+  }
+
+  private async evaluateAt(location: DebugLocation, expression: string): Promise<RuntimeValue> {
+    this.evaluating += 1;
+    try {
+      return await location.evaluate(expression);
+    } finally {
+      this.evaluating -= 1;
+    }
+  }
+
+  private requireStop(): Stop {
+    if (!this.stop) {
+      throw new Error('The program is not stopped');
+    }
+    return this.stop;
+  }
+}
+
+function stackEntry(name: string, token: Token): StackEntry {
+  return { name, line: token.line, column: token.column, file: token.file };
+}
@@ -0,0 +1,126 @@
+import { ParseError } from './parser.js';
+import { TokenizeError, formatLocation, type SourceLocation } from './tokenizer.js';
+import { RuntimeError } from './evaluator.js';
+import { TypeCheckError } from './checker.js';
+
+export interface DiagnosticOptions {
+  readonly fileName?: string; // File the source came from; errors located in other files get no snippet
+  readonly color?: boolean; // ANSI colors for terminal output
+}
+
+const ANSI = {
+  error: '\x1b[1;31m',
+  caret: '\x1b[31m',
+  gutter: '\x1b[34m',
+  hint: '\x1b[36m',
+  reset: '\x1b[0m'
+} as const;
+
+/**
+ * Render an interpreter error against its source: the message, the offending line with a caret
+ * underline, any "did you mean" suggestions and, for runtime errors, the BASIC call stack.
+ */
+export function formatDiagnostic(error: unknown, source: string, options: DiagnosticOptions = {}): string {
+  const paint = (style: keyof typeof ANSI, text: string): string =>
+    options.color ? `${ANSI[style]}${text}${ANSI.reset}` : text;
+
+  const diagnostic = describeError(error);
+  const lines = [`${paint('error', 'error:')} ${diagnostic.message}`];
+  if (!diagnostic.location) {
+    return lines.join('\n');
+  }
+
+  const { location, width } = diagnostic;
+  const sourceLine = location.file === options.fileName ? source.split(/\r?\n/)[location.line - 1] : undefined;
+  const gutter = ' '.repeat(String(location.line).length);
+  lines.push(`${gutter}${paint('gutter', '-->')} ${formatLocation(location)}`);
+
+  if (sourceLine !== undefined) {
+    // Keep tabs in the padding so the caret lines up however the terminal expands them
+    const padding = sourceLine.slice(0, location.column - 1).replace(/[^\t]/g, ' ');
+    const underline = '^'.repeat(Math.max(1, Math.min(width, sourceLine.length - location.column + 1)));
+    lines.push(`${gutter} ${paint('gutter', '|')}`);
+    lines.push(`${paint('gutter', `${location.line} |`)} ${sourceLine}`);
+    lines.push(`${gutter} ${paint('gutter', '|')} ${padding}${paint('caret', underline)}`);
+  }
+
+  if (diagnostic.suggestions.length > 0) {
+    lines.push(`${gutter} ${paint('hint', `= did you mean: ${diagnostic.suggestions.join(', ')}?`)}`);
+  }
+  for (const entry of diagnostic.stackTrace) {
+    lines.push(`  ${entry}`);
+  }
+  return lines.join('\n');
+}
+
+/** Up to `limit` candidates within two edits of `name`, closest first; case is ignored. */
+export function suggestNames(name: string, candidates: Iterable<string>, limit = 3): string[] {
+  const target = name.toLowerCase();
+  const scored = new Map<string, number>();
+  for (const candidate of candidates) {
+    const distance = levenshteinDistance(target, candidate.toLowerCase());
+    if (distance > 0 && distance <= 2 && !scored.has(candidate)) {
+      scored.set(candidate, distance);
+    }
+  }
+  return Array.from(scored.entries())
+    .sort((left, right) => left[1] - right[1])
+    .slice(0, limit)
+    .map(([candidate]) => candidate);
+}
+
+export function levenshteinDistance(a: string, b: string): number {
+  const matrix: number[][] = Array.from({ length: b.length + 1 }, () => new Array<number>(a.length + 1).fill(0));
+
+  for (let i = 0; i <= a.length; i++) matrix[0]![i] = i;
+  for (let j = 0; j <= b.length; j++) matrix[j]![0] = j;
+
+  for (let j = 1; j <= b.length; j++) {
+    for (let i = 1; i <= a.length; i++) {
+      const indicator = a[i - 1] === b[j - 1] ? 0 : 1;
+      matrix[j]![i] = Math.min(
+        matrix[j]![i - 1]! + 1,     // deletion
+        matrix[j - 1]![i]! + 1,     // insertion
+        matrix[j - 1]![i - 1]! + indicator  // substitution
+      );
+    }
+  }
+
+  return matrix[b.length]![a.length]!;
+}
+
+interface ErrorDescription {
+  readonly message: string;
+  readonly location?: SourceLocation;
+  readonly width: number; // Columns the caret underline covers
+  readonly suggestions: readonly string[];
+  readonly stackTrace: readonly string[];
+}
+
+function describeError(error: unknown): ErrorDescription {
+  if (error instanceof TypeCheckError) {
+    return { message: error.detail, location: error.token, width: error.token.lexeme.length, suggestions: error.suggestions, stackTrace: [] };
+  }
+  if (error instanceof RuntimeError) {
+    return {
+      message: error.detail,
+      location: error.token,
+      width: error.token.lexeme.length,
+      suggestions: error.suggestions,
+      // A bare `at <main>` entry only repeats the location above
+      stackTrace: error.callStack?.length ? error.stackTrace : []
+    };
+  }
+  if (error instanceof ParseError) {
+    return { message: error.detail, location: error.token, width: error.token.lexeme.length, suggestions: [], stackTrace: [] };
+  }
+  if (error instanceof TokenizeError) {
+    return { message: error.detail, location: error, width: 1, suggestions: [], stackTrace: [] };
+  }
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    width: 0,
+    suggestions: [],
+    stackTrace: []
+  };
+}
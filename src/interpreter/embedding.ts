@@ -0,0 +1,38 @@
+import {
+  executeSource,
+  InterpreterSession,
+  type ExecutionOptions,
+  type ExecutionResult
+} from './evaluator.js';
+import { createDefaultHostEnvironment } from './host-defaults.js';
+import type { HostEntry, HostEnvironment } from './host.js';
+
+/** Defaults for every run and session; `hostEnvironment` defaults to the standard namespaces (MATH, STR, HTTP, ...). */
+export type InterpreterOptions = ExecutionOptions;
+
+/** Per-run settings; anything left out falls back to the interpreter's own options. */
+export type RunOptions = Omit<ExecutionOptions, 'hostEnvironment'>;
+
+/**
+ * BASIC9000 embedded in a host program. Every run and session shares the same host environment,
+ * so namespaces registered here are visible to all of them.
+ */
+export interface Interpreter {
+  readonly hostEnvironment: HostEnvironment;
+  // Makes a namespace, function or value callable from BASIC under the given name
+  register(name: string, entry: HostEntry): void;
+  // Runs a program from scratch; nothing carries over from earlier runs
+  run(source: string, options?: RunOptions): Promise<ExecutionResult>;
+  // A session whose variables, FUNCTIONs and TYPEs persist between runs, as in the REPL
+  createSession(options?: RunOptions): InterpreterSession;
+}
+
+export function createInterpreter(options: InterpreterOptions = {}): Interpreter {
+  const { hostEnvironment = createDefaultHostEnvironment(), ...defaults } = options;
+  return {
+    hostEnvironment,
+    register: (name, entry) => hostEnvironment.register(name, entry),
+    run: (source, runOptions = {}) => executeSource(source, { ...defaults, ...runOptions, hostEnvironment }),
+    createSession: (sessionOptions = {}) => new InterpreterSession({ ...defaults, ...sessionOptions, hostEnvironment })
+  };
+}
@@ -1,3 +1,6 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
 import type {
   ArrayLiteralNode,
   ObjectLiteralNode,
@@ -15,6 +18,15 @@ import type {
   IfStatementNode,
   InputStatementNode,
   LetStatementNode,
+  DimStatementNode,
+  RedimStatementNode,
+  OnJumpStatementNode,
+  OnErrorStatementNode,
+  ResumeStatementNode,
+  ReadStatementNode,
+  RestoreStatementNode,
+  LineTargetNode,
+  ArrayBoundsNode,
   LineNode,
   MemberExpressionNode,
   NextStatementNode,
@@ -26,6 +38,8 @@ import type {
   StatementNode,
   SubStatementNode,
   TryCatchStatementNode,
+  CatchClauseNode,
+  RethrowStatementNode,
   ErrorStatementNode,
   TypeAnnotationNode,
   TypeDeclarationNode,
@@ -33,6 +47,7 @@ import type {
   WithStatementNode,
   WithFieldNode,
   SelectCaseStatementNode,
+  SelectReceiveStatementNode,
   PropertyStatementNode,
   ConditionalExpressionNode,
   NewExpressionNode,
@@ -41,7 +56,12 @@ import type {
   ContinueStatementNode,
   ParameterNode,
   SendStatementNode,
+  BroadcastStatementNode,
+  KillStatementNode,
+  JoinStatementNode,
+  ImportStatementNode,
   RecvExpressionNode,
+  AwaitExpressionNode,
   AIFuncDeclarationNode,
   PromptTemplateNode,
   AIFuncExpectNode,
@@ -50,32 +70,212 @@ import type {
 import {
   HostEnvironment,
   type HostFunctionContext,
+  type HostFunctionValue,
+  type HostNamespaceValue,
+  HostError,
+  createFunction,
+  createNamespace,
   isHostFunction,
   isHostNamespace
 } from './host.js';
 import { createDefaultHostEnvironment } from './host-defaults.js';
-import { RuntimeRecordValue, RefValue, TaskValue, isRecordValue, isTaskValue, type RuntimeValue, type UserFunctionValue, type BoundFunctionValue } from './runtime-values.js';
-import { parseSource, type ParserOptions } from './parser.js';
-import { TokenType, type Token } from './tokenizer.js';
+import { RuntimeRecordValue, RefValue, TaskValue, ChannelValue, isRecordValue, isTaskValue, isChannelValue, type RuntimeValue, type TaskObserver, type UserFunctionValue, type BoundFunctionValue } from './runtime-values.js';
+import { parseExpression, parseSource, type ParserOptions } from './parser.js';
+import { TokenType, formatLocation, type Token } from './tokenizer.js';
+import { suggestNames } from './diagnostics.js';
+import type { Profiler } from './profiler.js';
 
 export interface ExecutionOptions {
+  readonly sourcePath?: string; // File being run; IMPORT paths resolve against its directory
   readonly maxSteps?: number;
   readonly maxCallDepth?: number;
   readonly hostEnvironment?: HostEnvironment;
   readonly inputHandler?: () => Promise<string>;
+  readonly onOutput?: (line: string) => void; // Gets each line as PRINT completes it; `outputs` then stays empty
+  readonly onFlush?: (pending: string) => void; // Gets the unfinished line each time a PRINT ending in ; or , extends it
+  readonly signal?: AbortSignal; // Aborting stops the run, at the next statement or during a wait, with an ExecutionAbortedError
+  readonly debugHook?: DebugHook;
+  readonly profiler?: Profiler; // Records line, FUNCTION and host function timings for this run
+}
+
+/** A statement about to run, with what a debugger needs to look around it. */
+export interface DebugLocation {
+  readonly statement: StatementNode;
+  readonly callStack: readonly CallFrame[]; // Routines active here, outermost first
+  readonly withStack: readonly RuntimeValue[]; // WITH objects in scope, innermost last
+  // Variables visible here; routine parameters shadow the globals they share a name with
+  variables(): Record<string, RuntimeValue>;
+  evaluate(expression: string): Promise<RuntimeValue>;
 }
 
+/** Called before every statement, including those in blocks and routine bodies; the program waits on it. */
+export interface DebugHook {
+  beforeStatement(location: DebugLocation): void | Promise<void>;
+}
+
+// END and STOP statements, or InterpreterSession.interrupt()
+export type HaltReason = 'END' | 'STOP' | 'BREAK';
+
 export interface ExecutionResult {
   readonly outputs: readonly string[];
   readonly variables: Readonly<Record<string, RuntimeValue>>;
-  readonly halted?: 'END' | 'STOP';
+  readonly halted?: HaltReason;
+}
+
+// Classic error numbers reported by ERR; anything unclassified is an illegal function call
+export const ErrorCode = {
+  ReturnWithoutGosub: 3,
+  OutOfData: 4,
+  IllegalFunctionCall: 5,
+  UndefinedLine: 8,
+  SubscriptOutOfRange: 9,
+  TypeMismatch: 13,
+  CantContinue: 17,
+  ResumeWithoutError: 20
+} as const;
+
+const ERROR_RECORD_FIELDS: readonly (readonly [string, string])[] = [
+  ['Message', 'STRING'],
+  ['Code', 'NUMBER'],
+  ['Line', 'NUMBER'],
+  ['Column', 'NUMBER'],
+  ['Source', 'STRING'],
+  ['Stack', 'STRING']
+];
+
+/** Record TYPEs every program starts with, as field name and type name pairs in declaration order. */
+export const BUILT_IN_RECORD_TYPES: Readonly<Record<string, readonly (readonly [string, string])[]>> = {
+  AIAssistant: [
+    ['Provider', 'STRING'],
+    ['Model', 'STRING'],
+    ['Temperature', 'NUMBER'],
+    ['MaxTokens', 'NUMBER'],
+    ['SystemPrompt', 'STRING'],
+    ['CachePolicy', 'STRING'],
+    ['RetryCount', 'NUMBER'],
+    ['Timeout', 'NUMBER'],
+    ['CostBudget', 'NUMBER']
+  ],
+  // Records handed to CATCH; user error TYPEs may declare any subset of these fields
+  Error: ERROR_RECORD_FIELDS,
+  HttpError: [...ERROR_RECORD_FIELDS, ['Status', 'NUMBER']]
+};
+
+/** An active FUNCTION or SUB call: the routine, where it was called from and the module defining it. */
+export interface CallFrame {
+  readonly name: string;
+  readonly callSite: Token;
+  readonly module?: string;
 }
 
 export class RuntimeError extends Error {
-  constructor(message: string, public readonly token: Token) {
-    super(`${message} (line ${token.line}, column ${token.column})`);
+  public callStack: readonly CallFrame[] | undefined; // Frames active where the error was raised, outermost first
+  public suggestions: readonly string[] = []; // Known names close to a misspelled one, for "did you mean" hints
+
+  constructor(
+    public readonly detail: string,
+    public readonly token: Token,
+    public readonly code: number = ErrorCode.IllegalFunctionCall,
+    // Typed error record raised via `ERROR record` or a HostError; CATCH hands it to the script
+    public readonly value?: RuntimeRecordValue
+  ) {
+    super(`${detail} (${formatLocation(token)})`);
     this.name = 'RuntimeError';
   }
+
+  public get typeName(): string {
+    return this.value?.typeName ?? 'Error';
+  }
+
+  /** One `at Routine (location)` entry per frame, innermost first, ending with the main program. */
+  public get stackTrace(): string[] {
+    const frames = this.callStack ?? [];
+    const trace: string[] = [];
+    let location: Token = this.token;
+    for (let index = frames.length - 1; index >= 0; index -= 1) {
+      const frame = frames[index]!;
+      const name = frame.module ? `${frame.module}.${frame.name}` : frame.name;
+      trace.push(`at ${name} (${formatLocation(location)})`);
+      location = frame.callSite;
+    }
+    trace.push(`at <main> (${formatLocation(location)})`);
+    return trace;
+  }
+
+  /** The message followed by the indented stack trace, as the REPL prints it. */
+  public formatTraceback(): string {
+    return [this.message, ...this.stackTrace.map((entry) => `  ${entry}`)].join('\n');
+  }
+}
+
+// Unwinds a KILLed task fiber; deliberately not a RuntimeError so TRY/CATCH cannot swallow it
+class TaskKilledError extends Error {
+  constructor(public readonly task: TaskValue) {
+    super(`Task ${task.name} (${task.id}) was killed`);
+    this.name = 'TaskKilledError';
+  }
+}
+
+/** Rejects a run whose `signal` was aborted; like TaskKilledError, TRY/CATCH and ON ERROR never see it. */
+export class ExecutionAbortedError extends Error {
+  constructor(reason: unknown) {
+    super('Execution aborted', { cause: reason });
+    this.name = 'AbortError';
+  }
+}
+
+// Unwinds a program InterpreterSession.interrupt() stopped; TRY/CATCH only gets to run FINALLY blocks
+class BreakInterrupt extends Error {
+  constructor(public readonly resumeAt: StatementPointer | undefined) { // Where CONT starts over, if anywhere
+    super('Break');
+    this.name = 'BreakInterrupt';
+  }
+}
+
+// Statements between event loop turns while a run can be aborted, interrupted or paused by a debugger, so
+// timers, I/O and keypresses get the chance to ask
+const YIELD_INTERVAL = 1000;
+
+/** How a session steers the program it is running; acted on between statements. */
+class RunControl {
+  private interruptRequested = false;
+  private pauseRequested = false;
+  private readonly waiting: Array<() => void> = []; // Wakes the program and tasks held while paused
+
+  public get paused(): boolean {
+    return this.waiting.length > 0;
+  }
+
+  public interrupt(): void {
+    this.interruptRequested = true;
+    this.resume();
+  }
+
+  public pause(): void {
+    this.pauseRequested = true;
+  }
+
+  public resume(): void {
+    this.pauseRequested = false;
+    this.waiting.splice(0).forEach((wake) => wake());
+  }
+
+  // Requests made while nothing was running must not stop the next run
+  public clear(): void {
+    this.interruptRequested = false;
+    this.pauseRequested = false;
+  }
+
+  // Tasks pause with the program but leave interrupts to it: they are killed when it breaks
+  public async checkpoint(interruptible: boolean, resumeAt: StatementPointer | undefined): Promise<void> {
+    while (this.pauseRequested) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    if (interruptible && this.interruptRequested) {
+      this.interruptRequested = false;
+      throw new BreakInterrupt(resumeAt);
+    }
+  }
 }
 
 export async function executeProgram(
@@ -84,7 +284,12 @@ export async function executeProgram(
 ): Promise<ExecutionResult> {
   const context = new ExecutionContext(options);
   const evaluator = new Evaluator(program, context, options);
-  await evaluator.run();
+  try {
+    await evaluator.run();
+  } finally {
+    await context.stopTasks();
+    options.profiler?.stop();
+  }
   return context.finalize(evaluator.haltReason);
 }
 
@@ -92,30 +297,76 @@ export async function executeSource(
   source: string,
   options: ExecutionOptions = {}
 ): Promise<ExecutionResult> {
-  throw new Error('executeSource requires parsed program; use parseSource first.');
+  return executeProgram(parseSource(source), options);
 }
 
 export class InterpreterSession {
   private readonly context: ExecutionContext;
-  private haltReason: 'END' | 'STOP' | undefined;
+  private readonly control = new RunControl();
+  private stopped: Evaluator | undefined; // Program a STOP or BREAK halted, for CONT to carry on with
 
   constructor(private readonly options: ExecutionOptions = {}) {
     this.context = new ExecutionContext(options);
   }
 
+  // Source consisting of just CONT resumes the last program STOP or interrupt() halted
   public async run(source: string, parserOptions: ParserOptions = {}): Promise<ExecutionResult> {
     const program = parseSource(source, parserOptions);
-    const evaluator = new Evaluator(program, this.context, this.options);
-    await evaluator.run();
-    this.haltReason = evaluator.haltReason;
-    const result = this.context.finalize(this.haltReason);
-    this.haltReason = undefined;
-    return result;
+    const statements = program.lines.flatMap((line) => line.statements);
+    if (statements.length === 1 && statements[0]!.type === 'ContStatement') {
+      const evaluator = this.stopped;
+      if (!evaluator?.resumeAt) {
+        throw new RuntimeError("Can't continue", statements[0]!.token, ErrorCode.CantContinue);
+      }
+      this.stopped = undefined;
+      return this.execute(evaluator, evaluator.resumeAt);
+    }
+    return this.execute(new Evaluator(program, this.context, this.options, [], this.control));
+  }
+
+  // Stops the running program before its next statement, after its DEFER blocks have run, and kills its
+  // tasks; the run then reports `halted: 'BREAK'` and CONT starts over from the statement that was
+  // interrupted, unless that was inside a block or routine, which CONT cannot re-enter
+  public interrupt(): void {
+    this.control.interrupt();
+    this.context.killTasks(); // Tasks can hold up the program, in a JOIN say, until they finish
+  }
+
+  // Suspends the running program before its next statement until resume(); its run stays pending
+  public pause(): void {
+    this.control.pause();
+  }
+
+  public resume(): void {
+    this.control.resume();
+  }
+
+  public get paused(): boolean {
+    return this.control.paused;
+  }
+
+  // Output a run printed before it threw; take it after catching the error so it does not lead the next run
+  public takeOutputs(): readonly string[] {
+    return this.context.finalize().outputs;
   }
 
   public reset(): void {
     this.context.reset();
-    this.haltReason = undefined;
+    this.stopped = undefined;
+  }
+
+  private async execute(evaluator: Evaluator, start?: StatementPointer): Promise<ExecutionResult> {
+    this.control.clear();
+    try {
+      await evaluator.run(start);
+    } finally {
+      await this.context.stopTasks();
+      this.options.profiler?.stop();
+    }
+    if (evaluator.resumeAt) {
+      this.stopped = evaluator;
+    }
+    return this.context.finalize(evaluator.haltReason);
   }
 }
 
@@ -125,21 +376,77 @@ interface FunctionOverload {
   parameterTypes: string[];
 }
 
+interface LoadedModule {
+  readonly name: string;
+  readonly namespace: HostNamespaceValue;
+}
+
+interface TaskSupervision {
+  readonly supervisor?: TaskObserver; // Gets a TaskExit record whenever the task exits or restarts
+  readonly restartLimit?: number;
+}
+
 class ExecutionContext {
   private readonly variables = new Map<string, RuntimeValue>();
-  private readonly functions = new Map<string, FunctionOverload[]>(); // Function name -> overloads
+  private readonly constants = new Map<string, Token>(); // CONST name -> declaring token
+  private readonly functions: Map<string, FunctionOverload[]>; // Function name -> overloads
   private readonly outputs: string[] = [];
   private currentPrintBuffer = '';
   private hasPendingBuffer = false;
   private readonly routines = new Set<string>();
-  private readonly types = new Map<string, RuntimeTypeDefinition>();
-  private readonly tasks = new Map<string, TaskValue>(); // Task ID -> TaskValue
+  private readonly types: Map<string, RuntimeTypeDefinition>;
+  private readonly tasks: Map<string, TaskValue>; // Task ID -> TaskValue
   private taskIdCounter = 0;
+  private channelIdCounter = 0;
   private currentTask: TaskValue | null = null; // Current executing task for RECV
+  private readonly globals: ExecutionContext | undefined; // Program scope a task scope reads through to
+  private readonly modules = new Map<string, LoadedModule>(); // Resolved path -> module, root only
+  private readonly moduleStack: string[] = []; // Paths being imported, for cycle detection
   public deferStack: Array<{ type: 'statement', statement: StatementNode } | { type: 'block', statements: StatementNode[] }> = [];
 
-  constructor(private readonly options: ExecutionOptions = {}) {
-    this.registerBuiltInTypes();
+  // Task scopes get their own variables but share functions, types, tasks and output with the program.
+  // Module scopes also keep their own functions and types, sharing only tasks and output.
+  constructor(
+    private readonly options: ExecutionOptions = {},
+    private readonly parent?: ExecutionContext,
+    isModule = false
+  ) {
+    this.globals = isModule ? undefined : parent;
+    this.functions = this.globals?.functions ?? new Map();
+    this.types = this.globals?.types ?? new Map();
+    this.tasks = parent?.tasks ?? new Map();
+    if (!this.globals) {
+      this.registerBuiltInTypes();
+    }
+    if (!parent && options.sourcePath) {
+      this.moduleStack.push(path.resolve(options.sourcePath));
+    }
+  }
+
+  public createTaskScope(task: TaskValue): ExecutionContext {
+    const scope = new ExecutionContext(this.options, this.globals ?? this);
+    scope.setCurrentTask(task);
+    return scope;
+  }
+
+  public createModuleScope(): ExecutionContext {
+    return new ExecutionContext(this.options, this, true);
+  }
+
+  public getModule(modulePath: string): LoadedModule | undefined {
+    return this.parent ? this.parent.getModule(modulePath) : this.modules.get(modulePath);
+  }
+
+  public registerModule(modulePath: string, module: LoadedModule): void {
+    if (this.parent) {
+      this.parent.registerModule(modulePath, module);
+      return;
+    }
+    this.modules.set(modulePath, module);
+  }
+
+  public getModuleStack(): string[] {
+    return this.parent ? this.parent.getModuleStack() : this.moduleStack;
   }
 
   public getVariable(name: string): RuntimeValue {
@@ -152,15 +459,38 @@ class ExecutionContext {
       }
       return value;
     }
+    // Task scopes can read program globals (functions, properties, shared values)
+    if (this.globals?.hasVariable(name)) {
+      return this.globals.getVariable(name);
+    }
     return defaultValueForIdentifier(name);
   }
 
   public getVariableRef(name: string): RuntimeValue | undefined {
     const key = normalizeIdentifier(name);
-    return this.variables.get(key);
+    return this.variables.get(key) ?? this.globals?.getVariableRef(name);
+  }
+
+  public declareConstant(name: string, value: RuntimeValue, token: Token): void {
+    this.ensureAssignable(name, token);
+    const key = normalizeIdentifier(name);
+    this.variables.set(key, coerceValueForIdentifier(name, value, token));
+    this.constants.set(key, token);
+  }
+
+  private getConstantDeclaration(name: string): Token | undefined {
+    return this.constants.get(normalizeIdentifier(name)) ?? this.globals?.getConstantDeclaration(name);
+  }
+
+  private ensureAssignable(name: string, token: Token): void {
+    const declaration = this.getConstantDeclaration(name);
+    if (declaration) {
+      throw new RuntimeError(`Cannot assign to CONST ${name} declared at ${formatLocation(declaration)}`, token);
+    }
   }
 
   public setVariable(name: string, value: RuntimeValue, token: Token): void {
+    this.ensureAssignable(name, token);
     const key = normalizeIdentifier(name);
     const existing = this.variables.get(key);
 
@@ -181,6 +511,7 @@ class ExecutionContext {
   }
 
   public setVariableWithType(name: string, value: RuntimeValue, typeName: string, token: Token): void {
+    this.ensureAssignable(name, token);
     const key = normalizeIdentifier(name);
     const existing = this.variables.get(key);
 
@@ -197,7 +528,11 @@ class ExecutionContext {
 
   public hasVariable(name: string): boolean {
     const key = normalizeIdentifier(name);
-    return this.variables.has(key);
+    return this.variables.has(key) || Boolean(this.globals?.hasVariable(name));
+  }
+
+  public getVariableNames(): string[] {
+    return [...this.variables.keys(), ...(this.globals?.getVariableNames() ?? [])];
   }
 
   private getParameterTypeSignature(parameters: readonly ParameterNode[]): string[] {
@@ -214,6 +549,11 @@ class ExecutionContext {
   }
 
   public registerFunction(func: UserFunctionValue): void {
+    if (this.globals) {
+      this.globals.registerFunction(func);
+      return;
+    }
+
     const funcName = normalizeIdentifier(func.name);
     const paramTypes = this.getParameterTypeSignature(func.parameters);
     const signature = `${func.name}(${paramTypes.join(', ')})`;
@@ -321,36 +661,58 @@ class ExecutionContext {
   }
 
   public writePrint(args: string[], trailing: PrintStatementNode['trailing']): void {
+    if (this.parent) {
+      this.parent.writePrint(args, trailing);
+      return;
+    }
+
     if (!this.hasPendingBuffer) {
       this.currentPrintBuffer = '';
       this.hasPendingBuffer = true;
     }
 
     this.currentPrintBuffer += args.join('');
-
     if (trailing === 'space') {
       this.currentPrintBuffer += ' ';
-      return;
     }
 
-    if (trailing === 'none') {
+    // The line stays open, but hosts showing output live should not have to wait for the rest of it
+    if (trailing === 'space' || trailing === 'none') {
+      this.options.onFlush?.(this.currentPrintBuffer);
       return;
     }
 
-    this.outputs.push(this.currentPrintBuffer);
+    this.emit(this.currentPrintBuffer);
     this.currentPrintBuffer = '';
     this.hasPendingBuffer = false;
   }
 
+  private emit(line: string): void {
+    if (this.options.onOutput) {
+      this.options.onOutput(line);
+    } else {
+      this.outputs.push(line);
+    }
+  }
+
   public flush(): void {
+    if (this.parent) {
+      this.parent.flush();
+      return;
+    }
+
     if (this.hasPendingBuffer && this.currentPrintBuffer.length > 0) {
-      this.outputs.push(this.currentPrintBuffer);
+      this.emit(this.currentPrintBuffer);
     }
     this.currentPrintBuffer = '';
     this.hasPendingBuffer = false;
   }
 
   public async readInput(): Promise<string> {
+    if (this.parent) {
+      return this.parent.readInput();
+    }
+
     // Flush any pending output before reading input
     this.flush();
 
@@ -364,7 +726,7 @@ class ExecutionContext {
     return '';
   }
 
-  public finalize(haltReason?: 'END' | 'STOP'): ExecutionResult {
+  public finalize(haltReason?: HaltReason): ExecutionResult {
     this.flush();
     const result: ExecutionResult = {
       outputs: this.outputs.slice(),
@@ -385,6 +747,7 @@ class ExecutionContext {
     this.routines.clear();
     this.types.clear();
     this.tasks.clear();
+    this.modules.clear();
     this.taskIdCounter = 0;
     this.currentTask = null;
     this.registerBuiltInTypes();
@@ -399,23 +762,77 @@ class ExecutionContext {
     return true;
   }
 
-  public spawnTask(name: string, fiber: () => Promise<RuntimeValue>): TaskValue {
+  public spawnTask(
+    name: string,
+    fiber: (task: TaskValue) => Promise<RuntimeValue>,
+    supervision: TaskSupervision = {}
+  ): TaskValue {
+    if (this.parent) {
+      return this.parent.spawnTask(name, fiber, supervision);
+    }
+
     const taskId = `task_${++this.taskIdCounter}`;
     const task = new TaskValue(taskId, name, fiber);
     this.tasks.set(taskId, task);
-
-    // Start the fiber execution
-    task.fiber().then(result => {
-      task.status = 'completed';
-      task.result = result;
-    }).catch(error => {
-      task.status = 'error';
-      task.error = error instanceof Error ? error.message : String(error);
-    });
+    if (supervision.supervisor) {
+      task.monitor(supervision.supervisor);
+    }
+
+    // Start the fiber on the next microtask so the spawner receives the handle first
+    const restartLimit = supervision.restartLimit ?? 0;
+    const run = (): void => {
+      Promise.resolve()
+        .then(() => task.fiber(task))
+        .then(
+          result => task.complete(result),
+          error => {
+            // The run's signal stops tasks like a KILL, so an aborted task is not restarted either
+            const killed = error instanceof TaskKilledError || error instanceof ExecutionAbortedError;
+            if (!killed && task.restarts < restartLimit) {
+              task.restart(error);
+              run();
+              return;
+            }
+            task.fail(error, killed);
+          }
+        );
+    };
+    run();
 
     return task;
   }
 
+  // Tasks do not outlive the run that spawned them: kill the live ones and wait for them to unwind
+  public async stopTasks(): Promise<void> {
+    if (this.parent) {
+      return this.parent.stopTasks();
+    }
+    for (;;) {
+      const live = this.killTasks();
+      if (live.length === 0) {
+        return;
+      }
+      await Promise.all(live.map((task) => task.join()));
+    }
+  }
+
+  // Returns the tasks that were still running
+  public killTasks(): TaskValue[] {
+    if (this.parent) {
+      return this.parent.killTasks();
+    }
+    const live = [...this.tasks.values()].filter((task) => !task.isFinished);
+    live.forEach((task) => task.kill());
+    return live;
+  }
+
+  public createChannel(elementType: string | undefined, capacity: number): ChannelValue {
+    if (this.parent) {
+      return this.parent.createChannel(elementType, capacity);
+    }
+    return new ChannelValue(`channel_${++this.channelIdCounter}`, elementType, capacity);
+  }
+
   public getTask(taskId: string): TaskValue | undefined {
     return this.tasks.get(taskId);
   }
@@ -464,51 +881,36 @@ class ExecutionContext {
     return this.types.get(name);
   }
 
+  public getTypeNames(): string[] {
+    return Array.from(this.types.keys());
+  }
+
   private registerBuiltInTypes(): void {
-    this.registerAIAssistantType();
+    for (const [name, fields] of Object.entries(BUILT_IN_RECORD_TYPES)) {
+      this.defineBuiltInType(name, fields);
+    }
   }
 
-  private registerAIAssistantType(): void {
-    if (this.types.has('AIAssistant')) {
+  private defineBuiltInType(name: string, fields: readonly (readonly [string, string])[]): void {
+    if (this.types.has(name)) {
       return;
     }
 
-    const createToken = (lexeme: string): Token => ({
-      type: TokenType.Identifier,
-      lexeme,
-      literal: lexeme,
-      line: 0,
-      column: 0
-    });
-
-    const createAnnotation = (name: string, typeArguments?: readonly TypeAnnotationNode[]): TypeAnnotationNode => ({
-      type: 'TypeAnnotation',
-      name,
-      token: createToken(name),
-      ...(typeArguments ? { typeArguments: [...typeArguments] } : {})
-    });
-
-    const fields: RuntimeTypeField[] = [
-      { name: 'Provider', annotation: createAnnotation('STRING') },
-      { name: 'Model', annotation: createAnnotation('STRING') },
-      { name: 'Temperature', annotation: createAnnotation('NUMBER') },
-      { name: 'MaxTokens', annotation: createAnnotation('NUMBER') },
-      { name: 'SystemPrompt', annotation: createAnnotation('STRING') },
-      { name: 'CachePolicy', annotation: createAnnotation('STRING') },
-      { name: 'RetryCount', annotation: createAnnotation('NUMBER') },
-      { name: 'Timeout', annotation: createAnnotation('NUMBER') },
-      { name: 'CostBudget', annotation: createAnnotation('NUMBER') }
-    ];
-
-    const fieldOrder = fields.map(field => field.name);
     const fieldMap = new Map<string, RuntimeTypeField>();
-    for (const field of fields) {
-      fieldMap.set(field.name, field);
+    for (const [fieldName, typeName] of fields) {
+      fieldMap.set(fieldName, {
+        name: fieldName,
+        annotation: {
+          type: 'TypeAnnotation',
+          name: typeName,
+          token: { type: TokenType.Identifier, lexeme: typeName, literal: typeName, line: 0, column: 0 }
+        }
+      });
     }
 
-    this.types.set('AIAssistant', {
-      name: 'AIAssistant',
-      fieldOrder,
+    this.types.set(name, {
+      name,
+      fieldOrder: fields.map(([fieldName]) => fieldName),
       fields: fieldMap
     });
   }
@@ -518,15 +920,29 @@ class Evaluator {
   private readonly lineIndexByNumber = new Map<number, number>();
   private readonly forBindings = new Map<string, ForBinding>();
   private readonly forStack: ForFrame[] = [];
+  private readonly gosubStack: StatementPointer[] = []; // Resume points for RETURN, apart from routine calls
+  private errorHandlerLineIndex: number | undefined; // ON ERROR GOTO target
+  private tryDepth = 0; // TRY blocks running, whose errors go to CATCH before ON ERROR
+  private trappedError: TrappedError | undefined; // Error the ON ERROR handler is servicing, until RESUME
+  private dataPointer = 0; // Index into program.data of the next value READ returns
+  private readonly caughtErrors: RuntimeError[] = []; // Errors whose CATCH blocks are running, for RETHROW
   private readonly hostEnvironment: HostEnvironment;
-  private stepCount = 0;
-  public haltReason: 'END' | 'STOP' | undefined;
+  private steps = { taken: 0 }; // Shared with the run's task fibers, which count against the same maxSteps
+  private isTask = false; // Runs a SPAWNed routine; having no top level, it counts every statement it runs
+  private statementsSinceYield = 0;
+  private blockRuns = 0; // runUntil calls in progress, running lines on behalf of a block
+  public haltReason: HaltReason | undefined;
+  public resumeAt: StatementPointer | undefined; // Where CONT carries on after STOP or a break
   private readonly withStack: RuntimeValue[] = [];
+  private moduleName: string | undefined; // Set for IMPORTed modules, to qualify their call frames
 
   constructor(
     private readonly program: ProgramNode,
     private readonly context: ExecutionContext,
-    private readonly options: ExecutionOptions
+    private readonly options: ExecutionOptions,
+    // Shared with IMPORTed module evaluators so a trace runs through module routines
+    private readonly callStack: CallFrame[] = [],
+    private readonly control?: RunControl // Only the session's own program and its tasks can be interrupted or paused
   ) {
     this.hostEnvironment = options.hostEnvironment ?? createDefaultHostEnvironment();
     program.lines.forEach((line, index) => {
@@ -537,15 +953,26 @@ class Evaluator {
     this.buildLoopBindings();
   }
 
-  public async run(): Promise<void> {
+  public async run(start: StatementPointer = { lineIndex: 0, statementIndex: 0 }): Promise<void> {
     const { lines } = this.program;
-    let lineIndex = 0;
-    let statementIndex = 0;
+    let { lineIndex, statementIndex } = start;
+    this.haltReason = undefined;
+    this.resumeAt = undefined;
 
     try {
       while (lineIndex < lines.length && !this.haltReason) {
         const line = lines[lineIndex]!;
-        const signal = await this.executeLine(line, lineIndex, statementIndex);
+        let signal: StatementSignal | undefined;
+        try {
+          signal = await this.executeLine(line, lineIndex, statementIndex);
+        } catch (error) {
+          if (!(error instanceof BreakInterrupt)) {
+            throw error;
+          }
+          this.haltReason = 'BREAK';
+          this.resumeAt = error.resumeAt;
+          break;
+        }
 
         if (!signal) {
           lineIndex += 1;
@@ -561,6 +988,7 @@ class Evaluator {
 
         if (signal.type === 'halt') {
           this.haltReason = signal.reason;
+          this.resumeAt = signal.resumeAt;
           break;
         }
 
@@ -588,7 +1016,12 @@ class Evaluator {
     for (let i = startStatementIndex; i < line.statements.length; i += 1) {
       const statement = line.statements[i]!;
       this.ensureWithinStepBudget(statement.token);
-      const signal = await this.executeStatement(statement, { lineIndex, statementIndex: i });
+      let signal: StatementSignal | undefined;
+      try {
+        signal = await this.executeStatement(statement, { lineIndex, statementIndex: i });
+      } catch (error) {
+        signal = this.trapError(error, { lineIndex, statementIndex: i });
+      }
       if (signal) {
         return signal;
       }
@@ -596,13 +1029,68 @@ class Evaluator {
     return undefined;
   }
 
+  // Errors TRY/CATCH left uncaught reach here; ON ERROR GOTO diverts them to its handler line
+  private trapError(error: unknown, resumeAt: StatementPointer, lineIndex = resumeAt.lineIndex): StatementSignalJump {
+    if (!(error instanceof RuntimeError) || this.errorHandlerLineIndex === undefined || this.trappedError) {
+      throw error;
+    }
+    const line = this.program.lines[lineIndex]!;
+    this.trappedError = { error, line: line.lineNumber ?? error.token.line, resumeAt };
+    return { type: 'jump', targetLineIndex: this.errorHandlerLineIndex };
+  }
+
+  // A statement failing inside a block is trapped where it failed, so RESUME returns into the block
+  private async trapErrorInBlock(
+    error: unknown,
+    statement: StatementNode,
+    position: StatementPosition
+  ): Promise<StatementSignal | undefined> {
+    const handler = this.trapError(error, { lineIndex: RESUME_IN_BLOCK, statementIndex: 0 }, position.lineIndex);
+    const signal = await this.runUntil(handler.targetLineIndex, RESUME_IN_BLOCK);
+    if (signal.type !== 'jump') {
+      return signal;
+    }
+    // RESUME runs the statement again; RESUME NEXT carries on with the one after it
+    return signal.targetStatementIndex === 0 ? this.executeStatement(statement, position) : undefined;
+  }
+
   private async executeStatement(
+    statement: StatementNode,
+    position: StatementPosition,
+    trappable = true // False for the branches of a single-line IF, which ON ERROR traps as a whole
+  ): Promise<StatementSignal | undefined> {
+    this.throwIfTaskKilled();
+    if (this.isTask) {
+      this.ensureWithinStepBudget(statement.token);
+    }
+    if (this.options.debugHook) {
+      // Before the checkpoint, so a run stopped while the debugger holds it ends without running on
+      await this.options.debugHook.beforeStatement(this.debugLocation(statement));
+    }
+    // Tasks always yield now and then, so a busy one cannot starve timers, I/O and the program's end
+    if (this.isTask || this.options.signal || this.control || this.options.debugHook) {
+      await this.checkpoint(this.isOnMainLine(statement, position) ? position : undefined);
+    }
+    this.options.profiler?.statement(statement.token);
+    if (!trappable || this.errorHandlerLineIndex === undefined || this.tryDepth > 0 || !this.isInsideBlock(statement.token, position)) {
+      return this.dispatchStatement(statement, position);
+    }
+    try {
+      return await this.dispatchStatement(statement, position);
+    } catch (error) {
+      return this.trapErrorInBlock(error, statement, position);
+    }
+  }
+
+  private async dispatchStatement(
     statement: StatementNode,
     position: StatementPosition
   ): Promise<StatementSignal | undefined> {
     switch (statement.type) {
       case 'LetStatement':
         return this.executeLet(statement);
+      case 'DimStatement':
+        return this.executeDim(statement);
       case 'AssignmentStatement':
         return this.executeAssignment(statement);
       case 'PrintStatement':
@@ -620,13 +1108,56 @@ class Evaluator {
       case 'NextStatement':
         return this.executeNext(statement, position);
       case 'ReturnStatement':
-        return this.executeReturn(statement);
+        return this.executeReturn(statement, position);
+      case 'GotoStatement':
+        return { type: 'jump', targetLineIndex: this.resolveLineTarget(statement.target, statement.token, position) };
+      case 'GosubStatement':
+        return this.executeGosub(statement.target, statement.token, position);
+      case 'OnJumpStatement':
+        return this.executeOnJump(statement, position);
+      case 'OnErrorStatement':
+        return this.executeOnError(statement, position);
+      case 'ResumeStatement':
+        return this.executeResume(statement, position);
+      case 'DataStatement':
+        // Values were collected into program.data by the parser
+        return undefined;
+      case 'ReadStatement':
+        return this.executeRead(statement);
+      case 'RestoreStatement':
+        return this.executeRestore(statement);
       case 'StopStatement':
-        return { type: 'halt', reason: 'STOP' };
+        return { type: 'halt', reason: 'STOP', resumeAt: this.stopResumePoint(statement, position) };
+      case 'ContStatement':
+        // Sessions handle a CONT entered on its own; inside a program there is nothing to continue
+        throw new RuntimeError("Can't continue", statement.token, ErrorCode.CantContinue);
       case 'EndStatement':
         return { type: 'halt', reason: 'END' };
       case 'SendStatement':
         return this.executeSend(statement);
+      case 'BroadcastStatement':
+        return this.executeBroadcast(statement);
+      case 'KillStatement':
+        return this.executeKill(statement);
+      case 'JoinStatement':
+        return this.executeJoin(statement);
+      case 'RedimStatement':
+        return this.executeRedim(statement);
+      case 'OptionBaseStatement':
+        // Applied to DIM and REDIM bounds by the parser
+        return undefined;
+      case 'ConstStatement':
+        this.context.declareConstant(statement.name.name, await this.evaluateExpression(statement.value), statement.name.token);
+        return undefined;
+      case 'ModuleStatement':
+        // Only names the module for importers; see loadModule
+        return undefined;
+      case 'ImportStatement':
+        return this.executeImport(statement);
+      case 'YieldStatement':
+        // Let timers, I/O and every other runnable fiber make progress
+        await new Promise<void>((resolve) => setImmediate(resolve));
+        return undefined;
       case 'ExpressionStatement':
         await this.evaluateExpression(statement.expression);
         return undefined;
@@ -637,6 +1168,11 @@ class Evaluator {
         return this.executeTryCatch(statement, position);
       case 'ErrorStatement':
         return this.executeError(statement);
+      case 'RethrowStatement':
+        return this.executeRethrow(statement);
+      case 'InvalidStatement':
+        // Only reachable when a program parsed with error recovery is run anyway
+        throw new RuntimeError(`Syntax error: ${statement.message}`, statement.token);
       case 'FunctionStatement':
         return this.executeFunction(statement);
       case 'SubStatement':
@@ -653,6 +1189,8 @@ class Evaluator {
         return this.executeWith(statement, position);
       case 'SelectCaseStatement':
         return this.executeSelectCase(statement, position);
+      case 'SelectReceiveStatement':
+        return this.executeSelectReceive(statement, position);
       case 'DeferStatement':
         return this.executeDeferStatement(statement, position);
       case 'DeferBlockStatement':
@@ -677,6 +1215,8 @@ class Evaluator {
     } else if (statement.target.type === 'MemberExpression') {
       // MemberExpression - for field assignment
       await this.assignToMember(statement.target, value);
+    } else if (statement.target.type === 'IndexExpression') {
+      await this.assignToIndex(statement.target, value);
     } else if (statement.target.type === 'WithField') {
       // WITH field assignment
       await this.assignToWithField(statement.target, value);
@@ -684,6 +1224,285 @@ class Evaluator {
     return undefined;
   }
 
+  private async executeDim(statement: DimStatementNode): Promise<StatementSignal | undefined> {
+    const name = statement.name.name;
+    const annotation = statement.typeAnnotation;
+
+    if (statement.dimensions) {
+      const bounds = await this.evaluateArrayBounds(statement.dimensions);
+      const array = createDimensionedArray(bounds, this.getElementFactory(name, annotation));
+      this.context.setVariableWithType(name, array, 'ARRAY', statement.token);
+      return undefined;
+    }
+
+    if (!annotation) {
+      this.context.setVariable(name, defaultValueForIdentifier(name), statement.token);
+      return undefined;
+    }
+
+    let value: RuntimeValue;
+    if (annotation.name === 'CHANNEL') {
+      value = await this.createChannel(statement, annotation);
+    } else {
+      const typeDefinition = this.context.getTypeDefinition(annotation.name);
+      value = typeDefinition ? instantiateType(typeDefinition, []) : defaultValueForTypeAnnotation(annotation);
+    }
+
+    this.context.setVariableWithType(name, value, annotation.name, statement.token);
+    return undefined;
+  }
+
+  private resolveLineTarget(target: LineTargetNode, keyword: Token, position: StatementPosition): number {
+    if (position.lineIndex < 0) {
+      throw new RuntimeError(`${keyword.lexeme} cannot be used inside FUNCTION or SUB`, keyword);
+    }
+    const lineIndex = this.lineIndexByNumber.get(target.lineNumber);
+    if (lineIndex === undefined) {
+      throw new RuntimeError(`Undefined line number ${target.lineNumber}`, target.token, ErrorCode.UndefinedLine);
+    }
+    return lineIndex;
+  }
+
+  private async executeGosub(target: LineTargetNode, keyword: Token, position: StatementPosition): Promise<StatementSignal> {
+    const targetLineIndex = this.resolveLineTarget(target, keyword, position);
+    if (this.isInsideBlock(keyword, position)) {
+      // The rest of the block still has to run, so the subroutine runs here until its RETURN
+      this.gosubStack.push({ lineIndex: RETURN_TO_BLOCK, statementIndex: 0 });
+      const signal = await this.runUntil(targetLineIndex, RETURN_TO_BLOCK);
+      return signal.type === 'jump' ? undefined : signal;
+    }
+    // Resume with the statement after the GOSUB, which may lie past the end of its line
+    this.gosubStack.push({ lineIndex: position.lineIndex, statementIndex: position.statementIndex + 1 });
+    return { type: 'jump', targetLineIndex };
+  }
+
+  // True for a statement the main run loop steps through, so CONT has a place to carry on from
+  private isOnMainLine(statement: StatementNode, position: StatementPosition): boolean {
+    return this.blockRuns === 0 && this.program.lines[position.lineIndex]?.statements[position.statementIndex] === statement;
+  }
+
+  // CONT carries on after the STOP; one in a single-line IF counts as its IF, while one inside any other
+  // block or a routine leaves nothing to carry on with
+  private stopResumePoint(statement: StatementNode, position: StatementPosition): StatementPointer | undefined {
+    const enclosing = this.program.lines[position.lineIndex]?.statements[position.statementIndex];
+    const onLine = enclosing === statement || (enclosing?.type === 'IfStatement' && enclosing.token.line === statement.token.line);
+    return this.blockRuns === 0 && onLine ? { lineIndex: position.lineIndex, statementIndex: position.statementIndex + 1 } : undefined;
+  }
+
+  // True for a statement inside a WHILE, IF or other block rather than directly on its line
+  private isInsideBlock(token: Token, position: StatementPosition): boolean {
+    return position.lineIndex >= 0 && this.program.lines[position.lineIndex]!.statements[position.statementIndex]?.token !== token;
+  }
+
+  /**
+   * Runs the program's lines from `lineIndex`, for a GOSUB or ON ERROR handler entered from inside a
+   * block, until a jump to `exit` hands control back. Returns that jump, or whatever ended the program.
+   */
+  private async runUntil(lineIndex: number, exit: number): Promise<NonNullable<StatementSignal>> {
+    const { lines } = this.program;
+    let statementIndex = 0;
+    this.blockRuns += 1;
+    try {
+      while (lineIndex < lines.length) {
+        const signal = await this.executeLine(lines[lineIndex]!, lineIndex, statementIndex);
+        if (!signal) {
+          lineIndex += 1;
+          statementIndex = 0;
+        } else if (signal.type !== 'jump' || signal.targetLineIndex === exit) {
+          return signal;
+        } else {
+          lineIndex = signal.targetLineIndex;
+          statementIndex = signal.targetStatementIndex ?? 0;
+        }
+      }
+      return { type: 'halt', reason: 'END' };
+    } finally {
+      this.blockRuns -= 1;
+    }
+  }
+
+  private async executeOnJump(statement: OnJumpStatementNode, position: StatementPosition): Promise<StatementSignal | undefined> {
+    const selector = Math.floor(toNumber(await this.evaluateExpression(statement.selector), statement.token));
+    const target = statement.targets[selector - 1];
+    if (!target) {
+      return undefined;
+    }
+    if (statement.mode === 'GOSUB') {
+      return this.executeGosub(target, statement.token, position);
+    }
+    return { type: 'jump', targetLineIndex: this.resolveLineTarget(target, statement.token, position) };
+  }
+
+  private executeOnError(statement: OnErrorStatementNode, position: StatementPosition): StatementSignal | undefined {
+    if (statement.target) {
+      this.errorHandlerLineIndex = this.resolveLineTarget(statement.target, statement.token, position);
+      return undefined;
+    }
+
+    this.errorHandlerLineIndex = undefined;
+    // ON ERROR GOTO 0 inside a handler gives up and lets the error halt the program
+    const trapped = this.trappedError;
+    if (trapped) {
+      this.trappedError = undefined;
+      throw trapped.error;
+    }
+    return undefined;
+  }
+
+  private executeResume(statement: ResumeStatementNode, position: StatementPosition): StatementSignal {
+    if (position.lineIndex < 0) {
+      throw new RuntimeError('RESUME cannot be used inside FUNCTION or SUB', statement.token);
+    }
+    const trapped = this.trappedError;
+    if (!trapped) {
+      throw new RuntimeError('RESUME without error', statement.token, ErrorCode.ResumeWithoutError);
+    }
+
+    if (statement.mode === 'LINE') {
+      const targetLineIndex = this.resolveLineTarget(statement.target!, statement.token, position);
+      this.trappedError = undefined;
+      return { type: 'jump', targetLineIndex };
+    }
+    this.trappedError = undefined;
+    const { lineIndex, statementIndex } = trapped.resumeAt;
+    return {
+      type: 'jump',
+      targetLineIndex: lineIndex,
+      targetStatementIndex: statement.mode === 'NEXT' ? statementIndex + 1 : statementIndex
+    };
+  }
+
+  private async executeRead(statement: ReadStatementNode): Promise<StatementSignal | undefined> {
+    for (const target of statement.targets) {
+      const item = this.program.data[this.dataPointer];
+      if (!item) {
+        throw new RuntimeError('Out of DATA', statement.token, ErrorCode.OutOfData);
+      }
+      this.dataPointer += 1;
+
+      if (target.type === 'Identifier') {
+        this.context.setVariable(target.name, coerceValueForIdentifier(target.name, item.value, item.token), statement.token);
+      } else if (target.type === 'IndexExpression') {
+        // Array elements coerce like their array's name, so READ names$(i) stores text
+        let root: ExpressionNode = target;
+        while (root.type === 'IndexExpression') {
+          root = root.object;
+        }
+        const value = root.type === 'Identifier' ? coerceValueForIdentifier(root.name, item.value, item.token) : item.value;
+        await this.assignToIndex(target, value);
+      } else if (target.type === 'MemberExpression') {
+        await this.assignToMember(target, item.value);
+      } else {
+        await this.assignToWithField(target, item.value);
+      }
+    }
+    return undefined;
+  }
+
+  private executeRestore(statement: RestoreStatementNode): StatementSignal | undefined {
+    if (!statement.target) {
+      this.dataPointer = 0;
+      return undefined;
+    }
+    const lineIndex = this.lineIndexByNumber.get(statement.target.lineNumber);
+    if (lineIndex === undefined) {
+      throw new RuntimeError(`Undefined line number ${statement.target.lineNumber}`, statement.target.token, ErrorCode.UndefinedLine);
+    }
+    // RESTORE 100 continues from the first DATA value at or after line 100
+    const index = this.program.data.findIndex((item) => item.lineIndex >= lineIndex);
+    this.dataPointer = index === -1 ? this.program.data.length : index;
+    return undefined;
+  }
+
+  private async executeRedim(statement: RedimStatementNode): Promise<StatementSignal | undefined> {
+    const name = statement.name.name;
+    const bounds = await this.evaluateArrayBounds(statement.dimensions);
+    if (!statement.preserve) {
+      const array = createDimensionedArray(bounds, this.getElementFactory(name, statement.typeAnnotation));
+      this.context.setVariableWithType(name, array, 'ARRAY', statement.token);
+      return undefined;
+    }
+
+    const existing = this.context.getVariable(name);
+    if (!Array.isArray(existing)) {
+      throw new RuntimeError(`REDIM PRESERVE requires an existing array '${name}'`, statement.name.token);
+    }
+    const rank = getArrayRank(existing);
+    if (rank !== 0 && rank !== bounds.length) {
+      throw new RuntimeError(
+        `REDIM PRESERVE cannot change '${name}' from ${rank} to ${bounds.length} dimension(s)`,
+        statement.name.token
+      );
+    }
+
+    const createElement = statement.typeAnnotation
+      ? this.getElementFactory(name, statement.typeAnnotation)
+      : dimensionedArrays.get(existing)?.createElement ?? this.getElementFactory(name, undefined);
+    const array = createDimensionedArray(bounds, createElement);
+    copyArrayElements(existing, array);
+    this.context.setVariableWithType(name, array, 'ARRAY', statement.token);
+    return undefined;
+  }
+
+  private async evaluateArrayBounds(dimensions: readonly ArrayBoundsNode[]): Promise<ArrayBounds[]> {
+    const bounds: ArrayBounds[] = [];
+    for (const dimension of dimensions) {
+      const lower = toNumber(await this.evaluateExpression(dimension.lower), this.getExpressionToken(dimension.lower));
+      const upper = toNumber(await this.evaluateExpression(dimension.upper), this.getExpressionToken(dimension.upper));
+      if (!Number.isInteger(lower) || !Number.isInteger(upper)) {
+        throw new RuntimeError('Array bounds must be integers', this.getExpressionToken(dimension.upper));
+      }
+      if (upper < lower) {
+        throw new RuntimeError(`Array upper bound ${upper} is below lower bound ${lower}`, this.getExpressionToken(dimension.upper));
+      }
+      bounds.push({ lower, upper });
+    }
+    return bounds;
+  }
+
+  // Elements default by declared type, else by name suffix like scalar variables
+  private getElementFactory(name: string, annotation: TypeAnnotationNode | undefined): () => RuntimeValue {
+    if (!annotation) {
+      return () => defaultValueForIdentifier(name);
+    }
+    const typeDefinition = this.context.getTypeDefinition(annotation.name);
+    if (typeDefinition) {
+      return () => instantiateType(typeDefinition, []);
+    }
+    if (!BUILT_IN_TYPE_NAMES.has(annotation.name.toUpperCase())) {
+      throw this.unknownNameError(
+        `Unknown type '${annotation.name}' for array '${name}'`,
+        annotation.token,
+        annotation.name,
+        this.context.getTypeNames()
+      );
+    }
+    return () => defaultValueForTypeAnnotation(annotation);
+  }
+
+  private async createChannel(statement: DimStatementNode, annotation: TypeAnnotationNode): Promise<ChannelValue> {
+    const elementAnnotation = annotation.typeArguments?.[0];
+    if (elementAnnotation && !BUILT_IN_TYPE_NAMES.has(elementAnnotation.name.toUpperCase()) &&
+        !this.context.getTypeDefinition(elementAnnotation.name)) {
+      throw this.unknownNameError(
+        `Unknown type '${elementAnnotation.name}' for CHANNEL`,
+        elementAnnotation.token,
+        elementAnnotation.name,
+        this.context.getTypeNames()
+      );
+    }
+
+    let capacity = 0;
+    if (statement.buffer) {
+      capacity = toNumber(await this.evaluateExpression(statement.buffer), statement.token);
+      if (!Number.isInteger(capacity) || capacity < 0) {
+        throw new RuntimeError('CHANNEL BUFFER must be a non-negative integer', this.getExpressionToken(statement.buffer));
+      }
+    }
+
+    return this.context.createChannel(elementAnnotation?.name, capacity);
+  }
+
   private async executeAssignment(
     statement: AssignmentStatementNode
   ): Promise<StatementSignal | undefined> {
@@ -694,6 +1513,8 @@ class Evaluator {
     } else if (statement.target.type === 'MemberExpression') {
       // MemberExpression - for field assignment
       await this.assignToMember(statement.target, value);
+    } else if (statement.target.type === 'IndexExpression') {
+      await this.assignToIndex(statement.target, value);
     } else if (statement.target.type === 'WithField') {
       // WITH field assignment
       await this.assignToWithField(statement.target, value);
@@ -701,58 +1522,460 @@ class Evaluator {
     return undefined;
   }
 
-  private async evaluateSpawn(expression: SpawnExpressionNode): Promise<RuntimeValue> {
-    // SPAWN now returns the task handle directly - ELEGANT!
-    const rawName = await this.evaluateExpression(expression.routine);
-    const name = toStringValue(rawName) || 'ROUTINE';
-
-    // Create a task fiber that simulates the routine execution
-    const fiber = async (): Promise<RuntimeValue> => {
-      // In the current implementation, we'll simulate a basic task
-      // Later this should execute the actual routine/function
-      return `Task ${name} completed`;
-    };
-
-    const task = this.context.spawnTask(name, fiber);
+  private async evaluateSpawn(expression: SpawnExpressionNode): Promise<RuntimeValue> {
+    // SPAWN Worker(1, 2) passes arguments to the routine instead of calling it in place
+    let routineExpression = expression.routine;
+    let args: RuntimeValue[] = [];
+    if (routineExpression.type === 'CallExpression') {
+      args = await this.evaluateArgumentsWithSpread(routineExpression.args);
+      routineExpression = routineExpression.callee;
+    }
+
+    const routine = await this.evaluateExpression(routineExpression);
+    const func = this.resolveSpawnRoutine(routine, args, expression.token);
+
+    // Each task runs the routine on its own scope and evaluator, so RECV sees its own mailbox
+    const fiber = async (task: TaskValue): Promise<RuntimeValue> => {
+      const taskContext = this.context.createTaskScope(task);
+      const taskEvaluator = new Evaluator(this.program, taskContext, {
+        ...this.options,
+        hostEnvironment: this.hostEnvironment
+      }, [], this.control);
+      taskEvaluator.steps = this.steps;
+      taskEvaluator.isTask = true;
+      return taskEvaluator.executeUserFunction(func, args, expression.token, taskContext.saveScope());
+    };
+
+    const task = this.context.spawnTask(func.name, fiber, await this.evaluateSupervision(expression));
+
+    // For backward compatibility, also add to routines
+    this.context.spawnRoutine(func.name);
+
+    return task;
+  }
+
+  private async executeImport(statement: ImportStatementNode): Promise<StatementSignal | undefined> {
+    const baseDirectory = this.options.sourcePath ? path.dirname(this.options.sourcePath) : process.cwd();
+    const modulePath = path.resolve(baseDirectory, statement.path);
+    const module = await this.loadModule(modulePath, statement);
+    this.context.setVariable(statement.alias?.name ?? module.name, module.namespace, statement.token);
+    return undefined;
+  }
+
+  /**
+   * Run a module file once, in its own scope, and wrap its PUBLIC declarations in a namespace.
+   */
+  private async loadModule(modulePath: string, statement: ImportStatementNode): Promise<LoadedModule> {
+    const cached = this.context.getModule(modulePath);
+    if (cached) {
+      return cached;
+    }
+
+    const moduleStack = this.context.getModuleStack();
+    if (moduleStack.includes(modulePath)) {
+      const cycle = [...moduleStack.slice(moduleStack.indexOf(modulePath)), modulePath]
+        .map((entry) => path.basename(entry))
+        .join(' -> ');
+      throw new RuntimeError(`Circular IMPORT: ${cycle}`, statement.token);
+    }
+
+    let source: string;
+    try {
+      source = await fs.readFile(modulePath, 'utf8');
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new RuntimeError(`Cannot IMPORT '${statement.path}': ${reason}`, statement.token);
+    }
+
+    // Tokens carry the file name, so parse and runtime errors inside the module point at it
+    const fileName = path.basename(modulePath);
+    const program = parseSource(source, { fileName });
+    const declarations = program.lines.flatMap((line) => line.statements);
+    const moduleStatement = declarations.find((declaration) => declaration.type === 'ModuleStatement');
+    const name = moduleStatement?.type === 'ModuleStatement'
+      ? moduleStatement.name.name
+      : path.basename(modulePath, path.extname(modulePath));
+
+    const moduleContext = this.context.createModuleScope();
+    const moduleEvaluator = new Evaluator(program, moduleContext, {
+      ...this.options,
+      sourcePath: modulePath,
+      hostEnvironment: this.hostEnvironment
+    }, this.callStack);
+    moduleEvaluator.moduleName = name;
+
+    moduleStack.push(modulePath);
+    try {
+      await moduleEvaluator.run();
+    } finally {
+      moduleStack.pop();
+    }
+
+    const members: Record<string, RuntimeValue> = {};
+    for (const declaration of declarations) {
+      if ((declaration.type === 'FunctionStatement' || declaration.type === 'SubStatement') && declaration.isPublic) {
+        members[declaration.name.name] = moduleEvaluator.createModuleFunction(name, declaration.name);
+      } else if (declaration.type === 'TypeDeclaration' && declaration.isPublic) {
+        members[declaration.name.name] = moduleEvaluator.createModuleConstructor(name, declaration.name);
+      } else if (declaration.type === 'ConstStatement' && declaration.isPublic) {
+        members[declaration.name.name] = moduleContext.getVariable(declaration.name.name);
+      }
+    }
+
+    const module: LoadedModule = { name, namespace: createNamespace(name, members) };
+    this.context.registerModule(modulePath, module);
+    return module;
+  }
+
+  // Exported routines run on the module's own evaluator so they can reach its private helpers
+  private createModuleFunction(moduleName: string, routine: IdentifierNode): RuntimeValue {
+    return createFunction(`${moduleName}.${routine.name}`, async (args, context) => {
+      const func = this.context.findBestFunction(routine.name, args.map((arg) => this.getRuntimeValueType(arg)));
+      if (!func) {
+        throw new RuntimeError(`Unknown routine '${routine.name}' in module ${moduleName}`, context.callSite);
+      }
+      return this.executeUserFunction(func, args, context.callSite, this.context.saveScope());
+    });
+  }
+
+  private createModuleConstructor(moduleName: string, typeName: IdentifierNode): RuntimeValue {
+    return createFunction(`${moduleName}.${typeName.name}`, (args) => {
+      const typeDefinition = this.context.getTypeDefinition(typeName.name)!;
+      if (args.length > typeDefinition.fieldOrder.length) {
+        throw new RuntimeError(
+          `Type '${typeName.name}' constructor expected at most ${typeDefinition.fieldOrder.length} argument(s), got ${args.length}`,
+          typeName.token
+        );
+      }
+      return instantiateType(typeDefinition, args);
+    });
+  }
+
+  private async evaluateSupervision(expression: SpawnExpressionNode): Promise<TaskSupervision> {
+    let supervisor: TaskObserver | undefined;
+    if (expression.supervisor) {
+      const value = await this.evaluateExpression(expression.supervisor);
+      if (!isTaskValue(value) && !isChannelValue(value)) {
+        throw new RuntimeError(
+          `SUPERVISED BY expects a Task or Channel, got ${typeof value}`,
+          this.getExpressionToken(expression.supervisor)
+        );
+      }
+      if (isChannelValue(value) && value.closed) {
+        throw new RuntimeError('SUPERVISED BY a closed Channel would lose every exit record', this.getExpressionToken(expression.supervisor));
+      }
+      supervisor = value;
+    }
+
+    let restartLimit: number | undefined;
+    if (expression.restartLimit) {
+      restartLimit = toNumber(await this.evaluateExpression(expression.restartLimit), expression.token);
+      if (!Number.isInteger(restartLimit) || restartLimit < 0) {
+        throw new RuntimeError('RESTART ON ERROR count must be a non-negative integer', this.getExpressionToken(expression.restartLimit));
+      }
+    }
+
+    return { supervisor, restartLimit };
+  }
+
+  private resolveSpawnRoutine(routine: RuntimeValue, args: RuntimeValue[], token: Token): UserFunctionValue {
+    if (typeof routine === 'object' && routine !== null && 'kind' in routine && routine.kind === 'user-function') {
+      return routine as UserFunctionValue;
+    }
+
+    if (typeof routine !== 'string' || routine.length === 0) {
+      throw new RuntimeError('SPAWN expects a SUB/FUNCTION or its name', token);
+    }
+
+    const func = this.context.findBestFunction(routine, args.map(arg => this.getRuntimeValueType(arg)));
+    if (!func) {
+      throw new RuntimeError(`Unknown routine '${routine}' for SPAWN`, token);
+    }
+    return func;
+  }
+
+  private async executeSend(statement: SendStatementNode): Promise<StatementSignal | undefined> {
+    const target = await this.evaluateExpression(statement.target);
+    const message = await this.evaluateExpression(statement.message);
+
+    if (isChannelValue(target)) {
+      this.checkChannelElement(target, message, statement.token);
+      const accepted = await target.send(message, this.waitSignal());
+      this.throwIfStopped();
+      if (!accepted) {
+        throw new RuntimeError(`Cannot SEND on closed channel ${target.id}`, statement.token);
+      }
+      return undefined;
+    }
+
+    if (!isTaskValue(target)) {
+      throw new RuntimeError(`SEND target must be a Task or Channel, got ${typeof target}`, statement.token);
+    }
+
+    target.send(message);
+    return undefined;
+  }
+
+  private async executeBroadcast(statement: BroadcastStatementNode): Promise<StatementSignal | undefined> {
+    const target = await this.evaluateExpression(statement.target);
+    const message = await this.evaluateExpression(statement.message);
+
+    if (!isChannelValue(target)) {
+      throw new RuntimeError(`BROADCAST target must be a Channel, got ${typeof target}`, statement.token);
+    }
+
+    this.checkChannelElement(target, message, statement.token);
+    const delivered = await target.broadcast(message, this.waitSignal());
+    this.throwIfStopped();
+    if (!delivered) {
+      throw new RuntimeError(`Cannot BROADCAST on closed channel ${target.id}`, statement.token);
+    }
+    return undefined;
+  }
+
+  private checkChannelElement(channel: ChannelValue, message: RuntimeValue, token: Token): void {
+    const expected = channel.elementType;
+    if (!expected) {
+      return;
+    }
+
+    const actual = this.getRuntimeValueType(message);
+    let matches: boolean;
+    switch (expected.toUpperCase()) {
+      case 'ANY':
+        matches = true;
+        break;
+      case 'NUMBER':
+      case 'STRING':
+      case 'ARRAY':
+        matches = actual === expected.toUpperCase();
+        break;
+      case 'BOOL':
+      case 'BOOLEAN':
+        // Comparisons and TRUE/FALSE produce -1/0
+        matches = actual === 'BOOL' || actual === 'NUMBER';
+        break;
+      case 'RECORD':
+        matches = isRecordValue(message);
+        break;
+      default:
+        matches = actual === expected;
+    }
+
+    if (!matches) {
+      throw new RuntimeError(`Channel of ${expected} cannot carry ${actual}`, token);
+    }
+  }
+
+  private getTaskMember(task: TaskValue, memberName: string, token: Token): RuntimeValue | undefined {
+    switch (memberName.toUpperCase()) {
+      case 'MONITOR':
+        return createFunction('TASK.MONITOR', ([observer]) => {
+          if (observer === undefined || (!isTaskValue(observer) && !isChannelValue(observer))) {
+            throw new RuntimeError('MONITOR expects a Task or Channel to notify', token);
+          }
+          if (isChannelValue(observer) && observer.closed) {
+            throw new RuntimeError('MONITOR cannot notify a closed Channel', token);
+          }
+          task.monitor(observer);
+          return null;
+        }, 1);
+      case 'LINK':
+        return createFunction('TASK.LINK', ([other]) => {
+          if (other === undefined || !isTaskValue(other)) {
+            throw new RuntimeError('LINK expects a Task', token);
+          }
+          task.link(other);
+          return null;
+        }, 1);
+      case 'NAME':
+        return task.name;
+      case 'STATUS':
+        return task.status;
+      case 'ERROR':
+        return task.error ?? '';
+      case 'RESTARTS':
+        return task.restarts;
+      default:
+        return undefined;
+    }
+  }
+
+  private getChannelMember(channel: ChannelValue, memberName: string): RuntimeValue | undefined {
+    switch (memberName.toUpperCase()) {
+      case 'CLOSE':
+        return createFunction('CHANNEL.CLOSE', () => booleanToRuntime(channel.close()), 0);
+      case 'SUBSCRIBE':
+        return createFunction('CHANNEL.SUBSCRIBE', () => channel.subscribe(), 0);
+      case 'CLOSED':
+        return booleanToRuntime(channel.closed);
+      case 'COUNT':
+        return channel.buffer.length;
+      case 'CAPACITY':
+        return channel.capacity;
+      case 'SUBSCRIBERS':
+        return channel.subscriberCount;
+      default:
+        return undefined;
+    }
+  }
+
+  private async evaluateRecv(expression: RecvExpressionNode): Promise<RuntimeValue> {
+    let source = expression.source ? await this.evaluateExpression(expression.source) : undefined;
+    let timeoutValue = expression.timeout ? await this.evaluateExpression(expression.timeout) : undefined;
+
+    // RECEIVE(channel) parses its only argument as a timeout
+    if (source === undefined && timeoutValue !== undefined && isChannelValue(timeoutValue)) {
+      source = timeoutValue;
+      timeoutValue = undefined;
+    }
+    const timeout = timeoutValue === undefined ? undefined : toNumber(timeoutValue, expression.token);
+    const currentTask = this.context.getCurrentTask();
+
+    if (source !== undefined) {
+      if (!isChannelValue(source)) {
+        throw new RuntimeError(`RECEIVE source must be a Channel, got ${typeof source}`, expression.token);
+      }
+      const message = await source.receive(timeout, this.waitSignal());
+      this.throwIfStopped();
+      return message;
+    }
+
+    if (!currentTask) {
+      throw new RuntimeError('RECV can only be called from within a task', expression.token);
+    }
+
+    const message = await currentTask.receive(timeout, this.waitSignal());
+    this.throwIfStopped();
+    return message ?? null;
+  }
+
+  private async executeKill(statement: KillStatementNode): Promise<StatementSignal | undefined> {
+    const target = await this.evaluateExpression(statement.target);
+    if (!isTaskValue(target)) {
+      throw new RuntimeError(`KILL target must be a Task, got ${typeof target}`, statement.token);
+    }
+
+    target.kill();
+    if (target === this.context.getCurrentTask()) {
+      this.throwIfTaskKilled();
+    }
+    return undefined;
+  }
+
+  private async executeJoin(statement: JoinStatementNode): Promise<StatementSignal | undefined> {
+    for (const targetExpression of statement.targets) {
+      const target = await this.evaluateExpression(targetExpression);
+      if (!isTaskValue(target)) {
+        throw new RuntimeError(`JOIN target must be a Task, got ${typeof target}`, this.getExpressionToken(targetExpression));
+      }
+      if (target === this.context.getCurrentTask()) {
+        throw new RuntimeError('A task cannot JOIN itself', statement.token);
+      }
+      await this.interruptible(target.join());
+    }
+    return undefined;
+  }
+
+  private async evaluateAwait(expression: AwaitExpressionNode): Promise<RuntimeValue> {
+    const value = await this.evaluateExpression(expression.expression);
+    if (!isTaskValue(value)) {
+      // Host calls are already awaited, so AWAIT on a plain value is a no-op
+      return value;
+    }
 
-    // For backward compatibility, also add to routines
-    this.context.spawnRoutine(name);
+    if (value === this.context.getCurrentTask()) {
+      throw new RuntimeError('A task cannot AWAIT itself', expression.keyword);
+    }
 
-    const message = `Task ${name} spawned with ID ${task.id}`;
-    this.context.writePrint([message], 'newline');
+    await this.interruptible(value.join());
+    if (value.status === 'completed') {
+      return value.result ?? null;
+    }
 
-    // Return the task handle directly - BEAUTIFUL!
-    return task;
+    // Surface the task's failure in the awaiting code so TRY/CATCH can handle it
+    if (value.failure instanceof RuntimeError) {
+      throw value.failure;
+    }
+    throw new RuntimeError(value.error ?? `Task ${value.name} failed`, expression.keyword);
   }
 
-  private async executeSend(statement: SendStatementNode): Promise<StatementSignal | undefined> {
-    const target = await this.evaluateExpression(statement.target);
-    const message = await this.evaluateExpression(statement.message);
-
-    if (!isTaskValue(target)) {
-      throw new RuntimeError(`SEND target must be a Task, got ${typeof target}`, statement.token);
+  private throwIfTaskKilled(): void {
+    const task = this.context.getCurrentTask();
+    if (task && task.takeKillRequest()) {
+      throw new TaskKilledError(task);
     }
+  }
 
-    target.send(message);
+  private throwIfAborted(): void {
+    const { signal } = this.options;
+    if (signal?.aborted) {
+      throw new ExecutionAbortedError(signal.reason);
+    }
+  }
 
-    // Log the send operation for debugging
-    this.context.writePrint([`Message sent to task ${target.id}: ${toStringValue(message)}`], 'newline');
+  // After a wait that aborting the run or KILLing the current task may have cut short
+  private throwIfStopped(): void {
+    this.throwIfAborted();
+    this.throwIfTaskKilled();
+  }
 
-    return undefined;
+  // Aborts when the run's signal does or the current task is KILLed
+  private waitSignal(): AbortSignal | undefined {
+    const signals = [this.context.getCurrentTask()?.killSignal, this.options.signal]
+      .filter((signal): signal is AbortSignal => signal !== undefined);
+    return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
   }
 
-  private async evaluateRecv(expression: RecvExpressionNode): Promise<RuntimeValue> {
-    const currentTask = this.context.getCurrentTask();
-    if (!currentTask) {
-      throw new RuntimeError('RECV can only be called from within a task', expression.token);
+  /**
+   * Waits like RECV does: aborting the run or KILLing the current task ends the wait at once and
+   * unwinds, abandoning what it waited on. A task already unwinding from a KILL waits as usual, for
+   * its DEFERs, unless the run is aborted too.
+   */
+  private async interruptible<T>(wait: Promise<T>): Promise<T> {
+    this.throwIfStopped();
+    const task = this.context.getCurrentTask();
+    const signal = task?.killSignal.aborted ? this.options.signal : this.waitSignal();
+    if (!signal) {
+      return wait;
+    }
+    let onStop!: () => void;
+    const stopped = new Promise<undefined>((resolve) => {
+      onStop = () => resolve(undefined);
+    });
+    signal.addEventListener('abort', onStop, { once: true });
+    try {
+      const outcome = await Promise.race([wait.then((value) => ({ value })), stopped]);
+      if (outcome) {
+        return outcome.value;
+      }
+    } finally {
+      signal.removeEventListener('abort', onStop);
     }
+    this.throwIfStopped();
+    throw new TaskKilledError(task!);
+  }
 
-    const timeout = expression.timeout
-      ? toNumber(await this.evaluateExpression(expression.timeout), expression.token)
-      : undefined;
+  private debugLocation(statement: StatementNode): DebugLocation {
+    return {
+      statement,
+      callStack: this.callStack.slice(),
+      withStack: this.withStack.slice(),
+      variables: () => Object.fromEntries(
+        this.context.getVariableNames().map((name) => [name, this.context.getVariable(name)])
+      ),
+      evaluate: (expression) => this.evaluateExpression(parseExpression(expression))
+    };
+  }
 
-    const message = await currentTask.receive(timeout);
-    return message ?? null;
+  private async checkpoint(resumeAt: StatementPointer | undefined): Promise<void> {
+    this.statementsSinceYield += 1;
+    if (this.statementsSinceYield >= YIELD_INTERVAL) {
+      this.statementsSinceYield = 0;
+      await new Promise<void>((resolve) => setImmediate(resolve));
+    }
+    this.throwIfAborted();
+    await this.control?.checkpoint(!this.isTask, resumeAt);
   }
 
   private async executeTryCatch(
@@ -760,92 +1983,173 @@ class Evaluator {
     position: StatementPosition
   ): Promise<StatementSignal | undefined> {
     let trySignal: StatementSignal | undefined = undefined;
-    let errorValue: RuntimeValue | undefined = undefined;
+    let caught: RuntimeError | undefined = undefined;
 
     // Execute TRY block
     try {
-      for (const stmt of statement.tryBlock) {
-        const signal = await this.executeStatement(stmt, position);
-        if (signal) {
-          trySignal = signal;
-          break;
+      this.tryDepth += 1;
+      try {
+        for (const stmt of statement.tryBlock) {
+          const signal = await this.executeStatement(stmt, position);
+          if (signal) {
+            trySignal = signal;
+            break;
+          }
         }
+      } finally {
+        this.tryDepth -= 1;
       }
     } catch (error) {
-      // Caught an error - save it for CATCH block
-      if (error instanceof RuntimeError) {
-        errorValue = new RuntimeRecordValue('Error', [
-          ['message', error.message],
-          ['code', 0],
-          ['line', error.token?.line ?? null],
-          ['column', error.token?.column ?? null]
-        ]);
-      } else if (error instanceof Error) {
-        errorValue = new RuntimeRecordValue('Error', [
-          ['message', error.message],
-          ['code', 0]
-        ]);
-      } else {
-        errorValue = new RuntimeRecordValue('Error', [
-          ['message', String(error)],
-          ['code', 0]
-        ]);
+      if (error instanceof ExecutionAbortedError) {
+        throw error;
+      }
+      // A KILL or a break must unwind the whole fiber, running only FINALLY blocks on the way out
+      if (error instanceof TaskKilledError || error instanceof BreakInterrupt) {
+        if (statement.finallyBlock) {
+          for (const stmt of statement.finallyBlock) {
+            await this.executeStatement(stmt, position);
+          }
+        }
+        throw error;
       }
+      caught = error instanceof RuntimeError
+        ? error
+        : new RuntimeError(error instanceof Error ? error.message : String(error), statement.token);
+      this.attachCallStack(caught);
     }
 
-    // Execute CATCH block if there was an error and a catch clause exists
-    if (errorValue && statement.catchClause) {
-      // Set the catch variable
-      const savedVar = this.context.hasVariable(statement.catchClause.variable.name)
-        ? this.context.getVariable(statement.catchClause.variable.name)
-        : undefined;
-
-      this.context.setVariable(statement.catchClause.variable.name, errorValue, statement.token);
-
-      try {
-        for (const stmt of statement.catchClause.block) {
+    // An error no CATCH clause selects propagates unchanged once FINALLY has run
+    let unhandled = caught;
+    try {
+      const clause = caught ? this.selectCatchClause(statement, caught) : undefined;
+      if (caught && clause) {
+        unhandled = undefined;
+        trySignal = await this.executeCatchClause(clause, caught, position);
+      }
+    } finally {
+      if (statement.finallyBlock) {
+        for (const stmt of statement.finallyBlock) {
           const signal = await this.executeStatement(stmt, position);
           if (signal) {
             trySignal = signal;
             break;
           }
         }
-      } finally {
-        // Restore the catch variable
-        if (savedVar !== undefined) {
-          this.context.setVariable(statement.catchClause.variable.name, savedVar, statement.token);
-        }
       }
+    }
+
+    if (unhandled) {
+      throw unhandled;
+    }
+
+    return trySignal;
+  }
 
-      // Clear the error since it was handled
-      errorValue = undefined;
+  // First clause whose `AS` type matches; a bare CATCH e or CATCH e AS Error takes anything
+  private selectCatchClause(statement: TryCatchStatementNode, error: RuntimeError): CatchClauseNode | undefined {
+    for (const clause of statement.catchClauses) {
+      const errorType = clause.errorType;
+      if (!errorType || errorType.name === 'Error') {
+        return clause;
+      }
+      if (!this.context.getTypeDefinition(errorType.name)) {
+        throw new RuntimeError(`Unknown error type '${errorType.name}' in CATCH`, errorType.token);
+      }
+      if (errorType.name === error.typeName) {
+        return clause;
+      }
     }
+    return undefined;
+  }
+
+  private async executeCatchClause(
+    clause: CatchClauseNode,
+    error: RuntimeError,
+    position: StatementPosition
+  ): Promise<StatementSignal | undefined> {
+    const name = clause.variable.name;
+    const savedVar = this.context.hasVariable(name) ? this.context.getVariable(name) : undefined;
+    this.context.setVariable(name, this.createErrorRecord(error), clause.variable.token);
+    this.caughtErrors.push(error);
 
-    // Execute FINALLY block if present
-    if (statement.finallyBlock) {
-      for (const stmt of statement.finallyBlock) {
+    try {
+      for (const stmt of clause.block) {
         const signal = await this.executeStatement(stmt, position);
         if (signal) {
-          trySignal = signal;
-          break;
+          return signal;
         }
       }
+      return undefined;
+    } finally {
+      this.caughtErrors.pop();
+      // Restore the catch variable
+      if (savedVar !== undefined) {
+        this.context.setVariable(name, savedVar, clause.variable.token);
+      }
     }
+  }
 
-    // Re-throw error if it wasn't handled
-    if (errorValue) {
-      const message = errorValue.get('message');
-      throw new RuntimeError(toStringValue(message ?? 'Unknown error'), statement.token);
+  // The innermost handler to see an error records the frames active where it was raised
+  private attachCallStack(error: unknown): void {
+    if (error instanceof RuntimeError && !error.callStack) {
+      error.callStack = [...this.callStack];
     }
+  }
 
-    return trySignal;
+  // Raised records keep the fields they were given; location fields their TYPE declares are filled in
+  // only where the raising code left them empty
+  private createErrorRecord(error: RuntimeError): RuntimeRecordValue {
+    const origin: Record<string, RuntimeValue> = {
+      Line: error.token.line,
+      Column: error.token.column,
+      Source: error.token.file ?? '',
+      Stack: error.stackTrace.join('\n')
+    };
+    if (error.value) {
+      return new RuntimeRecordValue(
+        error.value.typeName,
+        error.value.entries().map(([field, value]): [string, RuntimeValue] => [
+          field,
+          field in origin && (value === 0 || value === '' || value === null) ? origin[field]! : value
+        ])
+      );
+    }
+    return new RuntimeRecordValue('Error', [
+      ['Message', error.detail],
+      ['Code', error.code],
+      ...Object.entries(origin)
+    ]);
   }
 
   private async executeError(statement: ErrorStatementNode): Promise<StatementSignal | undefined> {
     const message = await this.evaluateExpression(statement.message);
+    // ERROR 53 raises a numbered error, as ON ERROR handlers expect
+    if (typeof message === 'number') {
+      throw new RuntimeError(`Error ${message}`, statement.token, message);
+    }
+    // ERROR NotFound { ... } raises a typed error that CATCH e AS NotFound selects
+    if (isRecordValue(message)) {
+      const detail = message.get('Message');
+      const code = message.get('Code');
+      throw new RuntimeError(
+        typeof detail === 'string' && detail !== '' ? detail : message.typeName,
+        statement.token,
+        typeof code === 'number' ? code : ErrorCode.IllegalFunctionCall,
+        message
+      );
+    }
     throw new RuntimeError(toStringValue(message), statement.token);
   }
 
+  // Rethrows the very error object being handled, so its origin and stack are preserved
+  private executeRethrow(statement: RethrowStatementNode): Promise<StatementSignal | undefined> {
+    const error = this.caughtErrors[this.caughtErrors.length - 1];
+    if (!error) {
+      throw new RuntimeError('RETHROW outside of CATCH', statement.token);
+    }
+    throw error;
+  }
+
   private async executeDeferStatement(
     statement: DeferStatementNode,
     position: StatementPosition
@@ -975,7 +2279,7 @@ class Evaluator {
     }
 
     // Get input from the host environment
-    const input = await this.context.readInput();
+    const input = await this.interruptible(this.context.readInput());
 
     // Store the input in the variable
     const varName = statement.variable.name;
@@ -1005,8 +2309,9 @@ class Evaluator {
   ): Promise<StatementSignal | undefined> {
     const condition = await this.evaluateExpression(statement.condition);
     const branch = truthy(condition) ? statement.thenBranch : statement.elseBranch ?? [];
+    const inline = branch[0]?.token.line === statement.token.line;
     for (const nested of branch) {
-      const signal = await this.executeStatement(nested, position);
+      const signal = await this.executeStatement(nested, position, !inline);
       if (signal) {
         return signal;
       }
@@ -1038,6 +2343,30 @@ class Evaluator {
     throw new RuntimeError('Cannot assign to property of non-record value', target.field.token);
   }
 
+  private async assignToIndex(target: IndexExpressionNode, value: RuntimeValue): Promise<void> {
+    const objectValue = await this.evaluateExpression(target.object);
+    const indexValue = await this.evaluateExpression(target.index);
+    const indexToken = this.getExpressionToken(target.index);
+
+    if (Array.isArray(objectValue)) {
+      objectValue[this.resolveArrayIndex(objectValue, indexValue, indexToken)] = value;
+      return;
+    }
+
+    if (isRecordValue(objectValue)) {
+      if (typeof indexValue !== 'string') {
+        throw new RuntimeError('Record index must be a string', indexToken);
+      }
+      if (!objectValue.has(indexValue)) {
+        throw new RuntimeError(`Record does not have field '${indexValue}'`, indexToken);
+      }
+      objectValue.set(indexValue, value);
+      return;
+    }
+
+    throw new RuntimeError('Index assignment is not supported for this value', this.getExpressionToken(target.object));
+  }
+
   private async assignToMember(target: MemberExpressionNode, value: RuntimeValue): Promise<void> {
     // For member assignment like p.x = 5, we need to:
     // 1. If target.object is an Identifier, get the variable directly (not a copy)
@@ -1048,10 +2377,10 @@ class Evaluator {
       const recordValue = this.context.getVariable(target.object.name);
 
       if (isRecordValue(recordValue)) {
-        const fieldName = target.property.name;
-        if (!recordValue.has(fieldName)) {
+        const fieldName = recordValue.fieldName(target.property.name);
+        if (fieldName === undefined) {
           throw new RuntimeError(
-            `Type '${recordValue.typeName}' has no field '${fieldName}'`,
+            `Type '${recordValue.typeName}' has no field '${target.property.name}'`,
             target.property.token
           );
         }
@@ -1064,10 +2393,10 @@ class Evaluator {
     const objectValue = await this.evaluateExpression(target.object);
 
     if (isRecordValue(objectValue)) {
-      const fieldName = target.property.name;
-      if (!objectValue.has(fieldName)) {
+      const fieldName = objectValue.fieldName(target.property.name);
+      if (fieldName === undefined) {
         throw new RuntimeError(
-          `Type '${objectValue.typeName}' has no field '${fieldName}'`,
+          `Type '${objectValue.typeName}' has no field '${target.property.name}'`,
           target.property.token
         );
       }
@@ -1107,7 +2436,7 @@ class Evaluator {
       case 'IndexExpression':
         return this.evaluateIndexExpression(expression);
       case 'AwaitExpression':
-        throw new RuntimeError('AWAIT is not supported in this context', expression.keyword);
+        return this.evaluateAwait(expression);
       case 'RecvExpression':
         return this.evaluateRecv(expression);
       case 'SpawnExpression':
@@ -1132,7 +2461,7 @@ class Evaluator {
     const typeDefinition = this.context.getTypeDefinition(typeName);
 
     if (!typeDefinition) {
-      throw new RuntimeError(`Unknown type '${typeName}'`, expression.typeName.token);
+      throw this.unknownNameError(`Unknown type '${typeName}'`, expression.typeName.token, typeName, this.context.getTypeNames());
     }
 
     const providedValues = new Map<string, RuntimeValue>();
@@ -1244,11 +2573,7 @@ class Evaluator {
         const args = await Promise.all(
           expression.args.map(arg => this.evaluateExpression(arg))
         );
-        try {
-          return await newMethod.invoke(args, this.makeHostFunctionContext(expression.token));
-        } catch (error) {
-          throw this.wrapHostError(error, expression.token);
-        }
+        return this.invokeHostFunction(newMethod, args, expression.token);
       }
     }
 
@@ -1292,27 +2617,7 @@ class Evaluator {
       return this.executeUserFunction(constructorFunc as any, args, expression.token, savedScope);
     }
 
-    throw new RuntimeError(`Unknown type or constructor '${typeName}'`, expression.token);
-  }
-
-  private levenshteinDistance(a: string, b: string): number {
-    const matrix = Array(b.length + 1).fill(null).map(() => Array(a.length + 1).fill(null));
-
-    for (let i = 0; i <= a.length; i++) matrix[0][i] = i;
-    for (let j = 0; j <= b.length; j++) matrix[j][0] = j;
-
-    for (let j = 1; j <= b.length; j++) {
-      for (let i = 1; i <= a.length; i++) {
-        const indicator = a[i - 1] === b[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1,     // deletion
-          matrix[j - 1][i] + 1,     // insertion
-          matrix[j - 1][i - 1] + indicator  // substitution
-        );
-      }
-    }
-
-    return matrix[b.length][a.length];
+    throw this.unknownNameError(`Unknown type or constructor '${typeName}'`, expression.token, typeName, this.context.getTypeNames());
   }
 
   private getRuntimeValueType(value: RuntimeValue): string {
@@ -1321,43 +2626,26 @@ class Evaluator {
     if (typeof value === 'boolean') return 'BOOL';
     if (Array.isArray(value)) return 'ARRAY';
     if (isRecordValue(value)) return value.typeName;
+    if (isChannelValue(value)) return 'CHANNEL';
     if (typeof value === 'object' && value !== null && 'kind' in value) {
       return (value as any).kind;
     }
     return 'ANY';
   }
 
-  private getDidYouMeanSuggestion(methodName: string, objectTypeName: string): string {
-    const suggestions: string[] = [];
-
-    // Check user-defined functions
-    const allFunctionNames = this.context.getAllFunctionNames();
-    for (const name of allFunctionNames) {
-      const distance = this.levenshteinDistance(methodName.toLowerCase(), name.toLowerCase());
-      if (distance <= 2 && distance > 0) {
-        suggestions.push(name);
-      }
-    }
-
-    // Check host namespace functions
-    const hostEnvironments = ['CANVAS', 'MATH', 'STRING', 'ARRAY', 'HTTP', 'TIME', 'SYS'];
-    for (const nsName of hostEnvironments) {
-      const namespace = this.hostEnvironment.get(nsName);
-      if (namespace && isHostNamespace(namespace)) {
-        const members = (namespace as any).listMembers?.() || [];
-        for (const memberName of members) {
-          const distance = this.levenshteinDistance(methodName.toLowerCase(), memberName.toLowerCase());
-          if (distance <= 2 && distance > 0) {
-            suggestions.push(memberName);
-          }
-        }
-      }
+  // Candidate names for a misspelled UFCS call: user routines and host namespace functions
+  private getCallableNames(): string[] {
+    const names = this.context.getAllFunctionNames();
+    for (const namespace of this.hostEnvironment.getAllNamespaces()) {
+      names.push(...namespace.listMembers().filter((member) => isHostFunction(namespace.getMember(member))));
     }
+    return names;
+  }
 
-    if (suggestions.length > 0) {
-      return ` (did you mean: ${suggestions.slice(0, 3).join(', ')}?)`;
-    }
-    return '';
+  private unknownNameError(message: string, token: Token, name: string, candidates: Iterable<string>): RuntimeError {
+    const error = new RuntimeError(message, token);
+    error.suggestions = suggestNames(name, candidates);
+    return error;
   }
 
   private async evaluateMemberExpression(expression: MemberExpressionNode): Promise<RuntimeValue> {
@@ -1366,9 +2654,11 @@ class Evaluator {
     if (isHostNamespace(objectValue)) {
       const member = objectValue.getMember(expression.property.name);
       if (typeof member === 'undefined') {
-        throw new RuntimeError(
+        throw this.unknownNameError(
           `Unknown member '${expression.property.name}' on ${objectValue.name}`,
-          expression.property.token
+          expression.property.token,
+          expression.property.name,
+          objectValue.listMembers()
         );
       }
       return member as RuntimeValue;
@@ -1378,8 +2668,9 @@ class Evaluator {
       const fieldName = expression.property.name;
 
       // First, check if it's a field
-      if (objectValue.has(fieldName)) {
-        return objectValue.get(fieldName)!;
+      const field = objectValue.fieldName(fieldName);
+      if (field !== undefined) {
+        return objectValue.get(field)!;
       }
 
       // Check for property getter
@@ -1421,16 +2712,31 @@ class Evaluator {
         }
       }
 
-      const didYouMean = this.getDidYouMeanSuggestion(fieldName, objectValue.typeName);
-      throw new RuntimeError(
-        `No function '${fieldName}' matches receiver type ${objectValue.typeName} (tried: field, free function, block)${didYouMean}`,
-        expression.property.token
+      throw this.unknownNameError(
+        `No function '${fieldName}' matches receiver type ${objectValue.typeName} (tried: field, free function, block)`,
+        expression.property.token,
+        fieldName,
+        [...objectValue.entries().map(([name]) => name), ...this.getCallableNames()]
       );
     }
 
     // Try UFCS for any value - look for a function or host namespace member
     const memberName = expression.property.name;
 
+    if (isChannelValue(objectValue)) {
+      const member = this.getChannelMember(objectValue, memberName);
+      if (member !== undefined) {
+        return member;
+      }
+    }
+
+    if (isTaskValue(objectValue)) {
+      const member = this.getTaskMember(objectValue, memberName, expression.property.token);
+      if (member !== undefined) {
+        return member;
+      }
+    }
+
     // First check for user-defined functions with overloading
     const objectType = this.getRuntimeValueType(objectValue);
     const bestFunction = this.context.findBestFunction(memberName, [objectType]);
@@ -1458,13 +2764,24 @@ class Evaluator {
       }
     }
 
+    // An undefined name reads as 0 or "", so a misspelt namespace or record variable lands here
+    if (expression.object.type === 'Identifier' && !this.context.hasVariable(expression.object.name) &&
+        this.hostEnvironment.get(expression.object.name) === undefined) {
+      const name = expression.object.name;
+      throw this.unknownNameError(`Unknown variable or namespace '${name}'`, expression.object.token, name, [
+        ...this.context.getVariableNames(),
+        ...this.hostEnvironment.getAllNamespaces().map((namespace) => namespace.name)
+      ]);
+    }
+
     const objectTypeName = typeof objectValue === 'object' && objectValue !== null && 'typeName' in objectValue
       ? objectValue.typeName as string
       : typeof objectValue;
-    const didYouMean = this.getDidYouMeanSuggestion(memberName, objectTypeName);
-    throw new RuntimeError(
-      `No function '${memberName}' matches receiver type ${objectTypeName} (tried: field, free function, block)${didYouMean}`,
-      expression.property.token
+    throw this.unknownNameError(
+      `No function '${memberName}' matches receiver type ${objectTypeName} (tried: field, free function, block)`,
+      expression.property.token,
+      memberName,
+      this.getCallableNames()
     );
   }
 
@@ -1474,14 +2791,7 @@ class Evaluator {
 
     // Handle array indexing
     if (Array.isArray(objectValue)) {
-      if (typeof indexValue !== 'number') {
-        throw new RuntimeError('Array index must be a number', this.getExpressionToken(expression.index));
-      }
-      const index = Math.floor(indexValue);
-      if (index < 0 || index >= objectValue.length) {
-        throw new RuntimeError(`Array index ${index} out of bounds (length: ${objectValue.length})`, this.getExpressionToken(expression.index));
-      }
-      return objectValue[index];
+      return objectValue[this.resolveArrayIndex(objectValue, indexValue, this.getExpressionToken(expression.index))];
     }
 
     // Handle record/object indexing
@@ -1498,9 +2808,46 @@ class Evaluator {
     throw new RuntimeError('Index access is not supported for this value', this.getExpressionToken(expression.object));
   }
 
+  // Maps a BASIC subscript onto the backing array, honouring DIM lower bounds
+  private resolveArrayIndex(array: RuntimeValue[], indexValue: RuntimeValue, token: Token): number {
+    if (typeof indexValue !== 'number') {
+      throw new RuntimeError('Array index must be a number', token);
+    }
+    const subscript = Math.floor(indexValue);
+    const bounds = dimensionedArrays.get(array);
+    if (!bounds) {
+      if (subscript < 0 || subscript >= array.length) {
+        throw new RuntimeError(`Array index ${subscript} out of bounds (length: ${array.length})`, token, ErrorCode.SubscriptOutOfRange);
+      }
+      return subscript;
+    }
+    const index = subscript - bounds.lower;
+    if (index < 0 || index >= array.length) {
+      throw new RuntimeError(
+        `Array index ${subscript} out of bounds (${bounds.lower} TO ${bounds.lower + array.length - 1})`,
+        token,
+        ErrorCode.SubscriptOutOfRange
+      );
+    }
+    return index;
+  }
+
   private async evaluateCallExpression(expression: CallExpressionNode): Promise<RuntimeValue> {
     const callee = await this.evaluateExpression(expression.callee);
 
+    // grid(x, y) on an array the parser did not see DIMmed, such as a routine parameter
+    if (Array.isArray(callee)) {
+      let element: RuntimeValue = callee;
+      for (const arg of expression.args) {
+        if (!Array.isArray(element)) {
+          throw new RuntimeError('Too many array subscripts', this.getExpressionToken(arg));
+        }
+        const index = this.resolveArrayIndex(element, await this.evaluateExpression(arg), this.getExpressionToken(arg));
+        element = element[index];
+      }
+      return element;
+    }
+
     // We need to check if this is a user function to handle REF parameters
     // Save the scope once here and pass it through to avoid creating multiple copies
     let args: RuntimeValue[];
@@ -1720,9 +3067,9 @@ class Evaluator {
   }
 
   private ensureWithinStepBudget(token: Token): void {
-    this.stepCount += 1;
+    this.steps.taken += 1;
     const { maxSteps } = this.options;
-    if (typeof maxSteps === 'number' && this.stepCount > maxSteps) {
+    if (typeof maxSteps === 'number' && this.steps.taken > maxSteps) {
       throw new RuntimeError('Exceeded maximum execution steps', token);
     }
   }
@@ -1885,12 +3232,9 @@ class Evaluator {
       // Execute the body statements
       for (const stmt of statement.body) {
         const signal = await this.executeStatement(stmt, position);
-        if (signal) {
-          // Handle control flow signals
-          if (signal.type === 'return' || signal.type === 'halt') {
-            return signal;
-          }
-          // For now, ignore other signals like 'jump' within WHILE body
+        // GOTO, RETURN and END leave the loop
+        if (signal && signal.type !== 'break' && signal.type !== 'continue') {
+          return signal;
         }
       }
     }
@@ -1907,12 +3251,9 @@ class Evaluator {
       // Execute the body statements
       for (const stmt of statement.body) {
         const signal = await this.executeStatement(stmt, position);
-        if (signal) {
-          // Handle control flow signals
-          if (signal.type === 'return' || signal.type === 'halt') {
-            return signal;
-          }
-          // For now, ignore other signals like 'jump' within DO-WHILE body
+        // GOTO, RETURN and END leave the loop
+        if (signal && signal.type !== 'break' && signal.type !== 'continue') {
+          return signal;
         }
       }
 
@@ -2122,6 +3463,117 @@ class Evaluator {
     return undefined;
   }
 
+  private async executeSelectReceive(
+    statement: SelectReceiveStatementNode,
+    position: StatementPosition
+  ): Promise<StatementSignal | undefined> {
+    const currentTask = this.context.getCurrentTask();
+    const sources: Array<TaskValue | ChannelValue> = [];
+    for (const caseClause of statement.cases) {
+      if (!caseClause.source) {
+        if (!currentTask) {
+          throw new RuntimeError('CASE without FROM receives from the task mailbox, so it needs a task', caseClause.target.token);
+        }
+        sources.push(currentTask);
+        continue;
+      }
+
+      const source = await this.evaluateExpression(caseClause.source);
+      if (!isChannelValue(source)) {
+        throw new RuntimeError(
+          `SELECT RECEIVE source must be a Channel, got ${typeof source}`,
+          this.getExpressionToken(caseClause.source)
+        );
+      }
+      sources.push(source);
+    }
+
+    // CASE ELSE turns the SELECT into a poll
+    const timeout = statement.elseCase
+      ? 0
+      : statement.timeout
+        ? toNumber(await this.evaluateExpression(statement.timeout.duration), statement.token)
+        : undefined;
+
+    const received = await this.receiveFromFirst(sources, timeout);
+    this.throwIfStopped();
+
+    let body: StatementNode[];
+    if (received) {
+      const caseClause = statement.cases[received.index]!;
+      this.context.setVariable(caseClause.target.name, received.message, caseClause.target.token);
+      body = caseClause.statements;
+    } else {
+      body = statement.timeout?.statements ?? statement.elseCase ?? [];
+    }
+
+    for (const stmt of body) {
+      const signal = await this.executeStatement(stmt, position);
+      if (signal) {
+        return signal;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Wait on every source at once and take a message from whichever delivers first. Losing
+   * sources keep their messages; resolves undefined on timeout, KILL or abort.
+   */
+  private receiveFromFirst(
+    sources: ReadonlyArray<TaskValue | ChannelValue>,
+    timeout: number | undefined
+  ): Promise<{ index: number; message: RuntimeValue } | undefined> {
+    const stopSignal = this.waitSignal();
+    const withdraw = new AbortController();
+    let winner = -1;
+
+    return new Promise((resolve) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const finish = (received: { index: number; message: RuntimeValue } | undefined) => {
+        if (timer !== undefined) {
+          clearTimeout(timer);
+        }
+        stopSignal?.removeEventListener('abort', expire);
+        withdraw.abort(); // Remove the losing waiters from their queues
+        resolve(received);
+      };
+      const expire = () => {
+        if (winner === -1) {
+          winner = sources.length;
+          finish(undefined);
+        }
+      };
+
+      sources.forEach((source, index) => {
+        const claim = () => {
+          if (winner !== -1) {
+            return false;
+          }
+          winner = index;
+          return true;
+        };
+        void source.receive(undefined, withdraw.signal, claim).then((message) => {
+          if (winner === index) {
+            finish({ index, message });
+          }
+        });
+      });
+
+      if (winner !== -1) {
+        return; // A source already had a message
+      }
+      if (timeout === 0 || stopSignal?.aborted) {
+        expire();
+        return;
+      }
+      if (timeout !== undefined) {
+        timer = setTimeout(expire, timeout);
+      }
+      stopSignal?.addEventListener('abort', expire, { once: true });
+    });
+  }
+
   private areValuesEqual(a: RuntimeValue, b: RuntimeValue): boolean {
     // Simple equality check for runtime values
     if (a === b) return true;
@@ -2147,7 +3599,19 @@ class Evaluator {
     return a === b;
   }
 
-  private async executeReturn(statement: ReturnStatementNode): Promise<StatementSignal> {
+  private async executeReturn(statement: ReturnStatementNode, position: StatementPosition): Promise<StatementSignal> {
+    // Outside routines RETURN resumes after the most recent GOSUB
+    if (position.lineIndex >= 0) {
+      if (statement.value) {
+        throw new RuntimeError('RETURN with a value is only allowed inside FUNCTION', statement.token);
+      }
+      const resume = this.gosubStack.pop();
+      if (!resume) {
+        throw new RuntimeError('RETURN without GOSUB', statement.token, ErrorCode.ReturnWithoutGosub);
+      }
+      return { type: 'jump', targetLineIndex: resume.lineIndex, targetStatementIndex: resume.statementIndex };
+    }
+
     // Function/Sub return
     let value: RuntimeValue = null;
     if (statement.value) {
@@ -2162,6 +3626,14 @@ class Evaluator {
       return this.context.getVariable(identifier.name);
     }
 
+    // ERR and ERL describe the error an ON ERROR handler is servicing, and are 0 otherwise
+    if (identifier.name === 'ERR') {
+      return this.trappedError?.error.code ?? 0;
+    }
+    if (identifier.name === 'ERL') {
+      return this.trappedError?.line ?? 0;
+    }
+
     const hostEntry = this.hostEnvironment.get(identifier.name);
     if (typeof hostEntry !== 'undefined') {
       return hostEntry as RuntimeValue;
@@ -2177,11 +3649,7 @@ class Evaluator {
     savedScope?: Map<string, RuntimeValue>
   ): Promise<RuntimeValue> {
     if (isHostFunction(callee)) {
-      try {
-        return await callee.invoke(args, this.makeHostFunctionContext(token));
-      } catch (error) {
-        throw this.wrapHostError(error, token);
-      }
+      return this.invokeHostFunction(callee, args, token);
     }
 
     // Check for bound functions (UFCS)
@@ -2200,11 +3668,7 @@ class Evaluator {
       const bound = callee as any; // We'll use 'any' since we defined the interface
       // Insert the bound object as the first argument
       const fullArgs = [bound.boundThis, ...args];
-      try {
-        return await bound.func.invoke(fullArgs, this.makeHostFunctionContext(token));
-      } catch (error) {
-        throw this.wrapHostError(error, token);
-      }
+      return this.invokeHostFunction(bound.func, fullArgs, token);
     }
 
     // Check for user-defined functions
@@ -2218,7 +3682,7 @@ class Evaluator {
     throw new RuntimeError('Value is not callable', token);
   }
 
-  private async executeUserFunction(
+  public async executeUserFunction(
     func: UserFunctionValue,
     args: RuntimeValue[],
     token: Token,
@@ -2234,6 +3698,8 @@ class Evaluator {
     // Also save the DEFER scope to isolate function-level defers
     const callerDeferScope = this.context.saveDeferScope();
     this.context.deferStack = []; // Start fresh defer stack for this function
+    this.callStack.push({ name: func.name, callSite: token, module: this.moduleName });
+    this.options.profiler?.enter(this.moduleName ? `${this.moduleName}.${func.name}` : func.name, 'user', this.context.getCurrentTask());
 
     try {
       // Bind parameters to arguments
@@ -2305,10 +3771,15 @@ class Evaluator {
 
       // If no explicit return, return null
       return func.isSub ? null : null;
+    } catch (error) {
+      this.attachCallStack(error);
+      throw error;
     } finally {
+      this.callStack.pop();
       // Execute deferred operations in LIFO order BEFORE restoring scope
       // This ensures the deferred operations have access to the function's variables
       await this.executeDeferStack();
+      this.options.profiler?.exit(this.context.getCurrentTask());
 
       // Only AFTER executing defers, restore parameter scope (preserving global variable changes)
       this.context.restoreFunctionScope(savedParameterScope);
@@ -2316,6 +3787,17 @@ class Evaluator {
     }
   }
 
+  private async invokeHostFunction(func: HostFunctionValue, args: RuntimeValue[], token: Token): Promise<RuntimeValue> {
+    this.options.profiler?.enter(func.name, 'host', this.context.getCurrentTask());
+    try {
+      return await this.interruptible(func.invoke(args, this.makeHostFunctionContext(token)));
+    } catch (error) {
+      throw this.wrapHostError(error, token);
+    } finally {
+      this.options.profiler?.exit(this.context.getCurrentTask());
+    }
+  }
+
   private async executeGeneratedAIFunction(func: UserFunctionValue, token: Token): Promise<RuntimeValue> {
     const meta = func.aiMeta!;
     const assistantValue = this.context.getVariable(meta.selfParameterName);
@@ -2740,15 +4222,31 @@ class Evaluator {
 
   private makeHostFunctionContext(token: Token): HostFunctionContext {
     return {
+      callSite: token,
       getVariable: (name) => this.context.getVariable(name),
       setVariable: (name, value) => this.context.setVariable(name, value, token)
     };
   }
 
   private wrapHostError(error: unknown, token: Token): RuntimeError {
+    if (error instanceof ExecutionAbortedError || error instanceof BreakInterrupt || error instanceof TaskKilledError) {
+      throw error; // Stopped inside a BASIC callback the host function was running, or while waiting on it
+    }
     if (error instanceof RuntimeError) {
       return error;
     }
+    if (error instanceof HostError) {
+      const typeDefinition = this.context.getTypeDefinition(error.typeName);
+      const record = typeDefinition
+        ? instantiateType(typeDefinition, [])
+        : new RuntimeRecordValue(error.typeName, []);
+      record.set('Message', error.message);
+      record.set('Code', ErrorCode.IllegalFunctionCall);
+      for (const [field, value] of Object.entries(error.fields)) {
+        record.set(field, value);
+      }
+      return new RuntimeError(error.message, token, ErrorCode.IllegalFunctionCall, record);
+    }
     const message = error instanceof Error ? error.message : String(error);
     return new RuntimeError(`Host function error: ${message}`, token);
   }
@@ -2810,6 +4308,7 @@ interface StatementSignalJump {
 interface StatementSignalHalt {
   readonly type: 'halt';
   readonly reason: 'END' | 'STOP';
+  readonly resumeAt?: StatementPointer; // Where CONT carries on after a STOP, if anywhere
 }
 
 interface StatementSignalReturn {
@@ -2832,6 +4331,12 @@ interface StatementPointer {
   readonly statementIndex: number;
 }
 
+interface TrappedError {
+  readonly error: RuntimeError;
+  readonly line: number; // BASIC line number, or the source line in unnumbered programs
+  readonly resumeAt: StatementPointer; // Statement that failed
+}
+
 interface ForBinding {
   readonly nextPointer: StatementPointer;
   readonly afterNextPointer: StatementPointer;
@@ -2840,6 +4345,10 @@ interface ForBinding {
 
 interface StatementPosition extends StatementPointer {}
 
+// Line indices that RETURN and RESUME jump to when the GOSUB or trapped error came from inside a block
+const RETURN_TO_BLOCK = -1;
+const RESUME_IN_BLOCK = -2;
+
 interface ForFrame {
   readonly iteratorName: string;
   readonly iteratorKey: string;
@@ -2915,6 +4424,70 @@ function defaultValueForField(typeName: string, fieldName: string, annotation: T
   return defaultValueForTypeAnnotation(annotation);
 }
 
+// Fill fields in declaration order, defaulting any the arguments do not cover
+function instantiateType(typeDefinition: RuntimeTypeDefinition, args: readonly RuntimeValue[]): RuntimeRecordValue {
+  return new RuntimeRecordValue(typeDefinition.name, typeDefinition.fieldOrder.map((fieldName, index): [string, RuntimeValue] => [
+    fieldName,
+    index < args.length
+      ? args[index]!
+      : defaultValueForField(typeDefinition.name, fieldName, typeDefinition.fields.get(fieldName)!.annotation)
+  ]));
+}
+
+interface ArrayBounds {
+  readonly lower: number;
+  readonly upper: number;
+}
+
+interface DimensionedArray {
+  readonly lower: number;
+  readonly createElement: () => RuntimeValue; // Default for slots added by REDIM PRESERVE
+}
+
+// Arrays created by DIM/REDIM; literal arrays are absent and index from 0
+const dimensionedArrays = new WeakMap<RuntimeValue[], DimensionedArray>();
+
+function createDimensionedArray(bounds: readonly ArrayBounds[], createElement: () => RuntimeValue): RuntimeValue[] {
+  const [dimension, ...rest] = bounds;
+  const array: RuntimeValue[] = [];
+  for (let subscript = dimension!.lower; subscript <= dimension!.upper; subscript += 1) {
+    array.push(rest.length > 0 ? createDimensionedArray(rest, createElement) : createElement());
+  }
+  dimensionedArrays.set(array, { lower: dimension!.lower, createElement });
+  return array;
+}
+
+function getArrayRank(array: RuntimeValue[]): number {
+  let rank = 0;
+  let current: RuntimeValue = array;
+  while (Array.isArray(current) && dimensionedArrays.has(current)) {
+    rank += 1;
+    current = current[0];
+  }
+  return rank;
+}
+
+// Copies elements whose subscripts exist in both arrays, matching by subscript rather than position
+function copyArrayElements(source: RuntimeValue[], target: RuntimeValue[]): void {
+  const sourceLower = dimensionedArrays.get(source)?.lower ?? 0;
+  const targetLower = dimensionedArrays.get(target)?.lower ?? 0;
+  source.forEach((element, position) => {
+    const targetPosition = position + sourceLower - targetLower;
+    if (targetPosition < 0 || targetPosition >= target.length) {
+      return;
+    }
+    const slot = target[targetPosition];
+    if (Array.isArray(slot) && dimensionedArrays.has(slot) && Array.isArray(element)) {
+      copyArrayElements(element, slot);
+    } else {
+      target[targetPosition] = element;
+    }
+  });
+}
+
+// Scalar and container types an AS clause may name besides record TYPEs and CHANNEL
+export const BUILT_IN_TYPE_NAMES = new Set(['STRING', 'NUMBER', 'BOOL', 'BOOLEAN', 'ARRAY', 'RECORD', 'ANY']);
+
 function defaultValueForTypeAnnotation(annotation: TypeAnnotationNode): RuntimeValue {
   const typeName = annotation.name.toUpperCase();
 
@@ -2937,7 +4510,8 @@ function defaultValueForTypeAnnotation(annotation: TypeAnnotationNode): RuntimeV
   }
 }
 
-function runtimeValueToString(value: RuntimeValue): string {
+// The text PRINT shows for a value
+export function runtimeValueToString(value: RuntimeValue): string {
   if (typeof value === 'number') {
     return Number.isInteger(value) ? value.toString() : value.toString();
   }
@@ -2960,10 +4534,14 @@ function runtimeValueToString(value: RuntimeValue): string {
       .join(', ');
     return `${value.typeName} { ${inner} }`;
   }
+  if (isChannelValue(value)) {
+    return `[Channel ${value.elementType ?? 'ANY'}]`;
+  }
   return hostValueToString(value);
 }
 
-function truthy(value: RuntimeValue): boolean {
+// How IF, WHILE and the logical operators read a value as a condition
+export function truthy(value: RuntimeValue): boolean {
   if (typeof value === 'number') {
     return value !== 0;
   }
@@ -3021,20 +4599,20 @@ function toNumber(value: RuntimeValue, token: Token): number {
   if (typeof value === 'string') {
     const parsed = Number(value);
     if (Number.isNaN(parsed)) {
-      throw new RuntimeError(`Cannot convert '${value}' to number`, token);
+      throw new RuntimeError(`Cannot convert '${value}' to number`, token, ErrorCode.TypeMismatch);
     }
     return parsed;
   }
   if (Array.isArray(value)) {
-    throw new RuntimeError('Cannot convert array to number', token);
+    throw new RuntimeError('Cannot convert array to number', token, ErrorCode.TypeMismatch);
   }
   if (value === null) {
-    throw new RuntimeError('Cannot convert NULL to number', token);
+    throw new RuntimeError('Cannot convert NULL to number', token, ErrorCode.TypeMismatch);
   }
   if (isRecordValue(value)) {
-    throw new RuntimeError('Cannot convert record to number', token);
+    throw new RuntimeError('Cannot convert record to number', token, ErrorCode.TypeMismatch);
   }
-  throw new RuntimeError('Cannot convert host value to number', token);
+  throw new RuntimeError('Cannot convert host value to number', token, ErrorCode.TypeMismatch);
 }
 
 function equals(left: RuntimeValue, right: RuntimeValue): boolean {
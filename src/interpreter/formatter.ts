@@ -0,0 +1,843 @@
+import type {
+  AIFuncDeclarationNode,
+  AIFuncExpectNode,
+  AIFuncLengthClause,
+  ArrayBoundsNode,
+  ExpressionNode,
+  IfStatementNode,
+  LineTargetNode,
+  ParameterNode,
+  ProgramNode,
+  RecordLiteralNode,
+  StatementNode,
+  TypeAnnotationNode
+} from './ast.js';
+import { ParseError, parseTokens } from './parser.js';
+import { TokenType, tokenize, type Token } from './tokenizer.js';
+
+export interface FormatOptions {
+  readonly indent?: number; // Spaces per block level, default 2
+  // keep: leave line numbers as written; renumber: number every line from renumberStart by renumberStep and
+  // rewrite jump targets; remove: drop every number that no GOTO, GOSUB, RESUME or RESTORE refers to
+  readonly lineNumbers?: 'keep' | 'renumber' | 'remove';
+  readonly renumberStart?: number; // Default 10
+  readonly renumberStep?: number; // Default 10
+}
+
+/**
+ * Reformat BASIC source canonically: block bodies indented, one space around binary operators, comments
+ * and single blank lines kept where they were. Formatting is idempotent and throws on syntax errors.
+ */
+export function formatSource(source: string, options: FormatOptions = {}): string {
+  const tokens = tokenize(source, { includeComments: true });
+  const program = parseTokens(tokens.filter((token) => token.type !== TokenType.Comment), { foldConstants: false });
+  return formatProgram(program, tokens, options);
+}
+
+/**
+ * Print a program back to source. `tokens` must be the ones it was parsed from, tokenized with
+ * `includeComments` so comments can be put back, and the program parsed with `foldConstants: false`
+ * so expressions print as written.
+ */
+export function formatProgram(program: ProgramNode, tokens: readonly Token[], options: FormatOptions = {}): string {
+  return new SourcePrinter(tokens, options).print(program);
+}
+
+// Binding strength of each binary operator, loosest first, matching the parser's descent
+const BINARY_PRECEDENCE: Readonly<Record<string, number>> = {
+  OR: 1,
+  AND: 2,
+  '=': 3,
+  '<>': 3,
+  '<': 4,
+  '<=': 4,
+  '>': 4,
+  '>=': 4,
+  '+': 5,
+  '-': 5,
+  '*': 6,
+  '/': 6,
+  MOD: 6,
+  '^': 7
+};
+const UNARY_PRECEDENCE = 8;
+const POSTFIX_PRECEDENCE = 9;
+
+interface OutputLine {
+  readonly prefix: string; // Line number and indentation
+  text: string;
+  readonly anchor?: Token; // Source token the line was printed from, for its trailing comment
+}
+
+class SourcePrinter {
+  private readonly output: string[] = [];
+  private readonly comments: Token[];
+  private readonly tokenIndex = new Map<Token, number>();
+  private readonly indentUnit: string;
+  private readonly lineNumberMap = new Map<number, number>();
+  private current: OutputLine | undefined;
+  private nextComment = 0;
+  private cursor = 0; // Token index printing has reached, for finding block closers
+  private depth = 0; // Block nesting
+  private openLoops = 0; // FOR statements awaiting their NEXT in the current block
+  private recordIndent: string | undefined; // Indentation of the enclosing multi-line record literal's fields
+
+  constructor(private readonly tokens: readonly Token[], private readonly options: FormatOptions) {
+    tokens.forEach((token, index) => this.tokenIndex.set(token, index));
+    this.comments = tokens.filter((token) => token.type === TokenType.Comment);
+    this.indentUnit = ' '.repeat(options.indent ?? 2);
+  }
+
+  public print(program: ProgramNode): string {
+    const mode = this.options.lineNumbers ?? 'keep';
+    const referenced = collectLineTargets(program);
+    if (mode === 'renumber') {
+      const start = this.options.renumberStart ?? 10;
+      const step = this.options.renumberStep ?? 10;
+      program.lines.forEach((line, index) => {
+        if (line.lineNumber !== undefined) {
+          this.lineNumberMap.set(line.lineNumber, start + index * step);
+        }
+      });
+    }
+
+    program.lines.forEach((line, index) => {
+      const numberToken = line.lineNumber === undefined ? undefined : this.findLineNumber(line.lineNumber);
+      let label: number | undefined;
+      if (mode === 'renumber') {
+        label = (this.options.renumberStart ?? 10) + index * (this.options.renumberStep ?? 10);
+      } else if (line.lineNumber !== undefined && (mode === 'keep' || referenced.has(line.lineNumber))) {
+        label = line.lineNumber;
+      }
+      this.printLine(line.statements, numberToken ?? line.statements[0]?.token, label);
+    });
+
+    this.flushComments(Number.POSITIVE_INFINITY);
+    while (this.output[this.output.length - 1] === '') {
+      this.output.pop();
+    }
+    return this.output.length === 0 ? '' : `${this.output.join('\n')}\n`;
+  }
+
+  // ---- Lines, comments and blank lines ----
+
+  private printLine(statements: readonly StatementNode[], anchor: Token | undefined, label?: number): void {
+    const loops = statements.filter((statement) => statement.type === 'ForStatement').length;
+    let nexts = statements.filter((statement) => statement.type === 'NextStatement').length;
+    if (statements[0]?.type === 'NextStatement' && this.openLoops > 0) {
+      this.openLoops -= 1;
+      nexts -= 1;
+    }
+
+    this.beginLine(anchor, label === undefined ? '' : `${label} `);
+    statements.forEach((statement, index) => {
+      if (index > 0) {
+        this.write(' : ');
+      }
+      this.statement(statement);
+    });
+    this.endLine();
+    this.openLoops = Math.max(0, this.openLoops + loops - nexts);
+  }
+
+  private beginLine(anchor: Token | undefined, label = ''): void {
+    if (anchor) {
+      this.flushComments(anchor.line);
+      this.separateIfBlank(anchor);
+      this.advanceTo(anchor);
+    }
+    this.current = { prefix: `${label}${this.indentation()}`, text: '', anchor };
+  }
+
+  private write(text: string): void {
+    if (this.current) {
+      this.current.text += text;
+    }
+  }
+
+  private endLine(): void {
+    const line = this.current;
+    if (!line) {
+      return;
+    }
+    this.current = undefined;
+    const trailing = line.anchor ? this.takeTrailingComment(line.anchor.line) : undefined;
+    const text = [line.text, trailing].filter(Boolean).join(' ');
+    this.output.push(`${line.prefix}${text}`.trimEnd());
+  }
+
+  private indentation(): string {
+    return this.indentUnit.repeat(this.depth + this.openLoops);
+  }
+
+  // Comments on lines before `line` become lines of their own at the current indentation
+  private flushComments(line: number): void {
+    for (const comment of this.takeCommentsBefore(line)) {
+      this.separateIfBlank(comment);
+      this.output.push(`${this.indentation()}${comment.lexeme.trimEnd()}`);
+    }
+  }
+
+  private takeCommentsBefore(line: number): Token[] {
+    const taken: Token[] = [];
+    while (this.nextComment < this.comments.length && this.comments[this.nextComment]!.line < line) {
+      taken.push(this.comments[this.nextComment]!);
+      this.nextComment += 1;
+    }
+    return taken;
+  }
+
+  // A comment on a line that starts with code always follows that code
+  private takeTrailingComment(line: number): string | undefined {
+    const comment = this.comments[this.nextComment];
+    if (!comment || comment.line !== line) {
+      return undefined;
+    }
+    this.nextComment += 1;
+    return comment.lexeme.trimEnd();
+  }
+
+  // Runs of blank lines in the source collapse to one
+  private separateIfBlank(token: Token): void {
+    let index = this.tokenIndex.get(token);
+    if (index === undefined) {
+      return;
+    }
+    while (index > 0 && this.tokens[index - 1]!.type !== TokenType.Newline) {
+      index -= 1;
+    }
+    const blank = index >= 2 && this.tokens[index - 2]!.type === TokenType.Newline;
+    if (blank && this.output.length > 0 && this.output[this.output.length - 1] !== '') {
+      this.output.push('');
+    }
+  }
+
+  private advanceTo(token: Token): void {
+    const index = this.tokenIndex.get(token);
+    if (index !== undefined && index > this.cursor) {
+      this.cursor = index;
+    }
+  }
+
+  // Block closers such as END IF or WEND start their line; find the next one printing has not passed
+  private findCloser(...spellings: string[][]): Token | undefined {
+    for (let index = this.cursor; index < this.tokens.length; index += 1) {
+      if (index > 0 && this.tokens[index - 1]!.type !== TokenType.Newline) {
+        continue;
+      }
+      const spelling = spellings.find((words) =>
+        words.every((word, offset) => {
+          const token = this.tokens[index + offset];
+          return token?.type === TokenType.Keyword && token.lexeme === word;
+        })
+      );
+      if (spelling) {
+        this.cursor = index + spelling.length;
+        return this.tokens[index];
+      }
+    }
+    return undefined;
+  }
+
+  private findLineNumber(lineNumber: number): Token | undefined {
+    for (let index = this.cursor; index < this.tokens.length; index += 1) {
+      const token = this.tokens[index]!;
+      const atLineStart = index === 0 || this.tokens[index - 1]!.type === TokenType.Newline;
+      if (atLineStart && token.type === TokenType.Number && token.literal === lineNumber) {
+        return token;
+      }
+    }
+    return undefined;
+  }
+
+  private closer(text: string, ...spellings: string[][]): void {
+    this.endLine();
+    this.beginLine(this.findCloser(...(spellings.length > 0 ? spellings : [text.split(' ')])));
+    this.write(text);
+  }
+
+  private block(statements: readonly StatementNode[]): void {
+    this.endLine();
+    // Loops opened inside the block must close there, so start counting afresh
+    const { depth, openLoops } = this;
+    this.depth += openLoops + 1;
+    this.openLoops = 0;
+    for (const statement of statements) {
+      this.printLine([statement], statement.token);
+    }
+    this.depth = depth;
+    this.openLoops = openLoops;
+  }
+
+  // A header line printed inside a block, such as CASE or CATCH
+  private clause(anchor: Token | undefined, text: string, body: readonly StatementNode[]): void {
+    this.endLine();
+    this.beginLine(anchor);
+    this.write(text);
+    this.block(body);
+  }
+
+  // ---- Statements ----
+
+  private statement(statement: StatementNode): void {
+    switch (statement.type) {
+      case 'PrintStatement': {
+        const items = statement.arguments.map((argument) => {
+          const separator = argument.separator === 'comma' ? ',' : argument.separator === 'semicolon' ? ';' : '';
+          return `${this.expression(argument.expression)}${separator}`;
+        });
+        this.write(items.length > 0 ? `PRINT ${items.join(' ')}` : 'PRINT');
+        return;
+      }
+      case 'LetStatement': {
+        const annotation = statement.typeAnnotation ? ` AS ${formatAnnotation(statement.typeAnnotation)}` : '';
+        this.write(`LET ${this.expression(statement.target)}${annotation} = ${this.expression(statement.value)}`);
+        return;
+      }
+      case 'AssignmentStatement':
+        this.write(`${this.expression(statement.target)} = ${this.expression(statement.value)}`);
+        return;
+      case 'DimStatement': {
+        const bounds = statement.dimensions ? this.bounds(statement.dimensions) : '';
+        let annotation = '';
+        if (statement.typeAnnotation?.name === 'CHANNEL' && !statement.dimensions) {
+          const [messageType] = statement.typeAnnotation.typeArguments ?? [];
+          annotation = ` AS CHANNEL${messageType ? ` OF ${formatAnnotation(messageType)}` : ''}` +
+            (statement.buffer ? ` BUFFER ${this.expression(statement.buffer)}` : '');
+        } else if (statement.typeAnnotation) {
+          annotation = ` AS ${formatAnnotation(statement.typeAnnotation)}`;
+        }
+        this.write(`DIM ${statement.name.name}${bounds}${annotation}`);
+        return;
+      }
+      case 'RedimStatement': {
+        const annotation = statement.typeAnnotation ? ` AS ${formatAnnotation(statement.typeAnnotation)}` : '';
+        const preserve = statement.preserve ? 'PRESERVE ' : '';
+        this.write(`REDIM ${preserve}${statement.name.name}${this.bounds(statement.dimensions)}${annotation}`);
+        return;
+      }
+      case 'TypeDeclaration': {
+        const spread = statement.spreadFields ? ` SPREAD(${statement.spreadFields.join(', ')})` : '';
+        this.write(`${statement.isPublic ? 'PUBLIC ' : ''}TYPE ${statement.name.name}${spread}`);
+        this.depth += 1;
+        for (const field of statement.fields) {
+          this.endLine();
+          this.beginLine(field.name.token);
+          this.write(`${field.name.name} AS ${formatAnnotation(field.annotation)}`);
+        }
+        this.depth -= 1;
+        this.closer('END TYPE', ['END', 'TYPE'], ['ENDTYPE']);
+        return;
+      }
+      case 'IfStatement':
+        this.ifStatement(statement);
+        return;
+      case 'ForStatement': {
+        const step = statement.step ? ` STEP ${this.expression(statement.step)}` : '';
+        this.write(`FOR ${statement.iterator.name} = ${this.expression(statement.start)} TO ${this.expression(statement.end)}${step}`);
+        return;
+      }
+      case 'NextStatement':
+        this.write(statement.iterator ? `NEXT ${statement.iterator.name}` : 'NEXT');
+        return;
+      case 'WhileStatement':
+        this.write(`WHILE ${this.expression(statement.condition)}`);
+        this.block(statement.body);
+        this.closer('WEND');
+        return;
+      case 'DoWhileStatement': {
+        this.write('DO');
+        this.block(statement.body);
+        this.beginLine(expressionToken(statement.condition));
+        this.write(`WHILE ${this.expression(statement.condition)}`);
+        return;
+      }
+      case 'ReturnStatement':
+        this.write(statement.value ? `RETURN ${this.expression(statement.value)}` : 'RETURN');
+        return;
+      case 'StopStatement':
+        this.write('STOP');
+        return;
+      case 'ContStatement':
+        this.write('CONT');
+        return;
+      case 'EndStatement':
+        this.write('END');
+        return;
+      case 'ExpressionStatement': {
+        const index = this.tokenIndex.get(statement.token);
+        const previous = index === undefined ? undefined : this.tokens[index - 1];
+        const call = previous?.type === TokenType.Keyword && previous.lexeme === 'CALL' ? 'CALL ' : '';
+        this.write(`${call}${this.expression(statement.expression)}`);
+        return;
+      }
+      case 'TryCatchStatement':
+        this.write('TRY');
+        this.block(statement.tryBlock);
+        for (const clause of statement.catchClauses) {
+          const errorType = clause.errorType ? ` AS ${clause.errorType.token.lexeme}` : '';
+          this.clause(clause.variable.token, `CATCH ${clause.variable.name}${errorType}`, clause.block);
+        }
+        if (statement.finallyBlock) {
+          this.closer('FINALLY');
+          this.block(statement.finallyBlock);
+        }
+        this.closer('END TRY');
+        return;
+      case 'ErrorStatement':
+        this.write(`ERROR ${this.expression(statement.message)}`);
+        return;
+      case 'RethrowStatement':
+        this.write('RETHROW');
+        return;
+      case 'FunctionStatement': {
+        const returnType = statement.returnType ? ` AS ${formatAnnotation(statement.returnType)}` : '';
+        this.write(`${statement.isPublic ? 'PUBLIC ' : ''}FUNCTION ${statement.name.name}(${this.parameters(statement.parameters)})${returnType}`);
+        this.block(statement.body);
+        this.closer('END FUNCTION');
+        return;
+      }
+      case 'SubStatement':
+        this.write(`${statement.isPublic ? 'PUBLIC ' : ''}SUB ${statement.name.name}(${this.parameters(statement.parameters)})`);
+        this.block(statement.body);
+        this.closer('END SUB');
+        return;
+      case 'ExitStatement':
+        this.write(`EXIT ${statement.exitType}`);
+        return;
+      case 'ContinueStatement':
+        this.write('CONTINUE');
+        return;
+      case 'PropertyStatement':
+        this.write(
+          `PROPERTY ${statement.typeName.name}.${statement.name.name}(${this.parameters([statement.selfParam])})` +
+            ` AS ${formatAnnotation(statement.returnType)} ${statement.accessorType}`
+        );
+        this.block(statement.body);
+        this.closer('END PROPERTY');
+        return;
+      case 'WithStatement':
+        this.write(`WITH ${this.expression(statement.object)}`);
+        this.block(statement.body);
+        this.closer('END WITH');
+        return;
+      case 'SelectCaseStatement':
+        this.write(`SELECT CASE ${this.expression(statement.expression)}`);
+        this.depth += 1;
+        for (const clause of statement.cases) {
+          const values = clause.values.map((value) => this.expression(value)).join(', ');
+          this.clause(clause.values[0] && expressionToken(clause.values[0]), `CASE ${values}`, clause.statements);
+        }
+        if (statement.elseCase) {
+          this.clause(this.findCloser(['CASE', 'ELSE']), 'CASE ELSE', statement.elseCase);
+        }
+        this.depth -= 1;
+        this.closer('END SELECT');
+        return;
+      case 'SelectReceiveStatement':
+        this.write('SELECT RECEIVE');
+        this.depth += 1;
+        for (const clause of statement.cases) {
+          const source = clause.source ? ` FROM ${this.expression(clause.source)}` : '';
+          this.clause(clause.target.token, `CASE ${clause.target.name}${source}`, clause.statements);
+        }
+        if (statement.timeout) {
+          const { duration, statements } = statement.timeout;
+          this.clause(expressionToken(duration), `CASE TIMEOUT ${this.expression(duration)}`, statements);
+        }
+        if (statement.elseCase) {
+          this.clause(this.findCloser(['CASE', 'ELSE']), 'CASE ELSE', statement.elseCase);
+        }
+        this.depth -= 1;
+        this.closer('END SELECT');
+        return;
+      case 'InputStatement':
+        this.write(`INPUT ${statement.prompt ? `${this.expression(statement.prompt)}, ` : ''}${statement.variable.name}`);
+        return;
+      case 'DeferStatement':
+        this.write('DEFER ');
+        this.statement(statement.statement);
+        return;
+      case 'DeferBlockStatement':
+        this.write('DEFER');
+        this.block(statement.block);
+        this.closer('END DEFER');
+        return;
+      case 'SendStatement':
+        this.write(`SEND ${this.expression(statement.target)}, ${this.expression(statement.message)}`);
+        return;
+      case 'BroadcastStatement':
+        this.write(`BROADCAST ${this.expression(statement.target)}, ${this.expression(statement.message)}`);
+        return;
+      case 'KillStatement':
+        this.write(`KILL ${this.expression(statement.target)}`);
+        return;
+      case 'JoinStatement':
+        this.write(`JOIN ${statement.targets.map((target) => this.expression(target)).join(', ')}`);
+        return;
+      case 'YieldStatement':
+        this.write('YIELD');
+        return;
+      case 'ConstStatement':
+        this.write(`${statement.isPublic ? 'PUBLIC ' : ''}CONST ${statement.name.name} = ${this.expression(statement.value)}`);
+        return;
+      case 'GotoStatement':
+        // IF X THEN 100 is parsed as a GOTO whose token is the bare line number
+        this.write(statement.token.type === TokenType.Number ? this.lineTarget(statement.target) : `GOTO ${this.lineTarget(statement.target)}`);
+        return;
+      case 'GosubStatement':
+        this.write(`GOSUB ${this.lineTarget(statement.target)}`);
+        return;
+      case 'OnJumpStatement': {
+        const targets = statement.targets.map((target) => this.lineTarget(target)).join(', ');
+        this.write(`ON ${this.expression(statement.selector)} ${statement.mode} ${targets}`);
+        return;
+      }
+      case 'OnErrorStatement':
+        this.write(`ON ERROR GOTO ${statement.target ? this.lineTarget(statement.target) : '0'}`);
+        return;
+      case 'ResumeStatement':
+        this.write(statement.mode === 'NEXT' ? 'RESUME NEXT' : statement.target ? `RESUME ${this.lineTarget(statement.target)}` : 'RESUME');
+        return;
+      case 'DataStatement': {
+        const values = statement.values.map(({ value, token }) => {
+          if (token.type === TokenType.String || (token.type === TokenType.Number && token.literal === value)) {
+            return token.lexeme;
+          }
+          return String(value); // Signed numbers and bare words
+        });
+        this.write(`DATA ${values.join(', ')}`);
+        return;
+      }
+      case 'ReadStatement':
+        this.write(`READ ${statement.targets.map((target) => this.expression(target)).join(', ')}`);
+        return;
+      case 'RestoreStatement':
+        this.write(statement.target ? `RESTORE ${this.lineTarget(statement.target)}` : 'RESTORE');
+        return;
+      case 'OptionBaseStatement':
+        this.write(`OPTION BASE ${statement.base}`);
+        return;
+      case 'ModuleStatement':
+        this.write(`MODULE ${statement.name.name}`);
+        return;
+      case 'ImportStatement':
+        this.write(`IMPORT ${quote(statement.path)}${statement.alias ? ` AS ${statement.alias.name}` : ''}`);
+        return;
+      case 'AIFuncDeclaration':
+        this.aiFunction(statement);
+        return;
+      case 'InvalidStatement':
+        throw new ParseError(statement.message, statement.token);
+    }
+  }
+
+  private ifStatement(statement: IfStatementNode): void {
+    const condition = `IF ${this.expression(statement.condition)} THEN`;
+    if (!this.isBlockIf(statement)) {
+      this.write(condition);
+      this.inlineBranch(statement.thenBranch);
+      if (statement.elseBranch) {
+        this.write(' ELSE');
+        this.inlineBranch(statement.elseBranch);
+      }
+      return;
+    }
+
+    this.write(condition);
+    this.block(statement.thenBranch);
+    if (statement.elseBranch) {
+      this.closer('ELSE');
+      this.block(statement.elseBranch);
+    }
+    this.closer('END IF');
+  }
+
+  private inlineBranch(statements: readonly StatementNode[]): void {
+    statements.forEach((statement, index) => {
+      this.write(index === 0 ? ' ' : ' : ');
+      this.statement(statement);
+    });
+  }
+
+  // Block IFs end their first line at THEN
+  private isBlockIf(statement: IfStatementNode): boolean {
+    let index = this.tokenIndex.get(statement.token) ?? this.tokens.length;
+    while (index < this.tokens.length && !(this.tokens[index]!.type === TokenType.Keyword && this.tokens[index]!.lexeme === 'THEN')) {
+      index += 1;
+    }
+    do {
+      index += 1;
+    } while (this.tokens[index]?.type === TokenType.Comment);
+    return this.tokens[index]?.type === TokenType.Newline;
+  }
+
+  private aiFunction(statement: AIFuncDeclarationNode): void {
+    this.write(
+      `AIFUNC ${statement.receiver.name}.${statement.name.name}(${this.parameters(statement.parameters)})` +
+        ` AS ${formatAnnotation(statement.returnType)}`
+    );
+    this.depth += 1;
+    if (statement.usingExpression) {
+      this.endLine();
+      this.beginLine(expressionToken(statement.usingExpression));
+      this.write(`USING ${this.expression(statement.usingExpression)}`);
+    }
+    if (statement.systemPrompt !== undefined) {
+      this.endLine();
+      const keyword = this.findCloser(['SYSTEM']);
+      const text = keyword ? this.tokens[(this.tokenIndex.get(keyword) ?? 0) + 1]?.lexeme : undefined;
+      this.beginLine(keyword);
+      this.write(`SYSTEM ${text ?? quote(statement.systemPrompt)}`);
+    }
+    this.endLine();
+    this.beginLine(statement.prompt.token);
+    this.write(`PROMPT ${statement.prompt.token.lexeme}`);
+    if (statement.expect) {
+      this.endLine();
+      this.beginLine(statement.expect.token);
+      this.write(`EXPECT ${formatExpect(statement.expect)}`);
+    }
+    this.depth -= 1;
+    this.closer('END AIFUNC');
+  }
+
+  private parameters(parameters: readonly ParameterNode[]): string {
+    return parameters
+      .map((parameter) => {
+        if (parameter.isVarArgs) {
+          return '...';
+        }
+        const annotation = parameter.typeAnnotation ? ` AS ${formatAnnotation(parameter.typeAnnotation)}` : '';
+        const defaultValue = parameter.defaultValue ? ` = ${this.expression(parameter.defaultValue)}` : '';
+        return `${parameter.isRef ? 'REF ' : ''}${parameter.name.name}${annotation}${defaultValue}`;
+      })
+      .join(', ');
+  }
+
+  // DIM grid(10) gets a lower bound from OPTION BASE that was never written, pointing at the upper bound
+  private bounds(dimensions: readonly ArrayBoundsNode[]): string {
+    const printed = dimensions.map(({ lower, upper }) =>
+      lower.type === 'NumberLiteral' && lower.token === expressionToken(upper)
+        ? this.expression(upper)
+        : `${this.expression(lower)} TO ${this.expression(upper)}`
+    );
+    return `(${printed.join(', ')})`;
+  }
+
+  private lineTarget(target: LineTargetNode): string {
+    return String(this.lineNumberMap.get(target.lineNumber) ?? target.lineNumber);
+  }
+
+  // ---- Expressions ----
+
+  private expression(expression: ExpressionNode, minimumPrecedence = 0): string {
+    const text = this.bareExpression(expression);
+    return precedenceOf(expression) < minimumPrecedence ? `(${text})` : text;
+  }
+
+  private bareExpression(expression: ExpressionNode): string {
+    switch (expression.type) {
+      case 'NumberLiteral':
+        return expression.token.type === TokenType.Number && expression.token.literal === expression.value
+          ? expression.token.lexeme
+          : String(expression.value);
+      case 'StringLiteral':
+        return expression.token.type === TokenType.String && expression.token.literal === expression.value
+          ? expression.token.lexeme
+          : quote(expression.value);
+      case 'BooleanLiteral':
+        return expression.value ? 'TRUE' : 'FALSE';
+      case 'NullLiteral':
+        return 'NULL';
+      case 'Identifier':
+        return expression.name;
+      case 'WithField':
+        return `.${expression.field.name}`;
+      case 'ArrayLiteral':
+        return `[${expression.elements.map((element) => this.expression(element)).join(', ')}]`;
+      case 'ObjectLiteral':
+        return expression.fields.length === 0
+          ? '{}'
+          : `{ ${expression.fields.map((field) => `${field.name}: ${this.expression(field.value)}`).join(', ')} }`;
+      case 'RecordLiteral':
+        return this.recordLiteral(expression);
+      case 'UnaryExpression': {
+        const operand = this.expression(expression.operand, UNARY_PRECEDENCE);
+        if (expression.operator.lexeme === 'NOT') {
+          return `NOT ${operand}`;
+        }
+        return `${expression.operator.lexeme}${operand}`;
+      }
+      case 'BinaryExpression': {
+        const precedence = BINARY_PRECEDENCE[expression.operator.lexeme.toUpperCase()] ?? 0;
+        const left = this.expression(expression.left, precedence);
+        const right = this.expression(expression.right, precedence + 1);
+        return `${left} ${expression.operator.lexeme} ${right}`;
+      }
+      case 'ConditionalExpression':
+        return `${this.expression(expression.condition, 1)} ? ${this.expression(expression.whenTrue)} : ${this.expression(expression.whenFalse)}`;
+      case 'CallExpression':
+        return `${this.expression(expression.callee, POSTFIX_PRECEDENCE)}(${expression.args.map((arg) => this.expression(arg)).join(', ')})`;
+      case 'MemberExpression':
+        return `${this.expression(expression.object, POSTFIX_PRECEDENCE)}.${expression.property.name}`;
+      case 'IndexExpression': {
+        if (!expression.subscript) {
+          return `${this.expression(expression.object, POSTFIX_PRECEDENCE)}[${this.expression(expression.index)}]`;
+        }
+        const subscripts: ExpressionNode[] = [];
+        let array: ExpressionNode = expression;
+        while (array.type === 'IndexExpression' && array.subscript) {
+          subscripts.unshift(array.index);
+          array = array.object;
+        }
+        return `${this.expression(array, POSTFIX_PRECEDENCE)}(${subscripts.map((subscript) => this.expression(subscript)).join(', ')})`;
+      }
+      case 'AwaitExpression':
+        return `AWAIT ${this.expression(expression.expression, UNARY_PRECEDENCE)}`;
+      case 'SpreadExpression': {
+        const target = this.expression(expression.target, POSTFIX_PRECEDENCE);
+        return isPrefixSpread(expression.token, expressionToken(expression.target)) ? `...${target}` : `${target}...`;
+      }
+      case 'NewExpression':
+        return `NEW ${expression.typeName.name}(${expression.args.map((arg) => this.expression(arg)).join(', ')})`;
+      case 'RecvExpression': {
+        const args = [expression.source, expression.timeout].filter((arg): arg is ExpressionNode => arg !== undefined);
+        return args.length > 0 ? `${expression.token.lexeme}(${args.map((arg) => this.expression(arg)).join(', ')})` : expression.token.lexeme;
+      }
+      case 'SpawnExpression': {
+        const supervisor = expression.supervisor ? ` SUPERVISED BY ${this.expression(expression.supervisor)}` : '';
+        const restart = expression.restartLimit ? ` RESTART ON ERROR ${this.expression(expression.restartLimit)} TIMES` : '';
+        return `SPAWN ${this.expression(expression.routine)}${supervisor}${restart}`;
+      }
+    }
+  }
+
+  // Record literals written across lines keep one field per line
+  private recordLiteral(expression: RecordLiteralNode): string {
+    const name = expression.typeName.name;
+    if (expression.fields.length === 0) {
+      return `${name} {}`;
+    }
+    if (expression.fields[0]!.name.token.line === expression.token.line) {
+      return `${name} { ${expression.fields.map((field) => `${field.name.name}: ${this.expression(field.value)}`).join(', ')} }`;
+    }
+
+    const enclosing = this.recordIndent;
+    const outer = enclosing ?? this.indentation();
+    const inner = `${outer}${this.indentUnit}`;
+    const opening = this.takeTrailingComment(expression.token.line);
+    const lines = [`${name} {${opening ? ` ${opening}` : ''}`];
+    this.recordIndent = inner;
+    expression.fields.forEach((field, index) => {
+      for (const comment of this.takeCommentsBefore(field.name.token.line)) {
+        lines.push(`${inner}${comment.lexeme.trimEnd()}`);
+      }
+      const comma = index < expression.fields.length - 1 ? ',' : '';
+      const trailing = this.takeTrailingComment(field.name.token.line);
+      lines.push(`${inner}${field.name.name}: ${this.expression(field.value)}${comma}${trailing ? ` ${trailing}` : ''}`);
+    });
+    this.recordIndent = enclosing;
+    lines.push(`${outer}}`);
+    return lines.join('\n');
+  }
+}
+
+function precedenceOf(expression: ExpressionNode): number {
+  switch (expression.type) {
+    case 'ConditionalExpression':
+    case 'SpawnExpression':
+      return 0;
+    case 'BinaryExpression':
+      return BINARY_PRECEDENCE[expression.operator.lexeme.toUpperCase()] ?? 0;
+    case 'UnaryExpression':
+    case 'AwaitExpression':
+    case 'NewExpression':
+      return UNARY_PRECEDENCE;
+    case 'SpreadExpression':
+      return isPrefixSpread(expression.token, expressionToken(expression.target)) ? UNARY_PRECEDENCE : POSTFIX_PRECEDENCE;
+    case 'NumberLiteral':
+      return expression.value < 0 || Object.is(expression.value, -0) ? UNARY_PRECEDENCE : POSTFIX_PRECEDENCE;
+    default:
+      return POSTFIX_PRECEDENCE;
+  }
+}
+
+function isPrefixSpread(spread: Token, target: Token): boolean {
+  return spread.line < target.line || (spread.line === target.line && spread.column < target.column);
+}
+
+// The token the parser reports for an expression, mirroring Parser.getExpressionToken
+function expressionToken(expression: ExpressionNode): Token {
+  switch (expression.type) {
+    case 'UnaryExpression':
+      return expression.operator;
+    case 'BinaryExpression':
+      return expressionToken(expression.left);
+    case 'CallExpression':
+      return expressionToken(expression.callee);
+    case 'MemberExpression':
+    case 'IndexExpression':
+      return expressionToken(expression.object);
+    case 'AwaitExpression':
+      return expression.keyword;
+    case 'ConditionalExpression':
+      return expression.questionToken;
+    default:
+      return expression.token;
+  }
+}
+
+function formatAnnotation(annotation: TypeAnnotationNode): string {
+  return annotation.typeArguments?.length
+    ? `${annotation.name}<${annotation.typeArguments.map(formatAnnotation).join(', ')}>`
+    : annotation.name;
+}
+
+function formatExpect(expect: AIFuncExpectNode): string {
+  const [first] = expect.clauses;
+  if (first?.kind === 'number-range') {
+    return `RANGE [${first.min}, ${first.max}]`;
+  }
+  if (first?.kind === 'length') {
+    return `LENGTH ${formatLength(first)}`;
+  }
+  const fields = expect.clauses.map((clause) =>
+    clause.kind === 'record' ? `${clause.field}: LENGTH ${formatLength(clause.constraint)}` : 'ALLOW_EXTRA'
+  );
+  return fields.length > 0 ? `{ ${fields.join(', ')} }` : '{}';
+}
+
+function formatLength(clause: AIFuncLengthClause): string {
+  const range = clause.max !== undefined && clause.max !== clause.min ? `${clause.min}..${clause.max}` : String(clause.min);
+  return clause.element ? `${range} OF LENGTH ${formatLength(clause.element)}` : range;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+// Line numbers some statement jumps to, which must survive `lineNumbers: 'remove'`
+function collectLineTargets(program: ProgramNode): Set<number> {
+  const targets = new Set<number>();
+  const visit = (node: unknown): void => {
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if ('lineNumber' in node && 'token' in node && typeof node.lineNumber === 'number') {
+      targets.add(node.lineNumber);
+      return;
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (key !== 'token') {
+        visit(value);
+      }
+    }
+  };
+  program.lines.forEach((line) => visit(line.statements));
+  return targets;
+}
@@ -9,6 +9,7 @@ import { createConfigNamespace } from './config-namespace.js';
 
 import {
   HostEnvironment,
+  HostError,
   createFunction,
   createNamespace,
   isHostNamespace,
@@ -389,28 +390,46 @@ function createHttpNamespace() {
     return url;
   };
 
+  const request = async (functionName: string, url: string, init?: RequestInit): Promise<Response> => {
+    try {
+      return await fetch(url, init);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new HostError('HttpError', `${functionName} ${url} failed: ${reason}`, { Status: 0 });
+    }
+  };
+
+  const readBody = async (functionName: string, url: string, response: Response): Promise<string> => {
+    if (!response.ok) {
+      throw new HostError('HttpError', `${functionName} ${url} returned ${response.status}`, {
+        Status: response.status
+      });
+    }
+    return await response.text();
+  };
+
   return createNamespace('HTTP', {
     GET: createFunction('HTTP.GET', async (args) => {
       const rawUrl = requireStringArg('HTTP.GET', args, 0);
       const url = ensureProtocol(rawUrl);
-      const response = await fetch(url);
-      return await response.text();
+      const response = await request('HTTP.GET', url);
+      return await readBody('HTTP.GET', url, response);
     }),
     POST: createFunction('HTTP.POST', async (args) => {
       const rawUrl = requireStringArg('HTTP.POST', args, 0);
       const url = ensureProtocol(rawUrl);
       const body = requireStringArg('HTTP.POST', args, 1);
-      const response = await fetch(url, {
+      const response = await request('HTTP.POST', url, {
         method: 'POST',
         body,
         headers: { 'content-type': 'text/plain' }
       });
-      return await response.text();
+      return await readBody('HTTP.POST', url, response);
     }),
     STATUS: createFunction('HTTP.STATUS', async (args) => {
       const rawUrl = requireStringArg('HTTP.STATUS', args, 0);
       const url = ensureProtocol(rawUrl);
-      const response = await fetch(url, { method: 'HEAD' });
+      const response = await request('HTTP.STATUS', url, { method: 'HEAD' });
       return response.status;
     })
   });
@@ -1,4 +1,5 @@
 import type { RuntimeValue } from './runtime-values.js';
+import type { Token } from './tokenizer.js';
 
 export type HostEntry = RuntimeValue | HostNamespaceValue | HostFunctionValue;
 
@@ -6,9 +7,11 @@ export interface HostNamespaceValue {
   readonly kind: 'host-namespace';
   readonly name: string;
   getMember(name: string): HostEntry | undefined;
+  listMembers(): string[];
 }
 
 export interface HostFunctionContext {
+  readonly callSite: Token; // Where the BASIC program made the call
   readonly getVariable: (name: string) => RuntimeValue;
   readonly setVariable: (name: string, value: RuntimeValue) => void;
 }
@@ -25,6 +28,21 @@ export interface HostFunctionValue {
   invoke(args: RuntimeValue[], context: HostFunctionContext): Promise<RuntimeValue>;
 }
 
+/**
+ * Thrown by host functions to raise a typed BASIC error. The interpreter turns it into a
+ * record of the named TYPE so scripts can select it with `CATCH e AS <typeName>`.
+ */
+export class HostError extends Error {
+  constructor(
+    public readonly typeName: string,
+    message: string,
+    public readonly fields: Readonly<Record<string, RuntimeValue>> = {}
+  ) {
+    super(message);
+    this.name = typeName;
+  }
+}
+
 export class HostEnvironment {
   private readonly root = new Map<string, HostEntry>();
 
@@ -90,6 +108,10 @@ class SimpleHostNamespace implements HostNamespaceValue {
   public getMember(name: string): HostEntry | undefined {
     return this.members.get(normalize(name));
   }
+
+  public listMembers(): string[] {
+    return Array.from(this.members.keys());
+  }
 }
 
 class SimpleHostFunction implements HostFunctionValue {
@@ -1,4 +1,4 @@
-import { tokenize, Token, TokenType, type TokenizerOptions } from './tokenizer.js';
+import { tokenize, formatLocation, Token, TokenType, type TokenizerOptions } from './tokenizer.js';
 import type {
   AssignmentStatementNode,
   AwaitExpressionNode,
@@ -11,6 +11,9 @@ import type {
   IndexExpressionNode,
   EndStatementNode,
   ErrorStatementNode,
+  RethrowStatementNode,
+  InvalidStatementNode,
+  CatchClauseNode,
   ExitStatementNode,
   ExpressionNode,
   ExpressionStatementNode,
@@ -22,6 +25,7 @@ import type {
   IfStatementNode,
   InputStatementNode,
   LetStatementNode,
+  DimStatementNode,
   LineNode,
   MemberExpressionNode,
   NextStatementNode,
@@ -37,6 +41,7 @@ import type {
   RecordLiteralNode,
   ReturnStatementNode,
   StopStatementNode,
+  ContStatementNode,
   StatementNode,
   StringLiteralNode,
   SubStatementNode,
@@ -48,6 +53,9 @@ import type {
   WithStatementNode,
   WithFieldNode,
   SelectCaseStatementNode,
+  SelectReceiveStatementNode,
+  ReceiveCaseClause,
+  ReceiveTimeoutClause,
   CaseClause,
   PropertyStatementNode,
   ConditionalExpressionNode,
@@ -55,6 +63,28 @@ import type {
   DeferBlockStatementNode,
   ContinueStatementNode,
   SendStatementNode,
+  BroadcastStatementNode,
+  KillStatementNode,
+  JoinStatementNode,
+  YieldStatementNode,
+  ModuleStatementNode,
+  ConstStatementNode,
+  RedimStatementNode,
+  OptionBaseStatementNode,
+  GotoStatementNode,
+  GosubStatementNode,
+  OnJumpStatementNode,
+  OnErrorStatementNode,
+  ResumeStatementNode,
+  DataStatementNode,
+  DataValueNode,
+  DataItemNode,
+  ReadStatementNode,
+  RestoreStatementNode,
+  LineTargetNode,
+  ArrayBoundsNode,
+  AssignmentTargetNode,
+  ImportStatementNode,
   RecvExpressionNode,
   SpawnExpressionNode,
   PromptTemplateNode,
@@ -69,34 +99,78 @@ import type {
 } from './ast.js';
 
 export class ParseError extends Error {
-  constructor(message: string, public readonly token: Token) {
-    super(`${message} (line ${token.line}, column ${token.column})`);
+  constructor(public readonly detail: string, public readonly token: Token) {
+    super(`${detail} (${formatLocation(token)})`);
     this.name = 'ParseError';
   }
 }
 
-export interface ParserOptions extends TokenizerOptions {}
+export interface ParserOptions extends TokenizerOptions {
+  // When given, syntax errors are collected here instead of thrown: each bad statement becomes an
+  // InvalidStatement and parsing resumes at the next statement or line, yielding a partial program
+  diagnostics?: ParseError[];
+  // False keeps literal arithmetic and CONST references as written, for tools that print source back
+  foldConstants?: boolean;
+}
 
 export function parseSource(source: string, options: ParserOptions = {}): ProgramNode {
   const tokens = tokenize(source, options);
-  return parseTokens(tokens);
+  return parseTokens(tokens, options);
 }
 
-export function parseTokens(tokens: Token[]): ProgramNode {
-  const parser = new Parser(tokens);
+export function parseTokens(tokens: Token[], options: ParserOptions = {}): ProgramNode {
+  const parser = new Parser(tokens, options.diagnostics, options.foldConstants ?? true);
   return parser.parseProgram();
 }
 
-const TYPE_KEYWORDS = new Set(['NUMBER', 'STRING', 'BOOL', 'BOOLEAN', 'ANY', 'ARRAY', 'RECORD', 'BYTES']);
+/** Parses source holding a single expression, such as a debugger watch or breakpoint condition. */
+export function parseExpression(source: string, options: ParserOptions = {}): ExpressionNode {
+  const parser = new Parser(tokenize(source, options), undefined, options.foldConstants ?? true);
+  return parser.parseLoneExpression();
+}
+
+const TYPE_KEYWORDS = new Set(['NUMBER', 'STRING', 'BOOL', 'BOOLEAN', 'ANY', 'ARRAY', 'RECORD', 'BYTES', 'CHANNEL']);
+
+// Mirrors the evaluator's numeric operators so folded and evaluated results agree
+function foldArithmetic(operator: string, left: number, right: number): number {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return left / right;
+    case '^':
+      return Math.pow(left, right);
+    case 'MOD':
+      return right === 0 ? NaN : ((left % right) + right) % right;
+    default:
+      throw new Error(`Cannot fold operator '${operator}'`);
+  }
+}
 
 class Parser {
   private current = 0;
   private atLineStart = true;
-
-  constructor(private readonly tokens: Token[]) {}
+  private routineDepth = 0; // > 0 while parsing a FUNCTION or SUB body
+  private readonly constants = new Map<string, NumberLiteralNode | StringLiteralNode>(); // CONST name -> folded value
+  // Parameters are bound over the program's variables, so they may not share a name with a CONST
+  private readonly constantNames = new Map<string, Token>(); // CONST name -> its declaration
+  private readonly parameterNames = new Map<string, Token>(); // Parameter name -> its first declaration
+  private readonly arrays = new Set<string>(); // DIMmed names, so grid(x, y) parses as indexing
+  private arrayBase = 0; // OPTION BASE
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly diagnostics?: ParseError[],
+    private readonly foldConstants = true
+  ) {}
 
   public parseProgram(): ProgramNode {
     const lines: LineNode[] = [];
+    const data: DataItemNode[] = [];
 
     while (!this.isAtEnd()) {
       if (this.match(TokenType.Newline)) {
@@ -110,40 +184,190 @@ class Parser {
 
       this.atLineStart = false;
       const statements: StatementNode[] = [];
-      if (!this.check(TokenType.Newline) && !this.check(TokenType.EOF)) {
-        statements.push(this.parseStatement());
-        while (this.match(TokenType.Colon)) {
-          if (this.check(TokenType.Newline) || this.check(TokenType.EOF)) {
-            break;
-          }
+      try {
+        if (!this.check(TokenType.Newline) && !this.check(TokenType.EOF)) {
           statements.push(this.parseStatement());
+          while (this.match(TokenType.Colon)) {
+            if (this.check(TokenType.Newline) || this.check(TokenType.EOF)) {
+              break;
+            }
+            statements.push(this.parseStatement());
+          }
+        }
+        if (!this.check(TokenType.Newline) && !this.isAtEnd()) {
+          this.consume(TokenType.Newline, 'Expected newline or end of input after statement group');
+        }
+      } catch (error) {
+        if (!this.recordDiagnostic(error)) {
+          throw error;
+        }
+        // Keep what parsed and skip the rest of the line
+        statements.push(this.createInvalidStatement(error as ParseError));
+        while (!this.check(TokenType.Newline) && !this.isAtEnd()) {
+          this.advance();
         }
       }
 
+      for (const statement of statements) {
+        if (statement.type === 'DataStatement') {
+          data.push(...statement.values.map((value) => ({ ...value, lineIndex: lines.length })));
+        }
+      }
       lines.push({ lineNumber, statements });
 
       if (this.match(TokenType.Newline)) {
         this.atLineStart = true;
-      } else if (!this.isAtEnd()) {
-        this.consume(TokenType.Newline, 'Expected newline or end of input after statement group');
-        this.atLineStart = true;
       }
     }
 
-    return { type: 'Program', lines };
+    return { type: 'Program', lines, data };
+  }
+
+  public parseLoneExpression(): ExpressionNode {
+    const expression = this.parseExpression();
+    this.match(TokenType.Newline);
+    if (!this.isAtEnd()) {
+      throw new ParseError('Expected end of expression', this.peek());
+    }
+    return expression;
   }
 
   private parseStatement(): StatementNode {
+    if (!this.diagnostics) {
+      return this.parseStatementStrict();
+    }
+
+    const start = this.current;
+    try {
+      return this.parseStatementStrict();
+    } catch (error) {
+      // At the end of input there is nothing to skip, so let the enclosing block or program stop
+      if (!this.recordDiagnostic(error) || this.isAtEnd()) {
+        throw error;
+      }
+      // Resynchronize at the next statement boundary, always consuming a token so block loops advance
+      if (this.current === start) {
+        this.advance();
+      }
+      while (!this.check(TokenType.Newline) && !this.check(TokenType.Colon) && !this.isAtEnd()) {
+        this.advance();
+      }
+      return this.createInvalidStatement(error as ParseError);
+    }
+  }
+
+  private createInvalidStatement(error: ParseError): InvalidStatementNode {
+    return { type: 'InvalidStatement', token: error.token, message: error.detail };
+  }
+
+  // True when recovering and the error is a syntax error; each error is recorded once as it unwinds
+  private recordDiagnostic(error: unknown): boolean {
+    if (!this.diagnostics || !(error instanceof ParseError)) {
+      return false;
+    }
+    if (!this.diagnostics.includes(error)) {
+      this.diagnostics.push(error);
+    }
+    return true;
+  }
+
+  private parseStatementStrict(): StatementNode {
     if (this.matchKeyword('LET')) {
       const keyword = this.previous();
       return this.parseLetStatement(keyword);
     }
 
+    if (this.matchKeyword('DIM')) {
+      const keyword = this.previous();
+      return this.parseDimStatement(keyword);
+    }
+
+    if (this.matchKeyword('GOTO')) {
+      const keyword = this.previous();
+      return { type: 'GotoStatement', token: keyword, target: this.parseLineTarget() } satisfies GotoStatementNode;
+    }
+
+    if (this.matchKeyword('GOSUB')) {
+      const keyword = this.previous();
+      return { type: 'GosubStatement', token: keyword, target: this.parseLineTarget() } satisfies GosubStatementNode;
+    }
+
+    if (this.matchKeyword('ON')) {
+      const keyword = this.previous();
+      if (this.matchKeyword('ERROR')) {
+        return this.parseOnErrorStatement(keyword);
+      }
+      return this.parseOnStatement(keyword);
+    }
+
+    if (this.matchKeyword('RESUME')) {
+      const keyword = this.previous();
+      if (this.matchKeyword('NEXT')) {
+        return { type: 'ResumeStatement', token: keyword, mode: 'NEXT' } satisfies ResumeStatementNode;
+      }
+      if (this.check(TokenType.Number)) {
+        return { type: 'ResumeStatement', token: keyword, mode: 'LINE', target: this.parseLineTarget() } satisfies ResumeStatementNode;
+      }
+      return { type: 'ResumeStatement', token: keyword, mode: 'RETRY' } satisfies ResumeStatementNode;
+    }
+
+    // DATA, READ and RESTORE stay identifiers elsewhere, since programs commonly name variables data
+    if (this.isStatementWord('DATA')) {
+      return this.parseDataStatement(this.advance());
+    }
+
+    if (this.isStatementWord('READ')) {
+      const keyword = this.advance();
+      const targets: AssignmentTargetNode[] = [];
+      do {
+        targets.push(this.parseAssignmentTarget());
+      } while (this.match(TokenType.Comma));
+      return { type: 'ReadStatement', token: keyword, targets } satisfies ReadStatementNode;
+    }
+
+    if (this.isStatementWord('RESTORE')) {
+      const keyword = this.advance();
+      const target = this.check(TokenType.Number) ? this.parseLineTarget() : undefined;
+      return { type: 'RestoreStatement', token: keyword, target } satisfies RestoreStatementNode;
+    }
+
+    if (this.matchKeyword('REDIM')) {
+      const keyword = this.previous();
+      return this.parseRedimStatement(keyword);
+    }
+
+    if (this.isIdentifierName('OPTION') && this.tokens[this.current + 1]?.lexeme.toUpperCase() === 'BASE') {
+      const keyword = this.advance();
+      this.advance();
+      return this.parseOptionBaseStatement(keyword);
+    }
+
     if (this.matchKeyword('TYPE')) {
       const keyword = this.previous();
       return this.parseTypeDeclaration(keyword);
     }
 
+    if (this.matchKeyword('PUBLIC')) {
+      const keyword = this.previous();
+      return this.parsePublicDeclaration(keyword);
+    }
+
+    if (this.matchKeyword('CONST')) {
+      const keyword = this.previous();
+      return this.parseConstStatement(keyword);
+    }
+
+    if (this.matchKeyword('MODULE')) {
+      const keyword = this.previous();
+      const name = this.parseIdentifier();
+      return { type: 'ModuleStatement', token: keyword, name } satisfies ModuleStatementNode;
+    }
+
+    if (this.matchKeyword('IMPORT')) {
+      const keyword = this.previous();
+      return this.parseImportStatement(keyword);
+    }
+
     if (this.matchKeyword('PRINT') || this.matchKeyword('?')) {
       const keyword = this.previous();
       return this.parsePrintStatement(keyword);
@@ -233,11 +457,40 @@ class Parser {
       return this.parseSendStatement(keyword);
     }
 
+    if (this.matchKeyword('BROADCAST')) {
+      const keyword = this.previous();
+      const target = this.parseExpression();
+      this.consume(TokenType.Comma, 'Expected comma after BROADCAST channel');
+      const message = this.parseExpression();
+      return { type: 'BroadcastStatement', token: keyword, target, message } satisfies BroadcastStatementNode;
+    }
+
+    if (this.matchKeyword('KILL')) {
+      const keyword = this.previous();
+      const target = this.parseExpression();
+      return { type: 'KillStatement', token: keyword, target } satisfies KillStatementNode;
+    }
+
+    if (this.matchKeyword('JOIN')) {
+      const keyword = this.previous();
+      return this.parseJoinStatement(keyword);
+    }
+
+    if (this.matchKeyword('YIELD')) {
+      const keyword = this.previous();
+      return { type: 'YieldStatement', token: keyword } satisfies YieldStatementNode;
+    }
+
     if (this.matchKeyword('STOP')) {
       const keyword = this.previous();
       return { type: 'StopStatement', token: keyword } satisfies StopStatementNode;
     }
 
+    if (this.matchKeyword('CONT')) {
+      const keyword = this.previous();
+      return { type: 'ContStatement', token: keyword } satisfies ContStatementNode;
+    }
+
     if (this.matchKeyword('END')) {
       const keyword = this.previous();
       return { type: 'EndStatement', token: keyword } satisfies EndStatementNode;
@@ -258,6 +511,11 @@ class Parser {
       return this.parseErrorStatement(keyword);
     }
 
+    if (this.matchKeyword('RETHROW')) {
+      const keyword = this.previous();
+      return { type: 'RethrowStatement', token: keyword } satisfies RethrowStatementNode;
+    }
+
     if (this.matchKeyword('CALL')) {
       // CALL is optional syntax for calling SUBs
       // Just parse the expression statement that follows
@@ -308,6 +566,207 @@ class Parser {
     return { type: 'LetStatement', token: keyword, target, typeAnnotation, value } satisfies LetStatementNode;
   }
 
+  private parseDimStatement(keyword: Token): DimStatementNode {
+    const name = this.parseIdentifier();
+    const dimensions = this.check(TokenType.LeftParen) ? this.parseArrayBounds(name) : undefined;
+    if (!this.matchKeyword('AS')) {
+      return { type: 'DimStatement', token: keyword, name, dimensions } satisfies DimStatementNode;
+    }
+
+    if (!this.matchKeyword('CHANNEL')) {
+      const typeAnnotation = this.parseTypeAnnotation();
+      return { type: 'DimStatement', token: keyword, name, dimensions, typeAnnotation } satisfies DimStatementNode;
+    }
+    if (dimensions) {
+      throw new ParseError('Arrays of CHANNEL are not supported', this.previous());
+    }
+
+    // DIM c AS CHANNEL [OF Type] [BUFFER size]
+    const channelToken = this.previous();
+    let typeArguments: TypeAnnotationNode[] | undefined;
+    if (this.matchIdentifierName('OF')) {
+      typeArguments = [this.parseTypeAnnotation()];
+    }
+    let buffer: ExpressionNode | undefined;
+    if (this.matchKeyword('BUFFER')) {
+      buffer = this.parseExpression();
+    }
+
+    const typeAnnotation: TypeAnnotationNode = {
+      type: 'TypeAnnotation',
+      name: 'CHANNEL',
+      token: channelToken,
+      typeArguments
+    };
+    return { type: 'DimStatement', token: keyword, name, typeAnnotation, buffer } satisfies DimStatementNode;
+  }
+
+  private parseRedimStatement(keyword: Token): RedimStatementNode {
+    const preserve = this.matchIdentifierName('PRESERVE');
+    const name = this.parseIdentifier();
+    if (!this.check(TokenType.LeftParen)) {
+      throw new ParseError('Expected ( with array bounds after REDIM name', this.peek());
+    }
+    const dimensions = this.parseArrayBounds(name);
+    let typeAnnotation: TypeAnnotationNode | undefined;
+    if (this.matchKeyword('AS')) {
+      typeAnnotation = this.parseTypeAnnotation();
+    }
+    return { type: 'RedimStatement', token: keyword, name, dimensions, typeAnnotation, preserve } satisfies RedimStatementNode;
+  }
+
+  // (upper, ...) or (lower TO upper, ...); bounds are inclusive
+  private parseArrayBounds(name: IdentifierNode): ArrayBoundsNode[] {
+    this.consume(TokenType.LeftParen, 'Expected ( before array bounds');
+    const dimensions: ArrayBoundsNode[] = [];
+    do {
+      const first = this.parseExpression();
+      if (this.matchKeyword('TO')) {
+        dimensions.push({ lower: first, upper: this.parseExpression() });
+      } else {
+        const lower: NumberLiteralNode = { type: 'NumberLiteral', value: this.arrayBase, token: this.getExpressionToken(first) };
+        dimensions.push({ lower, upper: first });
+      }
+    } while (this.match(TokenType.Comma));
+    this.consume(TokenType.RightParen, 'Expected ) after array bounds');
+    this.arrays.add(name.name);
+    return dimensions;
+  }
+
+  private parseOnStatement(keyword: Token): OnJumpStatementNode {
+    const selector = this.parseExpression();
+    let mode: OnJumpStatementNode['mode'];
+    if (this.matchKeyword('GOTO')) {
+      mode = 'GOTO';
+    } else if (this.matchKeyword('GOSUB')) {
+      mode = 'GOSUB';
+    } else {
+      throw new ParseError('Expected GOTO or GOSUB after ON expression', this.peek());
+    }
+    const targets: LineTargetNode[] = [];
+    do {
+      targets.push(this.parseLineTarget());
+    } while (this.match(TokenType.Comma));
+    return { type: 'OnJumpStatement', token: keyword, selector, mode, targets } satisfies OnJumpStatementNode;
+  }
+
+  private parseOnErrorStatement(keyword: Token): OnErrorStatementNode {
+    this.consumeKeyword('GOTO');
+    const target = this.parseLineTarget();
+    if (target.lineNumber === 0) {
+      return { type: 'OnErrorStatement', token: keyword } satisfies OnErrorStatementNode;
+    }
+    return { type: 'OnErrorStatement', token: keyword, target } satisfies OnErrorStatementNode;
+  }
+
+  private isStatementWord(word: string): boolean {
+    if (!this.check(TokenType.Identifier) || this.peek().lexeme !== word) {
+      return false;
+    }
+    const next = this.tokens[this.current + 1];
+    return !next || !(
+      (next.type === TokenType.Operator && next.lexeme === '=') ||
+      next.type === TokenType.Dot ||
+      next.type === TokenType.LeftParen ||
+      next.type === TokenType.LeftBracket
+    );
+  }
+
+  // DATA values are numbers, quoted strings, or bare words read as text
+  private parseDataStatement(keyword: Token): DataStatementNode {
+    const values: DataValueNode[] = [];
+    if (this.checkTerminator()) {
+      throw new ParseError('Expected values after DATA', this.peek());
+    }
+    do {
+      values.push(this.parseDataValue());
+    } while (this.match(TokenType.Comma));
+    return { type: 'DataStatement', token: keyword, values } satisfies DataStatementNode;
+  }
+
+  private parseDataValue(): DataValueNode {
+    const token = this.peek();
+    if (this.match(TokenType.String)) {
+      return { value: String(token.literal), token };
+    }
+    if (this.check(TokenType.Operator) && (token.lexeme === '-' || token.lexeme === '+')) {
+      this.advance();
+      const number = this.consume(TokenType.Number, 'Expected number after sign in DATA');
+      const magnitude = Number(number.literal);
+      return { value: token.lexeme === '-' ? -magnitude : magnitude, token };
+    }
+    if (this.match(TokenType.Number)) {
+      return { value: Number(token.literal), token };
+    }
+
+    const words: string[] = [];
+    while (!this.checkTerminator() && !this.check(TokenType.Comma) && !this.check(TokenType.Colon)) {
+      words.push(this.advance().lexeme);
+    }
+    if (words.length === 0) {
+      throw new ParseError('Expected DATA value', token);
+    }
+    return { value: words.join(' '), token };
+  }
+
+  private parseLineTarget(): LineTargetNode {
+    const token = this.consume(TokenType.Number, 'Expected line number');
+    if (typeof token.literal !== 'number' || !Number.isInteger(token.literal)) {
+      throw new ParseError('Line number must be an integer', token);
+    }
+    return { lineNumber: token.literal, token };
+  }
+
+  private parseOptionBaseStatement(keyword: Token): OptionBaseStatementNode {
+    const token = this.consume(TokenType.Number, 'Expected 0 or 1 after OPTION BASE');
+    if (token.literal !== 0 && token.literal !== 1) {
+      throw new ParseError('OPTION BASE must be 0 or 1', token);
+    }
+    this.arrayBase = token.literal;
+    return { type: 'OptionBaseStatement', token: keyword, base: this.arrayBase } satisfies OptionBaseStatementNode;
+  }
+
+  private parsePublicDeclaration(keyword: Token): StatementNode {
+    const declaration = this.parseStatement();
+    switch (declaration.type) {
+      case 'FunctionStatement':
+      case 'SubStatement':
+      case 'TypeDeclaration':
+      case 'ConstStatement':
+        return { ...declaration, isPublic: true };
+      default:
+        throw new ParseError('PUBLIC must be followed by FUNCTION, SUB, TYPE or CONST', keyword);
+    }
+  }
+
+  private parseConstStatement(keyword: Token): ConstStatementNode {
+    if (this.routineDepth > 0) {
+      throw new ParseError('CONST is only allowed at program or module level', keyword);
+    }
+    const name = this.parseIdentifier();
+    const parameter = this.parameterNames.get(name.name);
+    if (parameter) {
+      throw new ParseError(`CONST ${name.name} clashes with the parameter declared at ${formatLocation(parameter)}`, name.token);
+    }
+    this.constantNames.set(name.name, name.token);
+    this.consumeOperator('=');
+    const value = this.parseExpression();
+    // Literal values are inlined into later references so they fold like any other literal
+    if (this.foldConstants && (value.type === 'NumberLiteral' || value.type === 'StringLiteral')) {
+      this.constants.set(name.name, value);
+    }
+    return { type: 'ConstStatement', token: keyword, name, value } satisfies ConstStatementNode;
+  }
+
+  private parseImportStatement(keyword: Token): ImportStatementNode {
+    const pathToken = this.consume(TokenType.String, 'Expected file name string after IMPORT');
+    let alias: IdentifierNode | undefined;
+    if (this.matchKeyword('AS')) {
+      alias = this.parseIdentifier();
+    }
+    return { type: 'ImportStatement', token: keyword, path: String(pathToken.literal), alias } satisfies ImportStatementNode;
+  }
+
   private parseAssignmentStatement(): AssignmentStatementNode {
     const target = this.parseAssignmentTarget();
     const token = this.getTargetToken(target);
@@ -532,7 +991,13 @@ class Parser {
     if (this.checkTerminator() || this.checkUpcomingKeyword(stopKeywords)) {
       return statements;
     }
-    statements.push(this.parseStatement());
+    // IF X THEN 100 is shorthand for IF X THEN GOTO 100
+    if (this.check(TokenType.Number)) {
+      const token = this.peek();
+      statements.push({ type: 'GotoStatement', token, target: this.parseLineTarget() } satisfies GotoStatementNode);
+    } else {
+      statements.push(this.parseStatement());
+    }
     while (this.match(TokenType.Colon)) {
       if (this.checkTerminator() || this.checkUpcomingKeyword(stopKeywords)) {
         break;
@@ -574,7 +1039,7 @@ class Parser {
     return statements;
   }
 
-  private parseAssignmentTarget(): IdentifierNode | MemberExpressionNode | WithFieldNode {
+  private parseAssignmentTarget(): AssignmentTargetNode {
     // Check for WITH field shorthand (.field)
     if (this.check(TokenType.Dot)) {
       const dotToken = this.advance();
@@ -583,17 +1048,60 @@ class Parser {
     }
 
     const identifier = this.parseIdentifier();
-    let target: IdentifierNode | MemberExpressionNode = identifier;
-    while (this.match(TokenType.Dot)) {
-      const property = this.parseMemberProperty();
-      target = { type: 'MemberExpression', object: target, property } satisfies MemberExpressionNode;
+    let target: IdentifierNode | MemberExpressionNode | IndexExpressionNode = identifier;
+    while (true) {
+      if (this.match(TokenType.Dot)) {
+        const property = this.parseMemberProperty();
+        target = { type: 'MemberExpression', object: target, property } satisfies MemberExpressionNode;
+        continue;
+      }
+      if (this.match(TokenType.LeftBracket)) {
+        const index = this.parseExpression();
+        this.consume(TokenType.RightBracket, 'Expected closing bracket after array index');
+        target = { type: 'IndexExpression', object: target, index } satisfies IndexExpressionNode;
+        continue;
+      }
+      if (this.match(TokenType.LeftParen)) {
+        target = this.parseSubscripts(target);
+        continue;
+      }
+      return target;
     }
-    return target;
+  }
+
+  // grid(x, y) is shorthand for grid[x][y]
+  private parseSubscripts(object: ExpressionNode): IndexExpressionNode {
+    let target = object;
+    do {
+      const index = this.parseExpression();
+      target = { type: 'IndexExpression', object: target, index, subscript: true } satisfies IndexExpressionNode;
+    } while (this.match(TokenType.Comma));
+    this.consume(TokenType.RightParen, 'Expected ) after array subscripts');
+    return target as IndexExpressionNode;
   }
 
   private parseSpawnExpression(token: Token): SpawnExpressionNode {
     const routine = this.parseExpression();
-    return { type: 'SpawnExpression', token, routine } satisfies SpawnExpressionNode;
+
+    let supervisor: ExpressionNode | undefined;
+    if (this.matchIdentifierName('SUPERVISED')) {
+      if (!this.matchIdentifierName('BY')) {
+        throw new ParseError('Expected BY after SUPERVISED', this.peek());
+      }
+      supervisor = this.parseExpression();
+    }
+
+    let restartLimit: ExpressionNode | undefined;
+    if (this.matchIdentifierName('RESTART')) {
+      this.consumeKeyword('ON');
+      this.consumeKeyword('ERROR');
+      restartLimit = this.parseExpression();
+      if (!this.matchIdentifierName('TIMES')) {
+        throw new ParseError('Expected TIMES after RESTART ON ERROR count', this.peek());
+      }
+    }
+
+    return { type: 'SpawnExpression', token, routine, supervisor, restartLimit } satisfies SpawnExpressionNode;
   }
 
   private parseSendStatement(keyword: Token): SendStatementNode {
@@ -603,23 +1111,36 @@ class Parser {
     return { type: 'SendStatement', token: keyword, target, message } satisfies SendStatementNode;
   }
 
+  private parseJoinStatement(keyword: Token): JoinStatementNode {
+    const targets: ExpressionNode[] = [];
+    do {
+      targets.push(this.parseExpression());
+    } while (this.match(TokenType.Comma));
+    return { type: 'JoinStatement', token: keyword, targets } satisfies JoinStatementNode;
+  }
+
   private parseRecvExpression(token: Token): RecvExpressionNode {
+    let source: ExpressionNode | undefined;
     let timeout: ExpressionNode | undefined;
 
-    // Check for optional timeout parameter: RECV(timeout)
+    // Optional arguments: RECV(timeout), RECEIVE(channel) or RECEIVE(channel, timeout)
     if (this.match(TokenType.LeftParen)) {
       if (!this.check(TokenType.RightParen)) {
         timeout = this.parseExpression();
+        if (this.match(TokenType.Comma)) {
+          source = timeout;
+          timeout = this.parseExpression();
+        }
       }
-      this.consume(TokenType.RightParen, 'Expected ) after RECV timeout');
+      this.consume(TokenType.RightParen, 'Expected ) after RECV arguments');
     }
 
-    return { type: 'RecvExpression', token, timeout } satisfies RecvExpressionNode;
+    return { type: 'RecvExpression', token, source, timeout } satisfies RecvExpressionNode;
   }
 
   private parseTryCatchStatement(keyword: Token): TryCatchStatementNode {
     const tryBlock: StatementNode[] = [];
-    let catchClause: TryCatchStatementNode['catchClause'] = undefined;
+    const catchClauses: CatchClauseNode[] = [];
     let finallyBlock: StatementNode[] | undefined = undefined;
 
     // Skip newlines after TRY
@@ -641,9 +1162,10 @@ class Parser {
       tryBlock.push(this.parseStatement());
     }
 
-    // Parse CATCH clause if present
-    if (this.matchKeyword('CATCH')) {
+    // Parse CATCH clauses, each optionally filtered by error type
+    while (this.matchKeyword('CATCH')) {
       const catchVar = this.parseIdentifier();
+      const errorType = this.matchKeyword('AS') ? this.parseCatchType() : undefined;
 
       // Skip newlines after CATCH variable
       while (this.match(TokenType.Newline)) {
@@ -652,7 +1174,7 @@ class Parser {
 
       const catchBlock: StatementNode[] = [];
       while (!this.isAtEnd()) {
-        if (this.isKeyword('FINALLY') ||
+        if (this.isKeyword('CATCH') || this.isKeyword('FINALLY') ||
             (this.isKeyword('END') && this.peekNextKeyword('TRY'))) {
           break;
         }
@@ -664,10 +1186,11 @@ class Parser {
         catchBlock.push(this.parseStatement());
       }
 
-      catchClause = {
+      catchClauses.push({
         variable: catchVar,
+        errorType,
         block: catchBlock
-      };
+      });
     }
 
     // Parse FINALLY block if present
@@ -703,7 +1226,7 @@ class Parser {
       type: 'TryCatchStatement',
       token: keyword,
       tryBlock,
-      catchClause,
+      catchClauses,
       finallyBlock
     } satisfies TryCatchStatementNode;
   }
@@ -784,6 +1307,7 @@ class Parser {
 
     // Parse function body
     const body: StatementNode[] = [];
+    this.routineDepth += 1;
     while (!this.isAtEnd()) {
       if (this.isKeyword('END') && this.peekNextKeyword('FUNCTION')) {
         break;
@@ -795,6 +1319,7 @@ class Parser {
 
       body.push(this.parseStatement());
     }
+    this.routineDepth -= 1;
 
     // Consume END FUNCTION
     if (!this.matchKeyword('END')) {
@@ -829,6 +1354,7 @@ class Parser {
 
     // Parse sub body
     const body: StatementNode[] = [];
+    this.routineDepth += 1;
     while (!this.isAtEnd()) {
       if (this.isKeyword('END') && this.peekNextKeyword('SUB')) {
         break;
@@ -840,6 +1366,7 @@ class Parser {
 
       body.push(this.parseStatement());
     }
+    this.routineDepth -= 1;
 
     // Consume END SUB
     if (!this.matchKeyword('END')) {
@@ -1150,6 +1677,10 @@ class Parser {
     return sign * value;
   }
 
+  private isIdentifierName(name: string): boolean {
+    return this.check(TokenType.Identifier) && this.peek().lexeme.toUpperCase() === name.toUpperCase();
+  }
+
   private matchIdentifierName(name: string): boolean {
     if (this.check(TokenType.Identifier) && this.peek().lexeme.toUpperCase() === name.toUpperCase()) {
       this.advance();
@@ -1302,7 +1833,11 @@ class Parser {
     } satisfies WithStatementNode;
   }
 
-  private parseSelectCaseStatement(keyword: Token): SelectCaseStatementNode {
+  private parseSelectCaseStatement(keyword: Token): SelectCaseStatementNode | SelectReceiveStatementNode {
+    if (this.matchKeyword('RECEIVE')) {
+      return this.parseSelectReceiveStatement(keyword);
+    }
+
     // Parse SELECT CASE expression
     this.consumeKeyword('CASE');
     const expression = this.parseExpression();
@@ -1385,6 +1920,77 @@ class Parser {
     } satisfies SelectCaseStatementNode;
   }
 
+  private parseSelectReceiveStatement(keyword: Token): SelectReceiveStatementNode {
+    const cases: ReceiveCaseClause[] = [];
+    let timeout: ReceiveTimeoutClause | undefined;
+    let elseCase: StatementNode[] | undefined;
+
+    // Parse CASE clauses until END SELECT
+    while (!this.isAtEnd()) {
+      if (this.isKeyword('END') && this.peekNextKeyword('SELECT')) {
+        break;
+      }
+
+      if (this.match(TokenType.Newline)) {
+        continue;
+      }
+
+      const caseToken = this.consumeKeyword('CASE');
+      if (this.matchKeyword('ELSE')) {
+        elseCase = this.parseSelectReceiveBody();
+        continue;
+      }
+
+      // CASE TIMEOUT ms, unless TIMEOUT is just the name of the variable receiving the message
+      const target = this.parseIdentifier();
+      if (target.name.toUpperCase() === 'TIMEOUT' && !this.checkTerminator() && !this.isIdentifierName('FROM')) {
+        if (timeout) {
+          throw new ParseError('SELECT RECEIVE can only have one CASE TIMEOUT', caseToken);
+        }
+        const duration = this.parseExpression();
+        timeout = { duration, statements: this.parseSelectReceiveBody() };
+        continue;
+      }
+
+      let source: ExpressionNode | undefined;
+      if (this.matchIdentifierName('FROM')) {
+        source = this.parseExpression();
+      }
+      cases.push({ target, source, statements: this.parseSelectReceiveBody() });
+    }
+
+    if (cases.length === 0) {
+      throw new ParseError('SELECT RECEIVE needs at least one CASE to receive from', keyword);
+    }
+    if (timeout && elseCase) {
+      throw new ParseError('SELECT RECEIVE cannot have both CASE TIMEOUT and CASE ELSE', keyword);
+    }
+
+    // Consume END SELECT
+    if (!this.matchKeyword('END')) {
+      throw new ParseError('Expected END SELECT', this.peek());
+    }
+    if (!this.matchKeyword('SELECT')) {
+      throw new ParseError('Expected SELECT after END', this.peek());
+    }
+
+    return { type: 'SelectReceiveStatement', token: keyword, cases, timeout, elseCase } satisfies SelectReceiveStatementNode;
+  }
+
+  private parseSelectReceiveBody(): StatementNode[] {
+    const statements: StatementNode[] = [];
+    while (!this.isAtEnd()) {
+      if (this.isKeyword('CASE') || (this.isKeyword('END') && this.peekNextKeyword('SELECT'))) {
+        break;
+      }
+      if (this.match(TokenType.Newline)) {
+        continue;
+      }
+      statements.push(this.parseStatement());
+    }
+    return statements;
+  }
+
   private parseParameterList(): ParameterNode[] {
     const parameters: ParameterNode[] = [];
 
@@ -1412,6 +2018,13 @@ class Parser {
       }
 
       const name = this.parseIdentifier();
+      const constant = this.constantNames.get(name.name);
+      if (constant) {
+        throw new ParseError(`Parameter ${name.name} cannot shadow CONST ${name.name} declared at ${formatLocation(constant)}`, name.token);
+      }
+      if (!this.parameterNames.has(name.name)) {
+        this.parameterNames.set(name.name, name.token);
+      }
       let typeAnnotation: TypeAnnotationNode | undefined;
       let defaultValue: ExpressionNode | undefined;
 
@@ -1514,7 +2127,7 @@ class Parser {
     while (this.matchOperator('+', '-')) {
       const operator = this.previous();
       const right = this.parseFactor();
-      expr = { type: 'BinaryExpression', operator, left: expr, right } satisfies BinaryExpressionNode;
+      expr = this.foldBinary({ type: 'BinaryExpression', operator, left: expr, right });
     }
     return expr;
   }
@@ -1525,13 +2138,13 @@ class Parser {
       if (this.matchOperator('*', '/')) {
         const operator = this.previous();
         const right = this.parsePower();
-        expr = { type: 'BinaryExpression', operator, left: expr, right } satisfies BinaryExpressionNode;
+        expr = this.foldBinary({ type: 'BinaryExpression', operator, left: expr, right });
         continue;
       }
       if (this.matchKeyword('MOD')) {
         const operator = this.previous();
         const right = this.parsePower();
-        expr = { type: 'BinaryExpression', operator, left: expr, right } satisfies BinaryExpressionNode;
+        expr = this.foldBinary({ type: 'BinaryExpression', operator, left: expr, right });
         continue;
       }
       break;
@@ -1544,7 +2157,7 @@ class Parser {
     while (this.matchOperator('^')) {
       const operator = this.previous();
       const right = this.parseUnary();
-      expr = { type: 'BinaryExpression', operator, left: expr, right } satisfies BinaryExpressionNode;
+      expr = this.foldBinary({ type: 'BinaryExpression', operator, left: expr, right });
     }
     return expr;
   }
@@ -1553,6 +2166,10 @@ class Parser {
     if (this.matchOperator('+', '-')) {
       const operator = this.previous();
       const operand = this.parseUnary();
+      if (this.foldConstants && operand.type === 'NumberLiteral') {
+        const value = operator.lexeme === '-' ? -operand.value : operand.value;
+        return { type: 'NumberLiteral', value, token: operator } satisfies NumberLiteralNode;
+      }
       return { type: 'UnaryExpression', operator, operand } satisfies UnaryExpressionNode;
     }
     if (this.matchKeyword('NOT')) {
@@ -1576,6 +2193,23 @@ class Parser {
     return this.parseCallMember();
   }
 
+  // Arithmetic on literals is computed once here rather than on every evaluation
+  private foldBinary(expr: BinaryExpressionNode): ExpressionNode {
+    const { operator, left, right } = expr;
+    if (!this.foldConstants) {
+      return expr;
+    }
+    const token = this.getExpressionToken(left);
+    if (left.type === 'StringLiteral' && right.type === 'StringLiteral' && operator.lexeme === '+') {
+      return { type: 'StringLiteral', value: left.value + right.value, token } satisfies StringLiteralNode;
+    }
+    if (left.type !== 'NumberLiteral' || right.type !== 'NumberLiteral') {
+      return expr;
+    }
+    const value = foldArithmetic(operator.lexeme.toUpperCase(), left.value, right.value);
+    return { type: 'NumberLiteral', value, token } satisfies NumberLiteralNode;
+  }
+
   private parseNewExpression(): ExpressionNode {
     const token = this.previous(); // NEW keyword
 
@@ -1613,6 +2247,11 @@ class Parser {
 
     // eslint-disable-next-line no-constant-condition
     while (true) {
+      if (expr.type === 'Identifier' && this.arrays.has(expr.name) && this.match(TokenType.LeftParen)) {
+        expr = this.parseSubscripts(expr);
+        continue;
+      }
+
       if (this.match(TokenType.LeftParen)) {
         const args: ExpressionNode[] = [];
         if (!this.check(TokenType.RightParen)) {
@@ -1707,6 +2346,10 @@ class Parser {
           token
         } satisfies RecordLiteralNode;
       }
+      const constant = this.constants.get(token.lexeme);
+      if (constant) {
+        return { ...constant, token };
+      }
       return identifier;
     }
 
@@ -1754,6 +2397,14 @@ class Parser {
     return { type: 'Identifier', name: token.lexeme, token } satisfies IdentifierNode;
   }
 
+  // The built-in Error TYPE is spelled with the ERROR keyword: CATCH e AS ERROR
+  private parseCatchType(): IdentifierNode {
+    if (this.matchKeyword('ERROR')) {
+      return { type: 'Identifier', name: 'Error', token: this.previous() } satisfies IdentifierNode;
+    }
+    return this.parseIdentifier();
+  }
+
   private parseFieldName(): IdentifierNode {
     // In TYPE fields, allow keywords as field names
     if (this.match(TokenType.Identifier) || this.match(TokenType.Keyword)) {
@@ -1834,9 +2485,10 @@ class Parser {
     throw new ParseError('Expected identifier', this.peek());
   }
 
-  private getTargetToken(target: IdentifierNode | MemberExpressionNode | WithFieldNode): Token {
+  private getTargetToken(target: AssignmentTargetNode): Token {
     if (target.type === 'Identifier') return target.token;
     if (target.type === 'MemberExpression') return target.property.token;
+    if (target.type === 'IndexExpression') return this.getExpressionToken(target.object);
     return target.token; // WithField
   }
 
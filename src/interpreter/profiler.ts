@@ -0,0 +1,260 @@
+import type { Token } from './tokenizer.js';
+
+export type ProfiledFunctionKind = 'user' | 'host';
+
+export interface LineProfile {
+  readonly file?: string;
+  readonly line: number;
+  readonly hits: number; // Statements started on the line
+  readonly time: number; // Milliseconds spent on the line itself, host calls made from it included
+}
+
+export interface FunctionProfile {
+  readonly name: string;
+  readonly kind: ProfiledFunctionKind;
+  readonly calls: number;
+  readonly inclusiveTime: number; // Milliseconds from call to return; nested recursive calls are not counted twice
+  readonly exclusiveTime: number; // Inclusive time less the time spent in functions it called
+}
+
+interface LineStats {
+  readonly file?: string;
+  readonly line: number;
+  hits: number;
+  time: number;
+}
+
+interface FunctionStats {
+  readonly name: string;
+  readonly kind: ProfiledFunctionKind;
+  calls: number;
+  inclusiveTime: number;
+  exclusiveTime: number;
+}
+
+interface Frame {
+  readonly stack: string; // Folded path from the main program, `<main>;Outer;Inner`; a task's calls hang off `<main>`
+  readonly name: string;
+  readonly kind: ProfiledFunctionKind;
+  readonly start: number;
+  readonly callerLine: string | undefined; // Line that gets the time again once this call returns
+  childTime: number;
+}
+
+const MAIN = '<main>';
+
+/**
+ * Statement hits and wall time per line, and call counts and timings per user FUNCTION or SUB and
+ * host function, for the runs given it as their `profiler`. Times are wall-clock milliseconds, so
+ * a line or call waiting on SLEEP, HTTP or INPUT is charged for the wait. Each task fiber keeps its
+ * own call stack, so its calls are timed apart from the program's even while they overlap; line time
+ * still goes to whichever line was last entered, in any fiber.
+ */
+export class Profiler {
+  private readonly lineStats = new Map<string, LineStats>(); // `file:line` -> stats
+  private readonly functionStats = new Map<string, FunctionStats>(); // `kind:name` -> stats
+  private readonly folded = new Map<string, number>(); // Stack path -> exclusive milliseconds
+  private readonly frames: Frame[] = []; // The main program's calls; empty between runs
+  private readonly taskFrames = new Map<object, Frame[]>(); // Task -> its calls, from the routine it runs; kept while any are open
+  private currentLine: string | undefined;
+  private lastMark = 0; // When time was last charged to a line
+  private total = 0;
+
+  // The clock can be swapped for tests; it must count milliseconds
+  constructor(private readonly now: () => number = () => performance.now()) {}
+
+  public statement(token: Token): void {
+    const now = this.start();
+    this.chargeLine(now);
+    const key = `${token.file ?? ''}:${token.line}`;
+    let stats = this.lineStats.get(key);
+    if (!stats) {
+      stats = { file: token.file, line: token.line, hits: 0, time: 0 };
+      this.lineStats.set(key, stats);
+    }
+    stats.hits += 1;
+    this.currentLine = key;
+  }
+
+  // `task` is the task making the call, or null for the main program
+  public enter(name: string, kind: ProfiledFunctionKind, task: object | null = null): void {
+    const now = this.start();
+    const frames = this.framesOf(task);
+    const parent = frames[frames.length - 1] ?? this.frames[0]!;
+    frames.push({ stack: `${parent.stack};${name}`, name, kind, start: now, callerLine: this.currentLine, childTime: 0 });
+  }
+
+  public exit(task: object | null = null): void {
+    const frames = task ? this.taskFrames.get(task) : this.frames;
+    if (!frames || frames.length < (task ? 1 : 2)) {
+      return; // The main program's frame only closes in stop()
+    }
+    const now = this.now();
+    this.chargeLine(now);
+    const frame = frames.pop()!;
+    if (task && frames.length === 0) {
+      this.taskFrames.delete(task);
+    }
+    this.currentLine = frame.callerLine;
+
+    const inclusive = now - frame.start;
+    const exclusive = inclusive - frame.childTime;
+    // A task's first routine runs alongside the program, so its time is not taken out of the program's
+    const caller = task ? frames[frames.length - 1] : this.frames[this.frames.length - 1];
+    if (caller) {
+      caller.childTime += inclusive;
+    }
+    this.folded.set(frame.stack, (this.folded.get(frame.stack) ?? 0) + exclusive);
+
+    const key = `${frame.kind}:${frame.name}`;
+    let stats = this.functionStats.get(key);
+    if (!stats) {
+      stats = { name: frame.name, kind: frame.kind, calls: 0, inclusiveTime: 0, exclusiveTime: 0 };
+      this.functionStats.set(key, stats);
+    }
+    stats.calls += 1;
+    stats.exclusiveTime += exclusive;
+    // An outer call of the same function already covers this one's time
+    if (!frames.some((outer) => outer.name === frame.name && outer.kind === frame.kind)) {
+      stats.inclusiveTime += inclusive;
+    }
+  }
+
+  // Ends the current run; executeProgram and InterpreterSession call this when a run finishes or fails
+  public stop(): void {
+    if (this.frames.length === 0) {
+      return;
+    }
+    for (const task of [...this.taskFrames.keys()]) {
+      while (this.taskFrames.has(task)) {
+        this.exit(task);
+      }
+    }
+    while (this.frames.length > 1) {
+      this.exit();
+    }
+    const now = this.now();
+    this.chargeLine(now);
+    const main = this.frames.pop()!;
+    const inclusive = now - main.start;
+    this.total += inclusive;
+    this.folded.set(MAIN, (this.folded.get(MAIN) ?? 0) + inclusive - main.childTime);
+    this.currentLine = undefined;
+  }
+
+  // Milliseconds covered by the finished runs
+  public get totalTime(): number {
+    return this.total;
+  }
+
+  /** Lines in file and line order. */
+  public lines(): LineProfile[] {
+    return [...this.lineStats.values()]
+      .map((stats) => ({ ...stats }))
+      .sort((a, b) => (a.file ?? '').localeCompare(b.file ?? '') || a.line - b.line);
+  }
+
+  /** Functions by exclusive time, the most expensive first. */
+  public functions(): FunctionProfile[] {
+    return [...this.functionStats.values()]
+      .map((stats) => ({ ...stats }))
+      .sort((a, b) => b.exclusiveTime - a.exclusiveTime);
+  }
+
+  /**
+   * The folded stacks format flamegraph.pl, speedscope and similar tools read: one line per call
+   * stack, `<main>;Caller;Callee` followed by the microseconds spent in the last function itself.
+   */
+  public foldedStacks(): string {
+    return [...this.folded.entries()]
+      .map(([stack, time]) => [stack, Math.round(time * 1000)] as const)
+      .filter(([, micros]) => micros > 0)
+      .map(([stack, micros]) => `${stack} ${micros}\n`)
+      .join('');
+  }
+
+  /** A plain text report of the slowest lines and functions. */
+  public summary(limit = 10): string {
+    const total = this.total;
+    const percent = (time: number): string => (total > 0 ? `${((time / total) * 100).toFixed(1)}%` : '-');
+    const lines = this.lines().sort((a, b) => b.time - a.time).slice(0, limit);
+    const functions = this.functions().slice(0, limit);
+
+    const report = [`Profile: ${formatMs(total)} ms total`, '', `Lines (top ${lines.length} by time)`];
+    report.push(...table(
+      ['Line', 'Hits', 'Time ms', '%'],
+      lines.map((line) => [
+        line.file ? `${line.file}:${line.line}` : String(line.line),
+        String(line.hits),
+        formatMs(line.time),
+        percent(line.time)
+      ])
+    ));
+    report.push('', `Functions (top ${functions.length} by exclusive time)`);
+    report.push(...table(
+      ['Function', 'Kind', 'Calls', 'Inclusive ms', 'Exclusive ms', '%'],
+      functions.map((func) => [
+        func.name,
+        func.kind,
+        String(func.calls),
+        formatMs(func.inclusiveTime),
+        formatMs(func.exclusiveTime),
+        percent(func.exclusiveTime)
+      ])
+    ));
+    return `${report.join('\n')}\n`;
+  }
+
+  public reset(): void {
+    this.lineStats.clear();
+    this.functionStats.clear();
+    this.folded.clear();
+    this.frames.length = 0;
+    this.taskFrames.clear();
+    this.currentLine = undefined;
+    this.total = 0;
+  }
+
+  // Opens a task's stack on its first call
+  private framesOf(task: object | null): Frame[] {
+    if (!task) {
+      return this.frames;
+    }
+    let frames = this.taskFrames.get(task);
+    if (!frames) {
+      frames = [];
+      this.taskFrames.set(task, frames);
+    }
+    return frames;
+  }
+
+  // Opens the main program's frame on the first event of a run
+  private start(): number {
+    const now = this.now();
+    if (this.frames.length === 0) {
+      this.frames.push({ stack: MAIN, name: MAIN, kind: 'user', start: now, callerLine: undefined, childTime: 0 });
+      this.lastMark = now;
+    }
+    return now;
+  }
+
+  private chargeLine(now: number): void {
+    if (this.currentLine) {
+      this.lineStats.get(this.currentLine)!.time += now - this.lastMark;
+    }
+    this.lastMark = now;
+  }
+}
+
+function formatMs(time: number): string {
+  return time.toFixed(2);
+}
+
+// Left-aligns the first column and right-aligns the numbers after it
+function table(header: readonly string[], rows: readonly (readonly string[])[]): string[] {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column]!.length)));
+  const format = (row: readonly string[]): string => `  ${row
+    .map((cell, column) => (column === 0 ? cell.padEnd(widths[column]!) : cell.padStart(widths[column]!)))
+    .join('  ')}`;
+  return [format(header), ...rows.map(format)];
+}
@@ -19,6 +19,15 @@ export class RuntimeRecordValue {
     return this.data.has(field);
   }
 
+  // The field `name` refers to, matched regardless of case as identifiers are
+  public fieldName(name: string): string | undefined {
+    if (this.data.has(name)) {
+      return name;
+    }
+    const folded = name.toUpperCase();
+    return [...this.data.keys()].find((field) => field.toUpperCase() === folded);
+  }
+
   public set(field: string, value: RuntimeValue): void {
     this.data.set(field, value);
   }
@@ -84,48 +93,464 @@ export class RefValue {
   }
 }
 
+/**
+ * Called by a source just before it delivers to a SELECT RECEIVE waiter. Returns false once
+ * another source of the same SELECT has won, so the message stays where it is.
+ */
+export type ReceiveClaim = () => boolean;
+
+interface MailboxWaiter {
+  readonly resolve: (message: RuntimeValue | null) => void;
+  readonly claim?: ReceiveClaim;
+  timer?: ReturnType<typeof setTimeout>;
+  detach?: () => void; // Removes the abort listener once settled
+}
+
+export type TaskStatus = 'running' | 'waiting' | 'completed' | 'error' | 'killed';
+
+/**
+ * Anything that can be told about a task exit: a supervising task's mailbox or a channel.
+ * `post` must deliver without waiting, and returns false once the observer can take no more.
+ */
+export interface TaskObserver {
+  post(message: RuntimeValue): boolean;
+}
+
 export class TaskValue {
   public readonly kind = 'task' as const;
   public readonly mailbox: RuntimeValue[] = [];
-  public status: 'running' | 'waiting' | 'completed' | 'error' = 'running';
+  public status: TaskStatus = 'running';
   public result: RuntimeValue | undefined;
   public error: string | undefined;
+  public failure: unknown; // Original thrown value, rethrown by AWAIT
+  public restarts = 0;
+  private readonly waiters: MailboxWaiter[] = [];
+  private readonly observers: TaskObserver[] = [];
+  private readonly links = new Set<TaskValue>();
+  private killRequested = false;
+  private readonly killController = new AbortController();
+  private readonly finished: Promise<void>;
+  private markFinished!: () => void;
 
   constructor(
     public readonly id: string,
     public readonly name: string,
-    public readonly fiber: () => Promise<RuntimeValue>
-  ) {}
+    public readonly fiber: (task: TaskValue) => Promise<RuntimeValue>
+  ) {
+    this.finished = new Promise((resolve) => {
+      this.markFinished = resolve;
+    });
+  }
+
+  public get isFinished(): boolean {
+    return this.status === 'completed' || this.status === 'error' || this.status === 'killed';
+  }
+
+  public complete(result: RuntimeValue): void {
+    this.status = 'completed';
+    this.result = result;
+    this.markFinished();
+    this.notifyObservers('completed');
+  }
+
+  public fail(error: unknown, killed = false): void {
+    this.status = killed ? 'killed' : 'error';
+    this.recordFailure(error);
+    this.markFinished();
+    this.notifyObservers(this.status);
+
+    // Linked tasks go down with this one
+    for (const linked of this.links) {
+      linked.kill();
+    }
+  }
+
+  /**
+   * Note a crash that the restart policy absorbs; the fiber is about to run again.
+   */
+  public restart(error: unknown): void {
+    this.restarts += 1;
+    this.recordFailure(error);
+    this.status = 'running';
+    this.notifyObservers('restarting');
+  }
+
+  /**
+   * Send an exit record to the observer whenever this task finishes or restarts.
+   */
+  public monitor(observer: TaskObserver): void {
+    if (this.isFinished) {
+      observer.post(this.createExitRecord(this.status));
+      return;
+    }
+    this.observers.push(observer);
+  }
+
+  /**
+   * Tie two tasks together so that an error or KILL in either one kills the other.
+   */
+  public link(other: TaskValue): void {
+    if (other === this) {
+      return;
+    }
+    this.links.add(other);
+    other.links.add(this);
+    if (this.status === 'error' || this.status === 'killed') {
+      other.kill();
+    } else if (other.status === 'error' || other.status === 'killed') {
+      this.kill();
+    }
+  }
+
+  /**
+   * Wait for the fiber to finish, whatever its outcome.
+   */
+  public join(): Promise<void> {
+    return this.finished;
+  }
+
+  /**
+   * Aborted by KILL so the fiber's channel operations stop blocking.
+   */
+  public get killSignal(): AbortSignal {
+    return this.killController.signal;
+  }
+
+  /**
+   * Ask the fiber to stop at its next statement boundary. Pending RECVs wake up with NULL.
+   */
+  public kill(): boolean {
+    if (this.isFinished) {
+      return false;
+    }
+    this.killRequested = true;
+    this.killController.abort();
+    while (this.waiters.length > 0) {
+      this.settleWaiter(this.waiters.shift()!, null);
+    }
+    return true;
+  }
+
+  /**
+   * Returns true once per KILL so the fiber unwinds (and runs its DEFERs) exactly once.
+   */
+  public takeKillRequest(): boolean {
+    const requested = this.killRequested;
+    this.killRequested = false;
+    return requested;
+  }
+
+  private recordFailure(error: unknown): void {
+    this.failure = error;
+    this.error = error instanceof Error ? error.message : String(error);
+  }
+
+  private notifyObservers(status: TaskStatus | 'restarting'): void {
+    for (const observer of [...this.observers]) {
+      if (!observer.post(this.createExitRecord(status))) {
+        // A closed channel stays closed, so it is told nothing more
+        this.observers.splice(this.observers.indexOf(observer), 1);
+      }
+    }
+  }
+
+  private createExitRecord(status: TaskStatus | 'restarting'): RuntimeRecordValue {
+    return new RuntimeRecordValue('TaskExit', [
+      ['task', this],
+      ['name', this.name],
+      ['status', status],
+      ['reason', status === 'completed' ? '' : this.error ?? ''],
+      ['restarts', this.restarts]
+    ]);
+  }
 
   public send(message: RuntimeValue): void {
+    // Hand the message straight to the oldest pending receiver, if any
+    while (this.waiters.length > 0) {
+      const waiter = this.waiters.shift()!;
+      if (!waiter.claim || waiter.claim()) {
+        this.settleWaiter(waiter, message);
+        return;
+      }
+      this.settleWaiter(waiter, null);
+    }
     this.mailbox.push(message);
   }
 
-  public receive(timeout?: number): Promise<RuntimeValue | null> {
+  // Mailboxes are unbounded, so this never waits
+  public post(message: RuntimeValue): boolean {
+    this.send(message);
+    return true;
+  }
+
+  public receive(timeout?: number, signal?: AbortSignal, claim?: ReceiveClaim): Promise<RuntimeValue | null> {
     if (this.mailbox.length > 0) {
-      return Promise.resolve(this.mailbox.shift() || null);
+      if (claim && !claim()) {
+        return Promise.resolve(null);
+      }
+      return Promise.resolve(this.mailbox.shift()!);
     }
 
-    if (timeout === 0) {
+    if (timeout === 0 || signal?.aborted) {
       return Promise.resolve(null);
     }
 
+    this.status = 'waiting';
     return new Promise((resolve) => {
-      const checkMessages = () => {
-        if (this.mailbox.length > 0) {
-          resolve(this.mailbox.shift() || null);
-          return;
+      const waiter: MailboxWaiter = { resolve, claim };
+      const cancel = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+          this.settleWaiter(waiter, null);
         }
-        setTimeout(checkMessages, 10);
       };
-
       if (timeout && timeout > 0) {
-        setTimeout(() => resolve(null), timeout);
+        waiter.timer = setTimeout(cancel, timeout);
+      }
+      if (signal) {
+        signal.addEventListener('abort', cancel, { once: true });
+        waiter.detach = () => signal.removeEventListener('abort', cancel);
+      }
+      this.waiters.push(waiter);
+    });
+  }
+
+  private settleWaiter(waiter: MailboxWaiter, message: RuntimeValue | null): void {
+    if (waiter.timer !== undefined) {
+      clearTimeout(waiter.timer);
+    }
+    waiter.detach?.();
+    if (this.waiters.length === 0 && this.status === 'waiting') {
+      this.status = 'running';
+    }
+    waiter.resolve(message);
+  }
+}
+
+interface ChannelSender {
+  readonly message: RuntimeValue;
+  readonly resolve: (accepted: boolean) => void;
+  detach?: () => void;
+}
+
+export class ChannelValue {
+  public readonly kind = 'channel' as const;
+  public readonly buffer: RuntimeValue[] = [];
+  public closed = false;
+  private readonly receivers: MailboxWaiter[] = [];
+  private readonly senders: ChannelSender[] = [];
+  private readonly subscribers: ChannelValue[] = [];
+  private subscriptionCounter = 0;
+
+  constructor(
+    public readonly id: string,
+    public readonly elementType: string | undefined, // Declared OF type, if any
+    public readonly capacity: number
+  ) {}
+
+  /**
+   * Resolves once the message is buffered or handed to a receiver. A full buffer makes the
+   * sender wait for space; resolves false if the channel is (or gets) closed first.
+   */
+  public send(message: RuntimeValue, signal?: AbortSignal): Promise<boolean> {
+    if (this.closed) {
+      return Promise.resolve(false);
+    }
+
+    const receiver = this.takeReceiver();
+    if (receiver) {
+      this.settleReceiver(receiver, message);
+      return Promise.resolve(true);
+    }
+
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(message);
+      return Promise.resolve(true);
+    }
+
+    if (signal?.aborted) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise((resolve) => {
+      const sender: ChannelSender = { message, resolve };
+      if (signal) {
+        const cancel = () => {
+          const index = this.senders.indexOf(sender);
+          if (index !== -1) {
+            this.senders.splice(index, 1);
+            this.settleSender(sender, false);
+          }
+        };
+        signal.addEventListener('abort', cancel, { once: true });
+        sender.detach = () => signal.removeEventListener('abort', cancel);
       }
+      this.senders.push(sender);
+    });
+  }
+
+  /**
+   * Buffer a message without waiting, past the capacity if need be, for task exit records that
+   * must neither hold up the exiting task nor get lost. Returns false if the channel is closed.
+   */
+  public post(message: RuntimeValue): boolean {
+    if (this.closed) {
+      return false;
+    }
+    const receiver = this.takeReceiver();
+    if (receiver) {
+      this.settleReceiver(receiver, message);
+    } else {
+      this.buffer.push(message);
+    }
+    return true;
+  }
 
-      checkMessages();
+  /**
+   * Take the next message. Returns NULL on timeout, on abort, or once a closed channel is drained.
+   */
+  public receive(timeout?: number, signal?: AbortSignal, claim?: ReceiveClaim): Promise<RuntimeValue | null> {
+    const ready = this.buffer.length > 0 || this.senders.length > 0 || this.closed;
+    if (ready && claim && !claim()) {
+      return Promise.resolve(null);
+    }
+
+    if (this.buffer.length > 0) {
+      const message = this.buffer.shift()!;
+      this.admitSender();
+      return Promise.resolve(message);
+    }
+
+    // Unbuffered channels hand over straight from a blocked sender
+    const sender = this.senders.shift();
+    if (sender) {
+      this.settleSender(sender, true);
+      return Promise.resolve(sender.message);
+    }
+
+    if (this.closed || timeout === 0 || signal?.aborted) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      const receiver: MailboxWaiter = { resolve, claim };
+      const cancel = () => {
+        const index = this.receivers.indexOf(receiver);
+        if (index !== -1) {
+          this.receivers.splice(index, 1);
+          this.settleReceiver(receiver, null);
+        }
+      };
+      if (timeout && timeout > 0) {
+        receiver.timer = setTimeout(cancel, timeout);
+      }
+      if (signal) {
+        signal.addEventListener('abort', cancel, { once: true });
+        receiver.detach = () => signal.removeEventListener('abort', cancel);
+      }
+      this.receivers.push(receiver);
     });
   }
+
+  /**
+   * Create a channel that gets a copy of every BROADCAST on this one.
+   */
+  public subscribe(): ChannelValue {
+    const subscription = new ChannelValue(
+      `${this.id}.sub_${++this.subscriptionCounter}`,
+      this.elementType,
+      Math.max(this.capacity, 1)
+    );
+    if (this.closed) {
+      subscription.close();
+    } else {
+      this.subscribers.push(subscription);
+    }
+    return subscription;
+  }
+
+  public get subscriberCount(): number {
+    return this.subscribers.length;
+  }
+
+  /**
+   * Deliver a message to every open subscriber, waiting on any whose buffer is full.
+   */
+  public async broadcast(message: RuntimeValue, signal?: AbortSignal): Promise<boolean> {
+    if (this.closed) {
+      return false;
+    }
+
+    for (const subscriber of [...this.subscribers]) {
+      const accepted = await subscriber.send(message, signal);
+      if (!accepted && subscriber.closed) {
+        // Subscribers that closed their end drop out of future broadcasts
+        const index = this.subscribers.indexOf(subscriber);
+        if (index !== -1) {
+          this.subscribers.splice(index, 1);
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Stop accepting messages. Buffered messages can still be received; blocked receivers get NULL,
+   * blocked senders are rejected, and subscriptions close too.
+   */
+  public close(): boolean {
+    if (this.closed) {
+      return false;
+    }
+
+    this.closed = true;
+    while (this.receivers.length > 0) {
+      const receiver = this.receivers.shift()!;
+      receiver.claim?.();
+      this.settleReceiver(receiver, null);
+    }
+    while (this.senders.length > 0) {
+      this.settleSender(this.senders.shift()!, false);
+    }
+    for (const subscriber of this.subscribers.splice(0)) {
+      subscriber.close();
+    }
+    return true;
+  }
+
+  private takeReceiver(): MailboxWaiter | undefined {
+    while (this.receivers.length > 0) {
+      const receiver = this.receivers.shift()!;
+      if (!receiver.claim || receiver.claim()) {
+        return receiver;
+      }
+      // Another source of the same SELECT RECEIVE already won
+      this.settleReceiver(receiver, null);
+    }
+    return undefined;
+  }
+
+  private admitSender(): void {
+    const sender = this.senders.shift();
+    if (sender) {
+      this.buffer.push(sender.message);
+      this.settleSender(sender, true);
+    }
+  }
+
+  private settleSender(sender: ChannelSender, accepted: boolean): void {
+    sender.detach?.();
+    sender.resolve(accepted);
+  }
+
+  private settleReceiver(receiver: MailboxWaiter, message: RuntimeValue | null): void {
+    if (receiver.timer !== undefined) {
+      clearTimeout(receiver.timer);
+    }
+    receiver.detach?.();
+    receiver.resolve(message);
+  }
 }
 
 export type RuntimeValue =
@@ -137,7 +562,8 @@ export type RuntimeValue =
   | BoundHostFunctionValue
   | RuntimeValue[]
   | RuntimeRecordValue
-  | TaskValue;
+  | TaskValue
+  | ChannelValue;
 
 export function isRecordValue(value: RuntimeValue): value is RuntimeRecordValue {
   return value instanceof RuntimeRecordValue;
@@ -146,3 +572,7 @@ export function isRecordValue(value: RuntimeValue): value is RuntimeRecordValue
 export function isTaskValue(value: RuntimeValue): value is TaskValue {
   return value instanceof TaskValue;
 }
+
+export function isChannelValue(value: RuntimeValue): value is ChannelValue {
+  return value instanceof ChannelValue;
+}
@@ -28,14 +28,26 @@ export interface Token {
   literal: TokenLiteral;
   line: number;
   column: number;
+  file?: string; // Set for tokens from an IMPORTed module
+}
+
+export interface SourceLocation {
+  readonly line: number;
+  readonly column: number;
+  readonly file?: string;
+}
+
+export function formatLocation(location: SourceLocation): string {
+  const prefix = location.file ? `${location.file}, ` : '';
+  return `${prefix}line ${location.line}, column ${location.column}`;
 }
 
 export class TokenizeError extends Error {
   public readonly line: number;
   public readonly column: number;
 
-  constructor(message: string, line: number, column: number) {
-    super(`${message} (line ${line}, column ${column})`);
+  constructor(public readonly detail: string, line: number, column: number, public readonly file?: string) {
+    super(`${detail} (${formatLocation({ line, column, file })})`);
     this.name = 'TokenizeError';
     this.line = line;
     this.column = column;
@@ -54,8 +66,11 @@ const KEYWORDS = new Set<string>([
   'STEP',
   'NEXT',
   'RETURN',
+  'GOTO',
+  'GOSUB',
   'END',
   'STOP',
+  'CONT',
   'AND',
   'OR',
   'NOT',
@@ -75,6 +90,7 @@ const KEYWORDS = new Set<string>([
   'LOOP',
   'ON',
   'ERROR',
+  'RETHROW',
   'TRY',
   'CATCH',
   'FINALLY',
@@ -85,8 +101,10 @@ const KEYWORDS = new Set<string>([
   'PERSISTENCE',
   'SPAWN',
   'KILL',
+  'JOIN',
   'LIST',
   'DIM',
+  'REDIM',
   'AS',
   'CONST',
   'TYPE',
@@ -103,6 +121,7 @@ const KEYWORDS = new Set<string>([
   'CHANNEL',
   'BUFFER',
   'SEND',
+  'RECV',
   'RECEIVE',
   'BROADCAST',
   'SLEEP',
@@ -144,6 +163,7 @@ const MULTI_CHAR_OPERATORS = new Set(['<>', '<=', '>=']);
 
 export interface TokenizerOptions {
   includeComments?: boolean;
+  fileName?: string; // Stamped on every token so errors can name the file
 }
 
 interface Cursor {
@@ -157,6 +177,27 @@ interface Cursor {
  * Tokenize BASIC9000 source into a flat token stream.
  */
 export function tokenize(source: string, options: TokenizerOptions = {}): Token[] {
+  const { fileName } = options;
+  if (!fileName) {
+    return scanTokens(source, options);
+  }
+
+  let tokens: Token[];
+  try {
+    tokens = scanTokens(source, options);
+  } catch (error) {
+    if (error instanceof TokenizeError) {
+      throw new TokenizeError(error.detail, error.line, error.column, fileName);
+    }
+    throw error;
+  }
+  for (const token of tokens) {
+    token.file = fileName;
+  }
+  return tokens;
+}
+
+function scanTokens(source: string, options: TokenizerOptions): Token[] {
   const cursor: Cursor = {
     source,
     index: 0,
@@ -173,18 +214,19 @@ export function tokenize(source: string, options: TokenizerOptions = {}): Token[
       break;
     }
 
+    // A newline token sits where the line ended, so "expected ..." errors point past the last token
     if (char === '\n') {
+      tokens.push(createToken(TokenType.Newline, '\n', undefined, cursor.line, cursor.column));
       advance(cursor);
-      tokens.push(createToken(TokenType.Newline, '\n', undefined, cursor.line - 1, 1));
       continue;
     }
 
     if (char === '\r') {
+      tokens.push(createToken(TokenType.Newline, '\n', undefined, cursor.line, cursor.column));
       advance(cursor);
       if (peek(cursor) === '\n') {
         advance(cursor);
       }
-      tokens.push(createToken(TokenType.Newline, '\n', undefined, cursor.line - 1, 1));
       continue;
     }
 
@@ -0,0 +1,247 @@
+import type {
+  ExpressionNode,
+  FunctionStatementNode,
+  IdentifierNode,
+  LetStatementNode,
+  ParameterNode,
+  ProgramNode,
+  PropertyStatementNode,
+  StatementNode,
+  SubStatementNode,
+  TypeAnnotationNode,
+  TypeDeclarationNode
+} from '../interpreter/ast.js';
+import { ParseError, parseTokens } from '../interpreter/parser.js';
+import { TokenType, TokenizeError, tokenize, type Token } from '../interpreter/tokenizer.js';
+
+/** Zero-based line and UTF-16 character offset, as LSP counts them. */
+export interface Position {
+  readonly line: number;
+  readonly character: number;
+}
+
+export interface Range {
+  readonly start: Position;
+  readonly end: Position;
+}
+
+export type RoutineDeclaration = FunctionStatementNode | SubStatementNode;
+
+export type Declaration = RoutineDeclaration | TypeDeclarationNode | PropertyStatementNode;
+
+/**
+ * One open .bas file: its tokens, the partial program recovered from them and the
+ * declarations editor features look names up in.
+ */
+export class BasicDocument {
+  public readonly tokens: readonly Token[];
+  public readonly program: ProgramNode;
+  public readonly errors: readonly (ParseError | TokenizeError)[];
+  public readonly declarations: readonly Declaration[];
+  private readonly variableTypes = new Map<string, string>(); // First declared or assigned type per name
+
+  constructor(public readonly uri: string, public readonly text: string) {
+    const diagnostics: ParseError[] = [];
+    let tokens: Token[] = [];
+    let tokenizeError: TokenizeError | undefined;
+    try {
+      tokens = tokenize(text);
+    } catch (error) {
+      if (!(error instanceof TokenizeError)) {
+        throw error;
+      }
+      tokenizeError = error;
+    }
+    // The tokenizer stops at its first error, leaving nothing to parse
+    this.tokens = tokens;
+    this.program = tokenizeError ? { type: 'Program', lines: [], data: [] } : parseTokens(tokens, { diagnostics });
+    this.errors = tokenizeError ? [tokenizeError] : diagnostics;
+
+    const declarations: Declaration[] = [];
+    const assignments: LetStatementNode[] = [];
+    walk(this.program.lines.flatMap((line) => line.statements), (node) => {
+      switch (node.type) {
+        case 'FunctionStatement':
+        case 'SubStatement':
+          declarations.push(node);
+          node.parameters.forEach((parameter) => this.recordParameter(parameter));
+          break;
+        case 'TypeDeclaration':
+          declarations.push(node);
+          break;
+        case 'PropertyStatement':
+          declarations.push(node);
+          this.recordParameter(node.selfParam);
+          break;
+        case 'DimStatement':
+          this.recordVariable(node.name.name, node.dimensions ? 'ARRAY' : node.typeAnnotation?.name);
+          break;
+        case 'LetStatement':
+          if (node.target.type === 'Identifier') {
+            assignments.push(node);
+          }
+          break;
+        default:
+          break;
+      }
+    });
+    this.declarations = declarations;
+    // Resolved once every FUNCTION is known, since a call may precede its declaration
+    for (const assignment of assignments) {
+      const name = (assignment.target as IdentifierNode).name;
+      this.recordVariable(name, assignment.typeAnnotation?.name ?? this.inferExpressionType(assignment.value));
+    }
+  }
+
+  public get routines(): RoutineDeclaration[] {
+    return this.declarations.filter(
+      (declaration): declaration is RoutineDeclaration =>
+        declaration.type === 'FunctionStatement' || declaration.type === 'SubStatement'
+    );
+  }
+
+  public findType(name: string): TypeDeclarationNode | undefined {
+    return this.declarations.find(
+      (declaration): declaration is TypeDeclarationNode => declaration.type === 'TypeDeclaration' && declaration.name.name === name
+    );
+  }
+
+  /** The declared or inferred TYPE of a variable, or STRING for `name$`. */
+  public getVariableType(name: string): string | undefined {
+    return this.variableTypes.get(name) ?? (name.endsWith('$') ? 'STRING' : undefined);
+  }
+
+  /**
+   * The token under the cursor, with its index so callers can look at its neighbours. A cursor
+   * just past the end of a word still counts as on it.
+   */
+  public tokenAt(position: Position): { token: Token; index: number } | undefined {
+    const line = position.line + 1;
+    const column = position.character + 1;
+    const covers = (token: Token, slack: number): boolean =>
+      token.line === line && token.type !== TokenType.Newline && token.type !== TokenType.EOF &&
+      column >= token.column && column < token.column + token.lexeme.length + slack;
+    let index = this.tokens.findIndex((token) => covers(token, 0));
+    if (index === -1) {
+      index = this.tokens.findIndex((token) => covers(token, 1));
+    }
+    return index === -1 ? undefined : { token: this.tokens[index]!, index };
+  }
+
+  /** The span from a declaration's keyword to the end of its END line. */
+  public rangeOfBlock(declaration: Declaration): Range {
+    const closing = declaration.type === 'FunctionStatement'
+      ? 'FUNCTION'
+      : declaration.type === 'SubStatement'
+        ? 'SUB'
+        : declaration.type === 'TypeDeclaration'
+          ? 'TYPE'
+          : 'PROPERTY';
+    const start = this.tokens.indexOf(declaration.token);
+    for (let index = start + 1; index < this.tokens.length - 1; index += 1) {
+      const token = this.tokens[index]!;
+      if (isKeyword(token, 'END') && isKeyword(this.tokens[index + 1]!, closing)) {
+        return { start: toPosition(declaration.token), end: endOf(this.tokens[index + 1]!) };
+      }
+    }
+    return rangeOf(declaration.token);
+  }
+
+  private inferExpressionType(expression: ExpressionNode): string | undefined {
+    switch (expression.type) {
+      case 'RecordLiteral':
+      case 'NewExpression':
+        return expression.typeName.name;
+      case 'StringLiteral':
+        return 'STRING';
+      case 'NumberLiteral':
+        return 'NUMBER';
+      case 'ArrayLiteral':
+        return 'ARRAY';
+      case 'CallExpression': {
+        const callee = expression.callee;
+        const routine = callee.type === 'Identifier'
+          ? this.routines.find((declaration) => declaration.name.name === callee.name)
+          : undefined;
+        return routine?.type === 'FunctionStatement' ? routine.returnType?.name : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private recordParameter(parameter: ParameterNode): void {
+    this.recordVariable(parameter.name.name, parameter.typeAnnotation?.name);
+  }
+
+  private recordVariable(name: string, typeName: string | undefined): void {
+    if (typeName && !this.variableTypes.has(name)) {
+      this.variableTypes.set(name, typeName);
+    }
+  }
+}
+
+export function toPosition(token: Token): Position {
+  return { line: token.line - 1, character: token.column - 1 };
+}
+
+export function rangeOf(token: Token): Range {
+  return { start: toPosition(token), end: endOf(token) };
+}
+
+export function formatParameter(parameter: ParameterNode): string {
+  const prefix = parameter.isRef ? 'REF ' : parameter.isVarArgs ? '...' : '';
+  return `${prefix}${parameter.name.name}${parameter.typeAnnotation ? ` AS ${formatAnnotation(parameter.typeAnnotation)}` : ''}`;
+}
+
+/** The declaration line of a routine, TYPE or PROPERTY as it would appear in source. */
+export function formatSignature(declaration: Declaration): string {
+  switch (declaration.type) {
+    case 'FunctionStatement':
+      return `FUNCTION ${declaration.name.name}(${declaration.parameters.map(formatParameter).join(', ')})` +
+        (declaration.returnType ? ` AS ${formatAnnotation(declaration.returnType)}` : '');
+    case 'SubStatement':
+      return `SUB ${declaration.name.name}(${declaration.parameters.map(formatParameter).join(', ')})`;
+    case 'TypeDeclaration':
+      return [
+        `TYPE ${declaration.name.name}`,
+        ...declaration.fields.map((field) => `  ${field.name.name} AS ${formatAnnotation(field.annotation)}`),
+        'END TYPE'
+      ].join('\n');
+    case 'PropertyStatement':
+      return `PROPERTY ${declaration.typeName.name}.${declaration.name.name}(${formatParameter(declaration.selfParam)})` +
+        ` AS ${formatAnnotation(declaration.returnType)} ${declaration.accessorType}`;
+  }
+}
+
+function formatAnnotation(annotation: TypeAnnotationNode): string {
+  return annotation.typeArguments?.length
+    ? `${annotation.name} OF ${annotation.typeArguments.map(formatAnnotation).join(', ')}`
+    : annotation.name;
+}
+
+function endOf(token: Token): Position {
+  return { line: token.line - 1, character: token.column - 1 + token.lexeme.length };
+}
+
+function isKeyword(token: Token, keyword: string): boolean {
+  return token.type === TokenType.Keyword && token.lexeme === keyword;
+}
+
+// Visits every statement and expression node, however deeply nested in blocks and clauses
+function walk(nodes: readonly unknown[], visit: (node: StatementNode) => void): void {
+  for (const node of nodes) {
+    if (!node || typeof node !== 'object') {
+      continue;
+    }
+    if ('type' in node && 'token' in node && typeof node.type === 'string') {
+      visit(node as StatementNode);
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (key === 'token' || !value || typeof value !== 'object') {
+        continue;
+      }
+      walk(Array.isArray(value) ? value : [value], visit);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import type { Readable, Writable } from 'node:stream';
+
+const HEADER_DELIMITER = '\r\n\r\n';
+
+/**
+ * The base protocol LSP and DAP share: each message is a `Content-Length` header block followed by
+ * that many bytes of UTF-8 JSON. Calls `onBody` with each message body as it arrives, in order.
+ */
+export function readFramedMessages(input: Readable, onBody: (body: string) => void): void {
+  let buffer = Buffer.alloc(0);
+  input.on('data', (chunk: Buffer | string) => {
+    buffer = Buffer.concat([buffer, typeof chunk === 'string' ? Buffer.from(chunk) : chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) {
+        return;
+      }
+      const header = buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /Content-Length:\s*(\d+)/i.exec(header);
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      if (!match) {
+        // Unframed garbage; drop it and resynchronize on the next header
+        buffer = buffer.subarray(bodyStart);
+        continue;
+      }
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (buffer.length < bodyEnd) {
+        return;
+      }
+      const body = buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      buffer = buffer.subarray(bodyEnd);
+      onBody(body);
+    }
+  });
+}
+
+export function writeFramedMessage(output: Writable, message: object): void {
+  const body = Buffer.from(JSON.stringify(message), 'utf8');
+  output.write(`Content-Length: ${body.length}${HEADER_DELIMITER}`);
+  output.write(body);
+}
@@ -0,0 +1,95 @@
+import type { Readable, Writable } from 'node:stream';
+
+import { readFramedMessages, writeFramedMessage } from './framing.js';
+
+export interface JsonRpcMessage {
+  readonly jsonrpc: '2.0';
+  readonly id?: number | string | null;
+  readonly method?: string;
+  readonly params?: unknown;
+  readonly result?: unknown;
+  readonly error?: { readonly code: number; readonly message: string };
+}
+
+export type RequestHandler = (params: unknown) => unknown | Promise<unknown>;
+export type NotificationHandler = (params: unknown) => void | Promise<void>;
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  MethodNotFound: -32601,
+  InternalError: -32603
+} as const;
+
+/**
+ * JSON-RPC 2.0 over a byte stream using the LSP base protocol: each message is a
+ * `Content-Length` header block followed by that many bytes of UTF-8 JSON.
+ */
+export class JsonRpcConnection {
+  private readonly requestHandlers = new Map<string, RequestHandler>();
+  private readonly notificationHandlers = new Map<string, NotificationHandler>();
+  private pending: Promise<void> = Promise.resolve(); // Messages are handled one at a time, in arrival order
+
+  constructor(private readonly input: Readable, private readonly output: Writable) {}
+
+  public onRequest(method: string, handler: RequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  public onNotification(method: string, handler: NotificationHandler): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  public listen(): void {
+    readFramedMessages(this.input, (body) => {
+      this.pending = this.pending.then(() => this.dispatch(body));
+    });
+  }
+
+  public sendNotification(method: string, params: unknown): void {
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  private async dispatch(body: string): Promise<void> {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(body) as JsonRpcMessage;
+    } catch {
+      this.write({ jsonrpc: '2.0', id: null, error: { code: ErrorCodes.ParseError, message: 'Invalid JSON' } });
+      return;
+    }
+    if (!message.method) {
+      return; // Responses to server-initiated requests are not used
+    }
+
+    const isRequest = message.id !== undefined;
+    if (!isRequest) {
+      try {
+        await this.notificationHandlers.get(message.method)?.(message.params);
+      } catch {
+        // Notifications have no response to carry the failure; keep serving later messages
+      }
+      return;
+    }
+
+    const handler = this.requestHandlers.get(message.method);
+    if (!handler) {
+      this.write({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: ErrorCodes.MethodNotFound, message: `Unhandled method ${message.method}` }
+      });
+      return;
+    }
+    try {
+      const result = await handler(message.params);
+      this.write({ jsonrpc: '2.0', id: message.id, result: result ?? null });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.write({ jsonrpc: '2.0', id: message.id, error: { code: ErrorCodes.InternalError, message: reason } });
+    }
+  }
+
+  private write(message: JsonRpcMessage): void {
+    writeFramedMessage(this.output, message);
+  }
+}
@@ -0,0 +1,6 @@
+import { startLanguageServer } from './server.js';
+
+startLanguageServer(process.stdin, process.stdout, {
+  // Let pending responses reach the client before the process goes away
+  onExit: (code) => process.stdout.write('', () => process.exit(code))
+});
@@ -0,0 +1,294 @@
+import type { Readable, Writable } from 'node:stream';
+
+import { createDefaultHostEnvironment } from '../interpreter/host-defaults.js';
+import {
+  isHostFunction,
+  isHostNamespace,
+  type HostEntry,
+  type HostEnvironment,
+  type HostFunctionValue,
+  type HostNamespaceValue
+} from '../interpreter/host.js';
+import { TokenType } from '../interpreter/tokenizer.js';
+import { BasicDocument, formatSignature, rangeOf, type Declaration, type Position, type Range } from './document.js';
+import { JsonRpcConnection } from './json-rpc.js';
+
+export interface LanguageServerOptions {
+  readonly hostEnvironment?: HostEnvironment; // Namespaces offered in hovers and completions
+  readonly onExit?: (code: number) => void; // Called for the `exit` notification
+}
+
+// Numeric enums from the LSP specification
+const TextDocumentSyncKind = { Full: 1 } as const;
+const DiagnosticSeverity = { Error: 1 } as const;
+const CompletionItemKind = { Method: 2, Function: 3, Field: 5, Module: 9, Property: 10, Struct: 22 } as const;
+const SymbolKind = { Module: 2, Property: 7, Field: 8, Function: 12, Struct: 23 } as const;
+
+// Host namespaces whose functions UFCS can call on a receiver of the given type
+const UFCS_NAMESPACES: Readonly<Record<string, string>> = { STRING: 'STR', ARRAY: 'ARRAY' };
+
+interface TextDocumentPositionParams {
+  readonly textDocument: { readonly uri: string };
+  readonly position: Position;
+}
+
+interface CompletionItem {
+  readonly label: string;
+  readonly kind: number;
+  readonly detail?: string;
+}
+
+interface DocumentSymbol {
+  readonly name: string;
+  readonly detail?: string;
+  readonly kind: number;
+  readonly range: Range;
+  readonly selectionRange: Range;
+  readonly children?: DocumentSymbol[];
+}
+
+/**
+ * Language server for .bas files: diagnostics, hover, go-to-definition, UFCS completion and
+ * document symbols, driven by JSON-RPC messages on the given streams.
+ */
+export class LanguageServer {
+  private readonly documents = new Map<string, BasicDocument>();
+  private readonly hostEnvironment: HostEnvironment;
+  private shutdownRequested = false;
+
+  constructor(private readonly connection: JsonRpcConnection, private readonly options: LanguageServerOptions = {}) {
+    this.hostEnvironment = options.hostEnvironment ?? createDefaultHostEnvironment();
+
+    connection.onRequest('initialize', () => ({
+      capabilities: {
+        textDocumentSync: TextDocumentSyncKind.Full,
+        hoverProvider: true,
+        definitionProvider: true,
+        completionProvider: { triggerCharacters: ['.'] },
+        documentSymbolProvider: true
+      },
+      serverInfo: { name: 'basic9000-lsp' }
+    }));
+    connection.onRequest('shutdown', () => {
+      this.shutdownRequested = true;
+      return null;
+    });
+    connection.onNotification('exit', () => this.options.onExit?.(this.shutdownRequested ? 0 : 1));
+
+    connection.onNotification('textDocument/didOpen', (params) => {
+      const { textDocument } = params as { textDocument: { uri: string; text: string } };
+      this.update(textDocument.uri, textDocument.text);
+    });
+    connection.onNotification('textDocument/didChange', (params) => {
+      const { textDocument, contentChanges } = params as {
+        textDocument: { uri: string };
+        contentChanges: readonly { text: string }[];
+      };
+      const latest = contentChanges[contentChanges.length - 1];
+      if (latest) {
+        this.update(textDocument.uri, latest.text);
+      }
+    });
+    connection.onNotification('textDocument/didClose', (params) => {
+      const { textDocument } = params as { textDocument: { uri: string } };
+      this.documents.delete(textDocument.uri);
+      connection.sendNotification('textDocument/publishDiagnostics', { uri: textDocument.uri, diagnostics: [] });
+    });
+
+    connection.onRequest('textDocument/hover', (params) => this.hover(params as TextDocumentPositionParams));
+    connection.onRequest('textDocument/definition', (params) => this.definition(params as TextDocumentPositionParams));
+    connection.onRequest('textDocument/completion', (params) => this.completion(params as TextDocumentPositionParams));
+    connection.onRequest('textDocument/documentSymbol', (params) => {
+      const { textDocument } = params as { textDocument: { uri: string } };
+      const document = this.documents.get(textDocument.uri);
+      return document ? document.declarations.map((declaration) => this.toSymbol(document, declaration)) : [];
+    });
+  }
+
+  private update(uri: string, text: string): void {
+    const document = new BasicDocument(uri, text);
+    this.documents.set(uri, document);
+    this.connection.sendNotification('textDocument/publishDiagnostics', {
+      uri,
+      diagnostics: document.errors.map((error) => {
+        const token = 'token' in error
+          ? error.token
+          : { type: TokenType.Identifier, lexeme: ' ', literal: undefined, line: error.line, column: error.column };
+        return { range: rangeOf(token), severity: DiagnosticSeverity.Error, source: 'basic9000', message: error.detail };
+      })
+    });
+  }
+
+  private hover(params: TextDocumentPositionParams): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    const found = document?.tokenAt(params.position);
+    if (!document || !found || found.token.type !== TokenType.Identifier) {
+      return null;
+    }
+
+    const { token, index } = found;
+    const namespace = this.getQualifier(document, index);
+    const hostEntry = namespace ? namespace.getMember(token.lexeme) : this.hostEnvironment.get(token.lexeme);
+    let text: string | undefined;
+    if (hostEntry && isHostFunction(hostEntry)) {
+      text = formatHostSignature(hostEntry);
+    } else if (hostEntry && isHostNamespace(hostEntry)) {
+      text = `${hostEntry.name}: ${hostEntry.listMembers().join(', ')}`;
+    } else {
+      const declaration = this.findDeclarations(document, token.lexeme, index)[0];
+      text = declaration ? formatSignature(declaration) : undefined;
+    }
+
+    return text ? { contents: { kind: 'markdown', value: ['```basic', text, '```'].join('\n') }, range: rangeOf(token) } : null;
+  }
+
+  private definition(params: TextDocumentPositionParams): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    const found = document?.tokenAt(params.position);
+    if (!document || !found || found.token.type !== TokenType.Identifier) {
+      return [];
+    }
+    return this.findDeclarations(document, found.token.lexeme, found.index).map((declaration) => ({
+      uri: document.uri,
+      range: rangeOf(declaration.name.token)
+    }));
+  }
+
+  private completion(params: TextDocumentPositionParams): CompletionItem[] {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return [];
+    }
+    // The line being typed rarely parses, so read the receiver straight from the text
+    const lineText = document.text.split(/\r?\n/)[params.position.line] ?? '';
+    const receiver = /([A-Za-z_][A-Za-z0-9_]*\$?)\s*\.\s*[A-Za-z0-9_]*$/.exec(lineText.slice(0, params.position.character))?.[1];
+    if (!receiver) {
+      return this.globalCompletions(document);
+    }
+
+    const hostEntry = this.hostEnvironment.get(receiver);
+    if (hostEntry && isHostNamespace(hostEntry)) {
+      return namespaceCompletions(hostEntry);
+    }
+    return this.methodCompletions(document, document.getVariableType(receiver));
+  }
+
+  // Fields and PROPERTYs of the receiver's TYPE, then routines that take it as their first argument
+  private methodCompletions(document: BasicDocument, receiverType: string | undefined): CompletionItem[] {
+    const items: CompletionItem[] = [];
+    const typeDeclaration = receiverType ? document.findType(receiverType) : undefined;
+    for (const field of typeDeclaration?.fields ?? []) {
+      items.push({ label: field.name.name, kind: CompletionItemKind.Field, detail: `${field.name.name} AS ${field.annotation.name}` });
+    }
+    for (const declaration of document.declarations) {
+      if (declaration.type === 'PropertyStatement' && declaration.typeName.name === receiverType) {
+        items.push({ label: declaration.name.name, kind: CompletionItemKind.Property, detail: formatSignature(declaration) });
+      }
+    }
+    for (const routine of document.routines) {
+      const self = routine.parameters[0];
+      const selfType = self?.typeAnnotation?.name;
+      if (self && (!receiverType || !selfType || selfType === receiverType || selfType === 'ANY')) {
+        items.push({ label: routine.name.name, kind: CompletionItemKind.Method, detail: formatSignature(routine) });
+      }
+    }
+    const namespace = receiverType ? this.hostEnvironment.get(UFCS_NAMESPACES[receiverType] ?? '') : undefined;
+    if (namespace && isHostNamespace(namespace)) {
+      items.push(...namespaceCompletions(namespace).map((item) => ({ ...item, kind: CompletionItemKind.Method })));
+    }
+    return items;
+  }
+
+  private globalCompletions(document: BasicDocument): CompletionItem[] {
+    const items: CompletionItem[] = document.declarations.flatMap((declaration): CompletionItem[] => {
+      switch (declaration.type) {
+        case 'FunctionStatement':
+        case 'SubStatement':
+          return [{ label: declaration.name.name, kind: CompletionItemKind.Function, detail: formatSignature(declaration) }];
+        case 'TypeDeclaration':
+          return [{ label: declaration.name.name, kind: CompletionItemKind.Struct }];
+        default:
+          return [];
+      }
+    });
+    for (const namespace of this.hostEnvironment.getAllNamespaces()) {
+      items.push({ label: namespace.name, kind: CompletionItemKind.Module });
+    }
+    return items;
+  }
+
+  // PROPERTY names only resolve after a dot; routines and TYPEs resolve anywhere
+  private findDeclarations(document: BasicDocument, name: string, tokenIndex: number): Declaration[] {
+    const afterDot = document.tokens[tokenIndex - 1]?.type === TokenType.Dot;
+    return document.declarations.filter(
+      (declaration) => declaration.name.name === name && (declaration.type !== 'PropertyStatement' || afterDot)
+    );
+  }
+
+  // The host namespace in `NS.member`, when the token at `index` is the member
+  private getQualifier(document: BasicDocument, index: number): HostNamespaceValue | undefined {
+    const dot = document.tokens[index - 1];
+    const qualifier = document.tokens[index - 2];
+    if (dot?.type !== TokenType.Dot || qualifier?.type !== TokenType.Identifier) {
+      return undefined;
+    }
+    const entry = this.hostEnvironment.get(qualifier.lexeme);
+    return entry && isHostNamespace(entry) ? entry : undefined;
+  }
+
+  private toSymbol(document: BasicDocument, declaration: Declaration): DocumentSymbol {
+    const range = document.rangeOfBlock(declaration);
+    const selectionRange = rangeOf(declaration.name.token);
+    switch (declaration.type) {
+      case 'TypeDeclaration':
+        return {
+          name: declaration.name.name,
+          kind: SymbolKind.Struct,
+          range,
+          selectionRange,
+          children: declaration.fields.map((field) => ({
+            name: field.name.name,
+            detail: field.annotation.name,
+            kind: SymbolKind.Field,
+            range: rangeOf(field.name.token),
+            selectionRange: rangeOf(field.name.token)
+          }))
+        };
+      case 'PropertyStatement':
+        return {
+          name: `${declaration.typeName.name}.${declaration.name.name}`,
+          detail: declaration.accessorType,
+          kind: SymbolKind.Property,
+          range,
+          selectionRange
+        };
+      default:
+        return { name: declaration.name.name, detail: formatSignature(declaration), kind: SymbolKind.Function, range, selectionRange };
+    }
+  }
+}
+
+/** Serve the language server protocol on a pair of streams, typically stdin and stdout. */
+export function startLanguageServer(input: Readable, output: Writable, options: LanguageServerOptions = {}): LanguageServer {
+  const connection = new JsonRpcConnection(input, output);
+  const server = new LanguageServer(connection, options);
+  connection.listen();
+  return server;
+}
+
+function namespaceCompletions(namespace: HostNamespaceValue): CompletionItem[] {
+  return namespace.listMembers().map((member) => {
+    const entry: HostEntry | undefined = namespace.getMember(member);
+    return entry && isHostFunction(entry)
+      ? { label: member, kind: CompletionItemKind.Function, detail: formatHostSignature(entry) }
+      : { label: member, kind: CompletionItemKind.Module };
+  });
+}
+
+// Host functions only declare an arity, so parameters are numbered
+function formatHostSignature(func: HostFunctionValue): string {
+  const parameters = typeof func.arity === 'number'
+    ? Array.from({ length: func.arity }, (_, index) => `arg${index + 1}`).join(', ')
+    : '...args';
+  return `${func.name}(${parameters})`;
+}
@@ -0,0 +1,31 @@
+10 REM CONFORMANCE TEST: GOTO, GOSUB/RETURN and ON...GOTO
+20 REM Classic line-numbered listing control flow
+30 LET count = 0
+40 LET count = count + 1
+50 IF count < 5 THEN 40
+60 IF count = 5 THEN PRINT "PASS: IF...THEN line jumps loop" ELSE PRINT "FAIL: Expected 5, got " + STR$(count)
+70 LET trail$ = ""
+80 GOSUB 500 : trail$ = trail$ + "b"
+90 GOSUB 500
+100 IF trail$ = "aba" THEN PRINT "PASS: RETURN resumes after the GOSUB statement" ELSE PRINT "FAIL: trail was " + trail$
+110 LET picked$ = ""
+120 FOR choice = 0 TO 4
+130   ON choice GOSUB 600, 610, 620
+140 NEXT choice
+150 IF picked$ = "xyz" THEN PRINT "PASS: ON...GOSUB skips out-of-range selectors" ELSE PRINT "FAIL: picked " + picked$
+160 LET level = 2
+170 ON level GOTO 180, 200
+180 PRINT "FAIL: ON...GOTO took the wrong branch"
+190 GOTO 210
+200 PRINT "PASS: ON...GOTO jumps to the selected line"
+210 GOSUB 700
+220 PRINT "PASS: Nested GOSUB returned to the main program"
+230 END
+500 trail$ = trail$ + "a"
+510 RETURN
+600 picked$ = picked$ + "x" : RETURN
+610 picked$ = picked$ + "y" : RETURN
+620 picked$ = picked$ + "z" : RETURN
+700 GOSUB 710
+705 RETURN
+710 RETURN
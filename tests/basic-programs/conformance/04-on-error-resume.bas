@@ -0,0 +1,19 @@
+10 REM CONFORMANCE TEST: ON ERROR GOTO with RESUME, RESUME NEXT, ERR and ERL
+20 ON ERROR GOTO 900
+30 LET failures = 0
+40 LET value = VAL("12") + "abc"
+50 IF failures = 1 AND lastErr = 13 AND lastErl = 40 THEN PRINT "PASS: RESUME NEXT skips the failing statement" ELSE PRINT "FAIL: ERR/ERL were " + STR$(lastErr) + "/" + STR$(lastErl)
+60 LET attempts = 0
+70 IF attempts < 2 THEN ERROR 53
+80 IF attempts = 2 AND lastErr = 53 THEN PRINT "PASS: RESUME retries the failing statement" ELSE PRINT "FAIL: attempts was " + STR$(attempts)
+90 TRY
+100   ERROR "caught locally"
+110 CATCH e
+120   PRINT "PASS: TRY/CATCH handles errors before ON ERROR"
+130 END TRY
+140 IF ERR = 0 AND failures = 3 THEN PRINT "PASS: ERR resets after RESUME" ELSE PRINT "FAIL: ERR was " + STR$(ERR)
+150 END
+900 failures = failures + 1
+910 lastErr = ERR : lastErl = ERL
+920 IF ERR = 53 THEN attempts = attempts + 1 : RESUME
+930 RESUME NEXT
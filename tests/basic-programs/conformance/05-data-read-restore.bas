@@ -0,0 +1,19 @@
+10 REM CONFORMANCE TEST: DATA, READ and RESTORE
+20 DIM rooms$(3)
+30 DIM exits(3)
+40 FOR i = 1 TO 3
+50   READ rooms$(i), exits(i)
+60 NEXT i
+70 IF rooms$(1) = "Entrance Hall" AND rooms$(3) = "Vault" AND exits(2) = 3 THEN PRINT "PASS: READ fills arrays from DATA" ELSE PRINT "FAIL: Rooms were " + rooms$(1) + "/" + rooms$(3)
+80 READ label$, offset
+90 IF label$ = "treasure room" AND offset = -4.5 THEN PRINT "PASS: Bare words and signed numbers read as values" ELSE PRINT "FAIL: Read " + label$ + " and " + STR$(offset)
+100 RESTORE 510
+110 READ first$
+120 IF first$ = "Library" THEN PRINT "PASS: RESTORE jumps to a DATA line" ELSE PRINT "FAIL: RESTORE read " + first$
+130 RESTORE
+140 READ first$
+150 IF first$ = "Entrance Hall" THEN PRINT "PASS: RESTORE rewinds to the first DATA value" ELSE PRINT "FAIL: RESTORE read " + first$
+160 END
+500 DATA "Entrance Hall", 2
+510 DATA "Library", 3, "Vault", 1
+520 DATA treasure room, -4.5
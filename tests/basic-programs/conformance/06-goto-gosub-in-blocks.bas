@@ -0,0 +1,36 @@
+10 REM CONFORMANCE TEST: GOTO and GOSUB/RETURN inside WHILE, DO and block IF bodies
+20 LET n = 0
+30 LET calls = 0
+40 WHILE n < 3
+50   GOSUB 500
+60   n = n + 1
+70 WEND
+80 IF calls = 3 AND n = 3 THEN PRINT "PASS: GOSUB inside WHILE runs on every pass" ELSE PRINT "FAIL: calls was " + STR$(calls)
+90 LET n = 0
+100 WHILE n < 10
+110   n = n + 1
+120   IF n = 2 THEN GOTO 140
+130 WEND
+140 IF n = 2 THEN PRINT "PASS: GOTO leaves a WHILE loop" ELSE PRINT "FAIL: n was " + STR$(n)
+150 LET trail$ = ""
+160 IF n = 2 THEN
+170   GOSUB 600
+180   trail$ = trail$ + "b"
+190 END IF
+200 trail$ = trail$ + "c"
+210 IF trail$ = "abc" THEN PRINT "PASS: RETURN resumes inside a block IF" ELSE PRINT "FAIL: trail was " + trail$
+220 LET n = 0
+230 DO
+240   n = n + 1
+250   IF n = 4 THEN GOTO 270
+260 WHILE TRUE
+270 IF n = 4 THEN PRINT "PASS: GOTO leaves a DO loop" ELSE PRINT "FAIL: n was " + STR$(n)
+280 ON ERROR GOTO 900
+290 RETURN
+300 END
+500 calls = calls + 1
+510 RETURN
+600 trail$ = trail$ + "a"
+610 RETURN
+900 IF ERR = 3 THEN PRINT "PASS: No GOSUB is left behind by the loop" ELSE PRINT "FAIL: ERR was " + STR$(ERR)
+910 END
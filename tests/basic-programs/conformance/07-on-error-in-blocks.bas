@@ -0,0 +1,27 @@
+10 REM CONFORMANCE TEST: ON ERROR with RESUME and RESUME NEXT inside WHILE and block IF bodies
+20 ON ERROR GOTO 900
+30 LET n = 0
+40 LET after = 0
+50 WHILE n < 3
+60   n = n + 1
+70   ERROR 53
+80   after = after + 1
+90 WEND
+100 IF after = 3 AND trapped = 3 THEN PRINT "PASS: RESUME NEXT carries on inside a WHILE body" ELSE PRINT "FAIL: after was " + STR$(after)
+110 LET attempts = 0
+120 LET trail$ = ""
+130 IF n = 3 THEN
+140   trail$ = trail$ + "a"
+150   IF attempts < 2 THEN ERROR 61
+160   trail$ = trail$ + "b"
+170 END IF
+180 IF trail$ = "ab" AND attempts = 2 THEN PRINT "PASS: RESUME retries only the failing statement in a block" ELSE PRINT "FAIL: trail was " + trail$
+190 TRY
+200   IF n = 3 THEN ERROR "caught locally"
+210 CATCH e
+220   PRINT "PASS: TRY/CATCH still comes before ON ERROR inside blocks"
+230 END TRY
+240 END
+900 IF ERR = 53 THEN trapped = trapped + 1 : RESUME NEXT
+910 attempts = attempts + 1
+920 RESUME
@@ -0,0 +1,58 @@
+REM TEST: Typed CATCH clauses and RETHROW
+REM EXPECT: Error records carry location and CATCH selects by TYPE
+
+TYPE ValidationError
+  Message AS STRING
+  Field AS STRING
+  Line AS NUMBER
+END TYPE
+
+SUB Validate(name$)
+  IF LEN(name$) = 0 THEN
+    ERROR ValidationError { Message: "name is required", Field: "name", Line: 0 }
+  END IF
+END SUB
+
+' A built-in error becomes an Error record
+TRY
+  ERROR 53
+CATCH e
+  IF e.Code = 53 AND e.Message = "Error 53" AND e.Line = 18 THEN
+    PRINT "PASS: Error record has Code, Message and Line"
+  ELSE
+    PRINT "FAIL: Unexpected error record " + e.Message
+  END IF
+END TRY
+
+' A user-defined error TYPE is selected by its own CATCH clause
+TRY
+  Validate("")
+CATCH e AS HttpError
+  PRINT "FAIL: HttpError clause caught a ValidationError"
+CATCH e AS ValidationError
+  IF e.Field = "name" AND e.Line = 12 THEN
+    PRINT "PASS: CATCH e AS ValidationError"
+  ELSE
+    PRINT "FAIL: Wrong ValidationError fields"
+  END IF
+END TRY
+
+' RETHROW hands the original error to the outer handler
+LET cleanup$ = ""
+TRY
+  TRY
+    Validate("")
+  CATCH inner
+    RETHROW
+  FINALLY
+    cleanup$ = "done"
+  END TRY
+CATCH outer AS ERROR
+  IF outer.Line = 12 AND cleanup$ = "done" THEN
+    PRINT "PASS: RETHROW keeps the original location"
+  ELSE
+    PRINT "FAIL: RETHROW lost the original location"
+  END IF
+END TRY
+
+END
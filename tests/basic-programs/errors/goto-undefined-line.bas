@@ -0,0 +1,5 @@
+10 REM TEST: Error when GOTO targets a line that does not exist
+20 REM EXPECT: RuntimeError about undefined line number 300
+30 PRINT "Jumping"
+40 GOTO 300
+50 END
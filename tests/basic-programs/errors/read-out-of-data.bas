@@ -0,0 +1,4 @@
+10 REM TEST: Error when READ runs past the last DATA value
+20 REM EXPECT: RuntimeError about Out of DATA
+30 READ a, b, c
+40 DATA 1, 2
@@ -0,0 +1,54 @@
+REM TEST: DIM arrays with bounds and REDIM PRESERVE
+REM EXPECT: Classic grid code indexes with grid(x, y) or grid[x][y]
+
+TYPE Cell
+  alive AS NUMBER
+END TYPE
+
+PRINT "=== Test 1: Two-dimensional grid ==="
+DIM grid(80, 25)
+grid(80, 25) = 9
+grid[3][4] = 2
+IF LEN(grid) = 81 AND LEN(grid(0)) = 26 AND grid[80][25] = 9 AND grid(3, 4) = 2 THEN
+  PRINT "PASS: DIM grid(80, 25) holds 81 x 26 elements"
+ELSE
+  PRINT "FAIL: Unexpected grid shape or contents"
+END IF
+
+PRINT "=== Test 2: Typed element defaults ==="
+DIM names$(2)
+DIM cells(1 TO 2) AS Cell
+cells(2).alive = 1
+IF names$(1) = "" AND cells(1).alive = 0 AND cells(2).alive = 1 THEN
+  PRINT "PASS: Elements default by name suffix and declared type"
+ELSE
+  PRINT "FAIL: Element defaults are wrong"
+END IF
+
+PRINT "=== Test 3: REDIM PRESERVE keeps existing elements ==="
+DIM scores(1 TO 3)
+FOR i = 1 TO 3
+  scores(i) = i * 10
+NEXT i
+REDIM PRESERVE scores(1 TO 5)
+scores(5) = 50
+IF LEN(scores) = 5 AND scores(3) = 30 AND scores(4) = 0 AND scores(5) = 50 THEN
+  PRINT "PASS: REDIM PRESERVE grew the array"
+ELSE
+  PRINT "FAIL: REDIM PRESERVE lost elements"
+END IF
+
+PRINT "=== Test 4: Arrays passed to routines ==="
+FUNCTION Total(values, count)
+  LET sum = 0
+  FOR i = 1 TO count
+    sum = sum + values(i)
+  NEXT i
+  RETURN sum
+END FUNCTION
+IF Total(scores, 5) = 110 THEN
+  PRINT "PASS: Routine parameters index with parentheses"
+ELSE
+  PRINT "FAIL: Expected 110, got " + STR$(Total(scores, 5))
+END IF
+END
@@ -281,11 +281,16 @@ PRINT
 
 PRINT "=== 10. SPAWN FUNCTIONALITY ==="
 
-REM Test basic SPAWN (current implementation just tracks names)
+REM SPAWN runs the named SUB in its own fiber
+SUB background_task()
+END SUB
+
+SUB data_processor()
+END SUB
+
 SPAWN "background_task"
 SPAWN "data_processor"
 
-REM Since we don't have full implementation, we just verify SPAWN doesn't crash
 CALL AssertTrue(TRUE, "SPAWN commands execute without error")
 
 PRINT
@@ -18,6 +18,10 @@ END FUNCTION
 REM Test 1: Basic SPAWN functionality
 PRINT "=== Test 1: Basic SPAWN ==="
 REM SPAWN should start a named routine and return task handle
+SUB worker1()
+  LET msg$ = RECV(50)
+END SUB
+
 LET worker1 = SPAWN "worker1"
 
 REM Test logging
@@ -1,6 +1,10 @@
 REM Simple SEND test
 PRINT "Testing SEND parsing"
 
+SUB worker1()
+  LET msg$ = RECV(50)
+END SUB
+
 LET worker1 = SPAWN "worker1"
 PRINT "Spawned worker1"
 
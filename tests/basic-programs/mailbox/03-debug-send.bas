@@ -1,4 +1,7 @@
 PRINT "Simple test"
+SUB test()
+  LET msg$ = RECV(50)
+END SUB
 LET task1 = SPAWN "test"
 SEND task1, "hello"
 PRINT "Done"
@@ -1,6 +1,11 @@
 REM Real Actor Model Test - Joe Armstrong would be PROUD!
 PRINT "=== BASIC9000 Actor Model Demo ==="
 
+REM The worker routine runs in its own fiber
+SUB worker()
+  LET greeting$ = RECV(50)
+END SUB
+
 REM Test basic SPAWN functionality with elegant syntax
 LET worker = SPAWN "worker"
 PRINT "Spawned worker task"
@@ -9,8 +14,8 @@ REM Send a message using the returned task handle
 SEND worker, "Hello from main!"
 PRINT "Sent message to worker"
 
-REM Test RECV functionality (though we can't receive in main thread yet)
-PRINT "RECV would work inside the worker fiber"
+REM RECV only works inside a task fiber, never on the main program
+PRINT "RECV runs inside the worker fiber"
 
 PRINT "=== Actor Model Success! ==="
 END
\ No newline at end of file
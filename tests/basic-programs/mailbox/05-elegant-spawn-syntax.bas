@@ -1,6 +1,18 @@
 REM ELEGANT SPAWN SYNTAX - Joe Armstrong's Dream!
 PRINT "=== ELEGANT Actor Model Syntax ==="
 
+SUB worker()
+  LET msg$ = RECV(50)
+END SUB
+
+SUB processor()
+  LET msg$ = RECV(50)
+END SUB
+
+SUB calculator()
+  LET msg$ = RECV(50)
+END SUB
+
 REM The BEAUTIFUL new syntax - SPAWN returns task handle directly!
 LET worker = SPAWN "worker"
 LET processor = SPAWN "processor"
@@ -0,0 +1,58 @@
+REM TEST: Task lifecycle with AWAIT, JOIN, KILL and YIELD
+REM EXPECT: AWAIT returns results, rethrows errors, KILL cancels blocked tasks
+
+FUNCTION Compute(n AS NUMBER) AS NUMBER
+  YIELD
+  RETURN n * 2
+END FUNCTION
+
+SUB Explode()
+  ERROR "kaboom"
+END SUB
+
+SUB Listener()
+  LET msg$ = RECV()
+  PRINT "FAIL: Listener should have been killed before receiving"
+END SUB
+
+PRINT "=== Test 1: AWAIT returns the task result ==="
+LET compute = SPAWN Compute(21)
+LET answer = AWAIT compute
+IF answer = 42 THEN
+  PRINT "PASS: AWAIT returned 42"
+ELSE
+  PRINT "FAIL: Expected 42, got " + STR$(answer)
+END IF
+
+PRINT "=== Test 2: AWAIT rethrows task errors ==="
+LET explode = SPAWN "Explode"
+LET caught$ = ""
+TRY
+  LET ignored = AWAIT explode
+CATCH e
+  caught$ = e.message
+END TRY
+IF STR.STARTSWITH(caught$, "kaboom") THEN
+  PRINT "PASS: Task error reached the caller's CATCH"
+ELSE
+  PRINT "FAIL: Expected kaboom, got '" + caught$ + "'"
+END IF
+
+PRINT "=== Test 3: KILL cancels a blocked task ==="
+LET listener = SPAWN "Listener"
+YIELD
+KILL listener
+JOIN listener
+LET killed$ = ""
+TRY
+  LET ignored = AWAIT listener
+CATCH e
+  killed$ = e.message
+END TRY
+IF STR.CONTAINS(killed$, "was killed") THEN
+  PRINT "PASS: Killed task reports its cancellation"
+ELSE
+  PRINT "FAIL: Expected a kill message, got '" + killed$ + "'"
+END IF
+
+END
@@ -0,0 +1,60 @@
+REM TEST: Typed channels with backpressure, close and BROADCAST
+REM EXPECT: Pipelines pass records through channels without task handles
+
+TYPE Vector
+  x AS NUMBER
+  y AS NUMBER
+END TYPE
+
+SUB Scale(source, sink)
+  LET v = RECEIVE(source)
+  WHILE v <> NULL
+    SEND sink, NEW Vector(v.x * 2, v.y * 2)
+    v = RECEIVE(source)
+  WEND
+  sink.CLOSE()
+END SUB
+
+PRINT "=== Test 1: Two-stage pipeline ==="
+DIM raw AS CHANNEL OF Vector BUFFER 16
+DIM scaled AS CHANNEL OF Vector BUFFER 1
+LET stage = SPAWN Scale(raw, scaled)
+FOR i = 1 TO 3
+  SEND raw, NEW Vector(i, i)
+NEXT i
+raw.CLOSE()
+LET total = 0
+LET v = RECEIVE(scaled)
+WHILE v <> NULL
+  total = total + v.x + v.y
+  v = RECEIVE(scaled)
+WEND
+IF total = 24 THEN
+  PRINT "PASS: Pipeline summed to 24"
+ELSE
+  PRINT "FAIL: Expected 24, got " + STR$(total)
+END IF
+
+PRINT "=== Test 2: BROADCAST reaches every subscriber ==="
+DIM events AS CHANNEL OF STRING BUFFER 4
+LET first = events.SUBSCRIBE()
+LET second = events.SUBSCRIBE()
+BROADCAST events, "tick"
+IF RECEIVE(first, 10) = "tick" AND RECEIVE(second, 10) = "tick" THEN
+  PRINT "PASS: Both subscribers got the broadcast"
+ELSE
+  PRINT "FAIL: A subscriber missed the broadcast"
+END IF
+
+PRINT "=== Test 3: SEND on a closed channel is an error ==="
+LET caught$ = ""
+TRY
+  SEND raw, NEW Vector(0, 0)
+CATCH e
+  caught$ = e.message
+END TRY
+IF STR.CONTAINS(caught$, "closed channel") THEN
+  PRINT "PASS: Closed channel rejected SEND"
+ELSE
+  PRINT "FAIL: Expected closed channel error, got " + caught$
+END IF
@@ -0,0 +1,35 @@
+REM TEST: IMPORT another file and use its PUBLIC declarations
+REM EXPECT: Public functions and types are reachable through the namespace
+
+IMPORT "lib/geometry.bas" AS GEO
+IMPORT "lib/geometry.bas"
+
+PRINT "=== Test 1: Public function through the alias ==="
+LET a = GEO.Point(0, 0)
+LET b = GEO.Point(3, 4)
+LET d = GEO.Distance(a, b)
+IF d = 5 THEN
+  PRINT "PASS: Distance is 5"
+ELSE
+  PRINT "FAIL: Expected 5, got " + STR$(d)
+END IF
+
+PRINT "=== Test 2: MODULE name is the default namespace ==="
+IF Geometry.Distance(b, b) = 0 THEN
+  PRINT "PASS: Geometry namespace shares the loaded module"
+ELSE
+  PRINT "FAIL: Geometry namespace returned the wrong distance"
+END IF
+
+PRINT "=== Test 3: Private helpers stay private ==="
+LET caught$ = ""
+TRY
+  LET s = GEO.Square(2)
+CATCH e
+  caught$ = e.message
+END TRY
+IF STR.CONTAINS(caught$, "Unknown member 'Square'") THEN
+  PRINT "PASS: Square is not exported"
+ELSE
+  PRINT "FAIL: Expected Square to be private, got " + caught$
+END IF
@@ -0,0 +1,19 @@
+REM Shared geometry helpers, imported by the module tests
+MODULE Geometry
+
+PUBLIC TYPE Point
+  x AS NUMBER
+  y AS NUMBER
+END TYPE
+
+FUNCTION Square(n AS NUMBER) AS NUMBER
+  RETURN n * n
+END FUNCTION
+
+PUBLIC FUNCTION Distance(a AS Point, b AS Point) AS NUMBER
+  RETURN MATH.SQRT(Square(b.x - a.x) + Square(b.y - a.y))
+END FUNCTION
+
+PUBLIC SUB Describe(p AS Point)
+  PRINT "Point(" + STR$(p.x) + ", " + STR$(p.y) + ")"
+END SUB
@@ -0,0 +1,219 @@
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { afterAll, describe, expect, it } from 'vitest';
+import { ExitCode, runCli } from '../../src/cli/cli.js';
+import { isIncompleteInput, startRepl } from '../../src/cli/repl.js';
+
+// Runs the command line in-process with piped stdin, collecting what it writes
+const cli = async (args: string[], input = '') => {
+  const stdin = new PassThrough();
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  let out = '';
+  let err = '';
+  stdout.on('data', (chunk: Buffer) => { out += chunk.toString('utf8'); });
+  stderr.on('data', (chunk: Buffer) => { err += chunk.toString('utf8'); });
+  stdin.end(input);
+  const code = await runCli(args, { stdin, stdout, stderr });
+  return { code, stdout: out, stderr: err };
+};
+
+const directory = mkdtempSync(join(tmpdir(), 'basic9000-cli-'));
+afterAll(() => rmSync(directory, { recursive: true, force: true }));
+const program = (name: string, lines: string[]): string => {
+  const path = join(directory, name);
+  writeFileSync(path, lines.join('\n'));
+  return path;
+};
+
+describe('basic9000 run', () => {
+  it('prints program output and exits 0 at the end or at END', async () => {
+    expect(await cli(['run', program('hello.bas', ['PRINT "Hello"', 'END', 'PRINT "unreachable"'])])).toEqual({
+      code: ExitCode.Success,
+      stdout: 'Hello\n',
+      stderr: ''
+    });
+  });
+
+  it('exits 3 at STOP', async () => {
+    const result = await cli(['run', program('stop.bas', ['PRINT "before"', 'STOP', 'PRINT "after"'])]);
+    expect(result.code).toBe(ExitCode.Stopped);
+    expect(result.stdout).toBe('before\n');
+  });
+
+  it('keeps output printed before a runtime error and reports the error on stderr', async () => {
+    const result = await cli(['run', program('crash.bas', ['PRINT "partial"', 'PRINT 1 / "x"'])]);
+    expect(result.code).toBe(ExitCode.Error);
+    expect(result.stdout).toBe('partial\n');
+    expect(result.stderr).toContain("error: Cannot convert 'x' to number\n --> crash.bas, line 2, column 9");
+  });
+
+  it('gives up after --max-steps statements', async () => {
+    const path = program('forever.bas', ['10 GOTO 10']);
+    const result = await cli(['run', path, '--max-steps', '50']);
+    expect(result.code).toBe(ExitCode.Error);
+    expect(result.stderr).toContain('Exceeded maximum execution steps');
+  });
+
+  it('feeds stdin lines to INPUT', async () => {
+    const path = program('input.bas', ['INPUT first$', 'INPUT second$', 'PRINT second$ + first$']);
+    expect((await cli(['run', path], 'world\nhello \n')).stdout).toBe('hello world\n');
+  });
+
+  it('writes partial lines before waiting for INPUT', async () => {
+    const path = program('prompt.bas', ['PRINT "Name? ";', 'INPUT name$', 'PRINT "Hello, "; name$']);
+    expect((await cli(['run', path], 'Ada\n')).stdout).toBe('Name? \nHello, Ada\n');
+  });
+
+  it('profiles the run with --profile', async () => {
+    const folded = join(directory, 'profile.folded');
+    const result = await cli(['run', program('profile.bas', [
+      'FUNCTION Square(n)',
+      '  RETURN n * n',
+      'END FUNCTION',
+      'PRINT Square(MATH.SQRT(9))'
+    ]), '--profile', folded]);
+    expect(result.code).toBe(ExitCode.Success);
+    expect(result.stdout).toBe('9\n');
+    expect(result.stderr).toMatch(/Profile: [\d.]+ ms total/);
+    expect(result.stderr).toMatch(/Square\s+user\s+1 /);
+    expect(readFileSync(folded, 'utf8')).toMatch(/^<main>;MATH\.SQRT \d+$/m);
+  });
+
+  it('reports unreadable files and bad usage', async () => {
+    expect((await cli(['run', join(directory, 'missing.bas')])).code).toBe(ExitCode.Error);
+    expect((await cli(['run'])).code).toBe(ExitCode.Usage);
+    expect((await cli(['run', 'a.bas', '--max-steps', 'lots'])).stderr).toContain('--max-steps needs a positive whole number');
+    expect((await cli(['compile', 'a.bas'])).stderr).toContain("basic9000: Unknown command 'compile'");
+  });
+});
+
+describe('basic9000 check', () => {
+  it('reports every syntax error in every file without running anything', async () => {
+    const good = program('good.bas', ['PRINT 1 / "never run"']);
+    const bad = program('bad.bas', ['PRINT (1 +', 'LET = 2']);
+    const result = await cli(['check', good, bad]);
+    expect(result.code).toBe(ExitCode.Error);
+    expect(result.stderr.match(/^error:/gm)).toHaveLength(2);
+    expect(result.stderr).toContain(`${bad}:\nerror: Expected expression\n --> bad.bas, line 1, column 11`);
+    expect(result.stderr).toContain('2 error(s) found');
+    expect(await cli(['check', good])).toEqual({ code: ExitCode.Success, stdout: 'No errors in 1 file(s)\n', stderr: '' });
+  });
+
+  it('runs the type checker with --types', async () => {
+    const path = program('typed.bas', ['LET n AS NUMBER = "one"']);
+    expect((await cli(['check', path])).code).toBe(ExitCode.Success);
+    const result = await cli(['check', '--types', path]);
+    expect(result.code).toBe(ExitCode.Error);
+    expect(result.stderr).toContain("error: Cannot assign STRING to 'n' declared AS NUMBER");
+  });
+});
+
+describe('basic9000 test', () => {
+  it('runs every program under a directory and fails on FAIL: lines and unexpected errors', async () => {
+    const suite = join(directory, 'suite');
+    mkdirSync(join(suite, 'nested'), { recursive: true });
+    writeFileSync(join(suite, 'a-pass.bas'), 'PRINT "PASS: fine"');
+    writeFileSync(join(suite, 'b-fail.bas'), 'PRINT "PASS: one"\nPRINT "FAIL: two"');
+    writeFileSync(join(suite, 'notes.txt'), 'not a program');
+    writeFileSync(join(suite, 'nested', 'c-expected.bas'), 'REM EXPECT: RuntimeError\nPRINT 1 / "x"');
+    writeFileSync(join(suite, 'nested', 'd-crash.bas'), 'PRINT 1 / "x"');
+
+    const result = await cli(['test', suite]);
+    expect(result.code).toBe(ExitCode.Error);
+    expect(result.stdout.split('\n').filter((line) => /^(ok|FAIL) /.test(line))).toEqual([
+      `ok   ${join(suite, 'a-pass.bas')}`,
+      `FAIL ${join(suite, 'b-fail.bas')}`,
+      `ok   ${join(suite, 'nested', 'c-expected.bas')}`,
+      `FAIL ${join(suite, 'nested', 'd-crash.bas')}`
+    ]);
+    expect(result.stdout).toContain('    FAIL: two');
+    expect(result.stdout).toContain('2 passed, 2 failed');
+    expect((await cli(['test', join(suite, 'a-pass.bas')])).code).toBe(ExitCode.Success);
+  });
+});
+
+describe('basic9000 repl', () => {
+  it('keeps state between entries and continues unclosed blocks', async () => {
+    const input = [
+      'FUNCTION Square(n)',
+      '  RETURN n * n',
+      'END FUNCTION',
+      'FOR i = 1 TO 3',
+      '  PRINT Square(i)',
+      'NEXT i',
+      'total = Square(4)',
+      'PRINT total',
+      'PRINT total / "x"',
+      'PRINT total +',
+      '',
+      '.reset',
+      'PRINT total',
+      'STOP'
+    ].join('\n');
+    const result = await cli([], input);
+    expect(result.code).toBe(ExitCode.Success);
+    expect(result.stdout).toBe(
+      [
+        '1',
+        '4',
+        '9',
+        '16',
+        "error: Cannot convert 'x' to number",
+        ' --> line 1, column 13',
+        '  |',
+        '1 | PRINT total / "x"',
+        '  |             ^',
+        'error: Expected expression',
+        ' --> line 1, column 14',
+        '  |',
+        '1 | PRINT total +',
+        '  |              ^',
+        'Session reset.',
+        '0',
+        '(HALTED: STOP)',
+        ''
+      ].join('\n')
+    );
+  });
+
+  it('reads INPUT from the same stream as the prompt', async () => {
+    expect((await cli(['repl'], 'INPUT name$\nAda\nPRINT "Hi " + name$\n.exit\nPRINT "ignored"')).stdout).toBe('Hi Ada\n');
+  });
+
+  it('stops a running program on Ctrl+C and keeps its variables', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let written = '';
+    output.on('data', (chunk: Buffer) => { written += chunk.toString('utf8'); });
+    const waitFor = async (text: string): Promise<void> => {
+      while (!written.includes(text)) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    };
+
+    const repl = startRepl(input, output, { terminal: true });
+    input.write('n = 0\rWHILE n >= 0\rn = n + 1\rWEND\r');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    input.write('\x03');
+    await waitFor('(HALTED: BREAK)');
+    input.write('PRINT n > 0\r');
+    await waitFor('-1');
+    input.write('.exit\r');
+    expect(await repl).toBe(0);
+  });
+
+  it('recognises input that stops inside a block', () => {
+    expect(isIncompleteInput('IF x > 1 THEN')).toBe(true);
+    expect(isIncompleteInput('IF x > 1 THEN PRINT x')).toBe(false);
+    expect(isIncompleteInput('FOR i = 1 TO 3\nPRINT i')).toBe(true);
+    expect(isIncompleteInput('WHILE x < 3\nx = x + 1')).toBe(true);
+    expect(isIncompleteInput('WHILE x < 3\nx = x + 1\nWEND')).toBe(false);
+    expect(isIncompleteInput('TYPE Point\nx AS NUMBER')).toBe(true);
+    expect(isIncompleteInput('SELECT CASE x\nCASE 1')).toBe(true);
+    expect(isIncompleteInput('PRINT )')).toBe(false);
+    expect(isIncompleteInput('PRINT "unterminated')).toBe(false);
+  });
+});
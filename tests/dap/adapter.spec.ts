@@ -0,0 +1,196 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { startDebugAdapter } from '../../src/dap/adapter.js';
+
+interface Message {
+  seq: number;
+  type: 'response' | 'event';
+  command?: string;
+  request_seq?: number;
+  success?: boolean;
+  message?: string;
+  event?: string;
+  body?: unknown;
+}
+
+// A response or event whose body the test knows the shape of
+interface WithBody<Body> extends Message {
+  body: Body;
+}
+
+interface StackFrame {
+  name: string;
+  line: number;
+  source: { name: string; path: string };
+}
+
+interface Scope {
+  name: string;
+  variablesReference: number;
+}
+
+interface Variable {
+  name: string;
+  value: string;
+  type?: string;
+  variablesReference: number;
+}
+
+interface StoppedEventBody {
+  reason: string;
+  threadId: number;
+}
+
+interface OutputEventBody {
+  category: string;
+  output: string;
+}
+
+// Speaks framed DAP to an in-process adapter, the same bytes VS Code would send over stdio
+const createClient = (onExit?: () => void) => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  startDebugAdapter(input, output, { onExit });
+
+  const received: Message[] = [];
+  const waiters: Array<() => void> = [];
+  let buffer = '';
+  output.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    for (;;) {
+      const match = /^Content-Length: (\d+)\r\n\r\n/.exec(buffer);
+      if (!match || buffer.length < match[0].length + Number(match[1])) {
+        break;
+      }
+      received.push(JSON.parse(buffer.slice(match[0].length, match[0].length + Number(match[1]))));
+      buffer = buffer.slice(match[0].length + Number(match[1]));
+      waiters.splice(0).forEach((wake) => wake());
+    }
+  });
+
+  const waitFor = async (predicate: (message: Message) => boolean): Promise<Message> => {
+    for (;;) {
+      const index = received.findIndex(predicate);
+      if (index !== -1) {
+        return received.splice(index, 1)[0]!;
+      }
+      await new Promise<void>((resolve) => waiters.push(resolve));
+    }
+  };
+
+  let nextSeq = 1;
+  return {
+    received,
+    request: async <Body = unknown>(command: string, args?: unknown): Promise<WithBody<Body>> => {
+      const seq = nextSeq++;
+      const body = JSON.stringify({ seq, type: 'request', command, arguments: args });
+      input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+      return (await waitFor((message) => message.type === 'response' && message.request_seq === seq)) as WithBody<Body>;
+    },
+    event: async <Body = unknown>(name: string): Promise<WithBody<Body>> =>
+      (await waitFor((message) => message.type === 'event' && message.event === name)) as WithBody<Body>
+  };
+};
+
+describe('debug adapter', () => {
+  let directory: string;
+  let program: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'basic9000-dap-'));
+    program = path.join(directory, 'main.bas');
+    await writeFile(program, [
+      'TYPE Point',
+      '  x AS NUMBER',
+      '  y AS NUMBER',
+      'END TYPE',
+      'FUNCTION Area(p)',
+      '  LET size = p.x * p.y',
+      '  RETURN size',
+      'END FUNCTION',
+      'LET corner = Point { x: 3, y: 4 }',
+      'DIM scores(2)',
+      'scores(1) = 7',
+      'PRINT "area"; Area(corner)',
+      'PRINT "bye"'
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('runs to a breakpoint, shows the stack and variables, and evaluates expressions', async () => {
+    const client = createClient();
+    const initialize = await client.request('initialize', { adapterID: 'basic9000' });
+    expect(initialize.body).toMatchObject({ supportsConditionalBreakpoints: true });
+    await client.event('initialized');
+
+    expect((await client.request('launch', { program })).success).toBe(true);
+    const breakpoints = await client.request<{ breakpoints: unknown[] }>('setBreakpoints', { source: { path: program }, breakpoints: [{ line: 6 }] });
+    expect(breakpoints.body.breakpoints).toEqual([{ verified: true, line: 6 }]);
+    await client.request('configurationDone');
+
+    expect((await client.event('stopped')).body).toMatchObject({ reason: 'breakpoint', threadId: 1 });
+    const { stackFrames } = (await client.request<{ stackFrames: StackFrame[] }>('stackTrace', { threadId: 1 })).body;
+    expect(stackFrames.map((frame) => [frame.name, frame.line, frame.source.path])).toEqual([
+      ['Area', 6, program],
+      ['<main>', 12, program]
+    ]);
+
+    const { scopes } = (await client.request<{ scopes: Scope[] }>('scopes', { frameId: 0 })).body;
+    expect(scopes.map((scope) => scope.name)).toEqual(['Variables']);
+    const { variables } = (await client.request<{ variables: Variable[] }>('variables', { variablesReference: scopes[0]!.variablesReference })).body;
+    const corner = variables.find((variable) => variable.name === 'corner')!;
+    expect(corner).toMatchObject({ type: 'Point', value: 'Point { x: 3, y: 4 }' });
+    const fields = (await client.request<{ variables: Variable[] }>('variables', { variablesReference: corner.variablesReference })).body.variables;
+    expect(fields.map((field) => [field.name, field.value])).toEqual([['x', '3'], ['y', '4']]);
+    expect(variables.find((variable) => variable.name === 'scores')).toMatchObject({ value: 'ARRAY(3)' });
+
+    expect((await client.request('evaluate', { expression: 'p.x + 10', frameId: 0, context: 'watch' })).body).toMatchObject({ result: '13' });
+    const failed = await client.request('evaluate', { expression: 'p.', frameId: 0, context: 'watch' });
+    expect(failed.success).toBe(false);
+
+    await client.request('stepOut', { threadId: 1 });
+    expect((await client.event<StoppedEventBody>('stopped')).body.reason).toBe('step');
+    await client.request('continue', { threadId: 1 });
+
+    expect((await client.event('exited')).body).toEqual({ exitCode: 0 });
+    await client.event('terminated');
+    const printed = client.received.filter((message) => message.event === 'output').map((message) => (message.body as OutputEventBody).output);
+    expect(printed.join('')).toBe('area12\nbye\n');
+  });
+
+  it('stops on entry, reports runtime errors and ends the session on disconnect', async () => {
+    await writeFile(program, 'PRINT "start"\nPRINT 1 / "x"');
+    let exited = false;
+    const client = createClient(() => {
+      exited = true;
+    });
+    await client.request('initialize', {});
+    await client.request('launch', { program, stopOnEntry: true });
+    await client.request('configurationDone');
+
+    expect((await client.event<StoppedEventBody>('stopped')).body.reason).toBe('entry');
+    await client.request('next', { threadId: 1 });
+    expect((await client.event<StoppedEventBody>('stopped')).body.reason).toBe('step');
+    await client.request('continue', { threadId: 1 });
+
+    expect((await client.event('output')).body).toEqual({ category: 'stdout', output: 'start\n' });
+    expect((await client.event('output')).body).toMatchObject({ category: 'stderr', output: expect.stringContaining('line 2') });
+    expect((await client.event('exited')).body).toEqual({ exitCode: 1 });
+
+    await client.request('disconnect', {});
+    expect(exited).toBe(true);
+  });
+
+  it('rejects a launch without a program', async () => {
+    const client = createClient();
+    await client.request('initialize', {});
+    const launch = await client.request('launch', {});
+    expect(launch).toMatchObject({ success: false, message: expect.stringContaining('"program"') });
+  });
+});
@@ -0,0 +1,134 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { checkProgram, checkSource, TypeCheckError } from '../../src/interpreter/checker.js';
+import { formatDiagnostic } from '../../src/interpreter/diagnostics.js';
+import { ParseError, parseSource } from '../../src/interpreter/parser.js';
+import { examplePrograms } from './example-programs.js';
+
+const details = (source: string): string[] => checkSource(source).map((error) => error.detail);
+
+const POINT = ['TYPE Point', '  x AS NUMBER', '  y AS NUMBER', 'END TYPE'];
+
+describe('type checker', () => {
+  const programs = examplePrograms();
+
+  it.each(programs)('finds nothing wrong with %s', (path) => {
+    let program;
+    try {
+      program = parseSource(readFileSync(path, 'utf8'));
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParseError);
+      return;
+    }
+    expect(checkProgram(program).map((error) => error.message)).toEqual([]);
+  });
+
+  it('checks arguments against parameter annotations', () => {
+    const source = [
+      ...POINT,
+      'FUNCTION Scale(p AS Point, k AS NUMBER, label$ = "") AS Point',
+      '  RETURN Point { x: p.x * k, y: p.y * k }',
+      'END FUNCTION',
+      'SUB Bump(REF n AS NUMBER)',
+      '  n = n + 1',
+      'END SUB',
+      'LET p = Point { x: 1, y: 2 }',
+      'PRINT Scale(p, "2").x',
+      'PRINT Scale(p)',
+      'PRINT Scale(p, 2, "a", 4)',
+      'PRINT p.Scale(3).y',
+      'CALL Bump(p.x + 1)'
+    ].join('\n');
+    expect(details(source)).toEqual([
+      "Argument 2 of 'Scale' must be NUMBER, got STRING",
+      "'Scale' expects at least 2 argument(s), got 1",
+      "'Scale' expects at most 3 argument(s), got 4",
+      "REF parameter 'n' of 'Bump' needs a variable or field"
+    ]);
+  });
+
+  it('accepts any matching overload and lists candidates when none match', () => {
+    const source = [
+      ...POINT,
+      'TYPE Vector',
+      '  dx AS NUMBER',
+      'END TYPE',
+      'FUNCTION Describe(p AS Point) AS STRING',
+      '  RETURN "point"',
+      'END FUNCTION',
+      'FUNCTION Describe(v AS Vector) AS STRING',
+      '  RETURN "vector"',
+      'END FUNCTION',
+      'PRINT Describe(Vector { dx: 1 }) + Describe(Point { x: 0, y: 0 })',
+      'PRINT "text".Describe()'
+    ].join('\n');
+    expect(details(source)).toEqual([
+      "No overload of 'Describe' accepts (STRING); candidates: Describe(Point), Describe(Vector)"
+    ]);
+  });
+
+  it('reports unknown fields, methods, types and namespace members with suggestions', () => {
+    const source = [
+      ...POINT,
+      'LET p = Point { x: 1, z: 2 }',
+      'DIM q AS Pointt',
+      'p.w = 3',
+      'PRINT p.Lenght',
+      'PRINT "abc".UPPER() + "abc".Shout()',
+      'PRINT MATH.SQRR(16)'
+    ].join('\n');
+    const errors = checkSource(source);
+    expect(errors.map((error) => error.detail)).toEqual([
+      "Missing value for field 'y' in type 'Point'",
+      "Type 'Point' has no field 'z'",
+      "Unknown type 'Pointt'",
+      "Type 'Point' has no field 'w'",
+      "No field or method 'Lenght' on type Point",
+      "No field or method 'Shout' on type STRING",
+      "Unknown member 'SQRR' on MATH"
+    ]);
+    expect(formatDiagnostic(errors[2], source)).toBe(
+      [
+        "error: Unknown type 'Pointt'",
+        ' --> line 6, column 10',
+        '  |',
+        '6 | DIM q AS Pointt',
+        '  |          ^^^^^^',
+        '  = did you mean: Point?'
+      ].join('\n')
+    );
+  });
+
+  it('checks assignments to typed variables, fields and RETURN values', () => {
+    const source = [
+      ...POINT,
+      'FUNCTION Area(p AS Point) AS NUMBER',
+      '  RETURN "big"',
+      'END FUNCTION',
+      'LET total AS NUMBER = "five"',
+      'LET p AS Point = Point { x: 1, y: "2" }',
+      'total = p',
+      'p.x = p.y > 1',
+      'DIM names(3) AS STRING',
+      'total = names(1)',
+      'LET anything = p',
+      'anything = "now a string"'
+    ].join('\n');
+    expect(details(source)).toEqual([
+      "Cannot assign STRING to the result of 'Area' declared AS NUMBER",
+      "Cannot assign STRING to 'total' declared AS NUMBER",
+      "Cannot assign STRING to field 'Point.y' declared AS NUMBER",
+      "Cannot assign Point to 'total' declared AS NUMBER",
+      "Cannot assign STRING to 'total' declared AS NUMBER"
+    ]);
+  });
+
+  it('reports syntax and type errors together in source order', () => {
+    const errors = checkSource(['LET n AS NUMBER = "one"', 'PRINT (1 +', 'n = "two"'].join('\n'));
+    expect(errors.map((error) => [error.constructor, error.token.line])).toEqual([
+      [TypeCheckError, 1],
+      [ParseError, 2],
+      [TypeCheckError, 3]
+    ]);
+  });
+});
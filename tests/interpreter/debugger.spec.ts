@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { Debugger, type DebuggerOptions, type StopReason } from '../../src/interpreter/debugger.js';
+import { executeSource, isRecordValue } from '../../src/index.js';
+
+// Runs a program under a debugger; nextStop() waits for the program to stop and says where
+const startDebugging = (source: string, options: DebuggerOptions = {}) => {
+  const stops: Array<{ reason: StopReason; line: number }> = [];
+  let wake: (() => void) | undefined;
+  const debug = new Debugger({
+    ...options,
+    onStop: (reason, location) => {
+      stops.push({ reason, line: location.statement.token.line });
+      wake?.();
+    }
+  });
+  const run = executeSource(source, { debugHook: debug });
+  const nextStop = async () => {
+    while (stops.length === 0) {
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+    return stops.shift()!;
+  };
+  return { debug, run, nextStop };
+};
+
+const SUM_PROGRAM = [
+  'LET total = 0',
+  'FOR i = 1 TO 3',
+  '  total = total + i',
+  'NEXT i',
+  'PRINT total'
+].join('\n');
+
+describe('Debugger', () => {
+  it('stops at line breakpoints with the variables in scope', async () => {
+    const { debug, run, nextStop } = startDebugging(SUM_PROGRAM);
+    debug.setBreakpoints(undefined, [{ line: 5 }]);
+
+    expect(await nextStop()).toEqual({ reason: 'breakpoint', line: 5 });
+    expect(debug.location?.variables()).toMatchObject({ total: 6 });
+    debug.continue();
+    expect((await run).outputs).toEqual(['6']);
+    expect(debug.location).toBeUndefined();
+  });
+
+  it('stops at conditional breakpoints only where the condition holds, and evaluates watches there', async () => {
+    const { debug, run, nextStop } = startDebugging(SUM_PROGRAM);
+    debug.setBreakpoints(undefined, [{ line: 3, condition: 'i = 2' }]);
+    debug.addWatch('total');
+    debug.addWatch('i * 10');
+    debug.addWatch('missing(');
+
+    expect(await nextStop()).toEqual({ reason: 'breakpoint', line: 3 });
+    const watches = await debug.evaluateWatches();
+    expect(watches.slice(0, 2)).toEqual([
+      { expression: 'total', value: 1 },
+      { expression: 'i * 10', value: 20 }
+    ]);
+    expect(watches[2]?.error).toBeDefined();
+    debug.continue();
+    expect((await run).outputs).toEqual(['6']);
+  });
+
+  it('stops at a breakpoint in a single-statement loop body on every pass', async () => {
+    const { debug, run, nextStop } = startDebugging('n = 0\nWHILE n < 3\n  n = n + 1\nWEND\nPRINT n');
+    debug.setBreakpoints(undefined, [{ line: 3 }]);
+
+    for (const n of [0, 1, 2]) {
+      expect(await nextStop()).toEqual({ reason: 'breakpoint', line: 3 });
+      expect(debug.location?.variables()).toMatchObject({ n });
+      debug.continue();
+    }
+    expect((await run).outputs).toEqual(['3']);
+  });
+
+  it('steps into, over and out of FUNCTION calls', async () => {
+    const { debug, run, nextStop } = startDebugging([
+      'FUNCTION Double(n)',
+      '  LET result = n * 2',
+      '  RETURN result',
+      'END FUNCTION',
+      'LET a = Double(4)',
+      'LET b = Double(a)',
+      'PRINT a; " "; b'
+    ].join('\n'), { stopOnEntry: true });
+
+    expect(await nextStop()).toEqual({ reason: 'entry', line: 1 });
+    debug.stepOver();
+    expect(await nextStop()).toEqual({ reason: 'step', line: 5 });
+    debug.stepInto();
+    expect(await nextStop()).toEqual({ reason: 'step', line: 2 });
+    expect(debug.stackTrace()).toEqual([
+      { name: 'Double', line: 2, column: 3, file: undefined },
+      { name: '<main>', line: 5, column: 17, file: undefined }
+    ]);
+    expect(await debug.evaluate('n')).toBe(4);
+    debug.stepOver();
+    expect(await nextStop()).toEqual({ reason: 'step', line: 3 });
+    debug.stepOut();
+    expect(await nextStop()).toEqual({ reason: 'step', line: 6 });
+    debug.stepOver();
+    expect(await nextStop()).toEqual({ reason: 'step', line: 7 });
+    debug.continue();
+    expect((await run).outputs).toEqual(['8 16']);
+  });
+
+  it('shows the WITH stack and evaluates field shorthand against it', async () => {
+    const { debug, run, nextStop } = startDebugging([
+      'TYPE Point',
+      '  x AS NUMBER',
+      '  y AS NUMBER',
+      'END TYPE',
+      'LET p = Point { x: 3, y: 4 }',
+      'WITH p',
+      '  PRINT .x + .y',
+      'END WITH'
+    ].join('\n'));
+    debug.setBreakpoints(undefined, [{ line: 7 }]);
+
+    await nextStop();
+    const withStack = debug.location?.withStack ?? [];
+    expect(withStack).toHaveLength(1);
+    expect(isRecordValue(withStack[0]!) && withStack[0].typeName).toBe('Point');
+    expect(await debug.evaluate('.x * .y')).toBe(12);
+    debug.continue();
+    expect((await run).outputs).toEqual(['7']);
+  });
+
+  it('pauses a running program and lets it go again', async () => {
+    const { debug, run, nextStop } = startDebugging('WHILE spins < 100000\n  spins = spins + 1\nWEND\nPRINT "done"');
+    setTimeout(() => debug.pause(), 10);
+
+    const stop = await nextStop();
+    expect(stop.reason).toBe('pause');
+    expect(await debug.evaluate('spins')).toBeGreaterThan(0);
+    expect(() => debug.pause()).not.toThrow();
+    debug.continue();
+    expect((await run).outputs).toEqual(['done']);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { formatDiagnostic, suggestNames, levenshteinDistance } from '../../src/interpreter/diagnostics.js';
+import { parseSource } from '../../src/interpreter/parser.js';
+import { executeProgram, RuntimeError } from '../../src/interpreter/evaluator.js';
+
+const capture = async (source: string): Promise<unknown> => {
+  try {
+    await executeProgram(parseSource(source));
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the program to fail');
+};
+
+describe('diagnostics', () => {
+  it('underlines the offending token of a runtime error with suggestions', async () => {
+    const source = 'TYPE Point\n  x AS NUMBER\nEND TYPE\nLET p = Pint { x: 1 }';
+    const error = await capture(source);
+    expect(formatDiagnostic(error, source)).toBe([
+      "error: Unknown type 'Pint'",
+      ' --> line 4, column 9',
+      '  |',
+      '4 | LET p = Pint { x: 1 }',
+      '  |         ^^^^',
+      '  = did you mean: Point?'
+    ].join('\n'));
+  });
+
+  it('suggests host namespace members, record fields and variable names', async () => {
+    const member = await capture('PRINT MATH.SQRR(4)');
+    expect(formatDiagnostic(member, 'PRINT MATH.SQRR(4)')).toContain('did you mean: SQRT?');
+
+    const field = await capture('TYPE Point\n  x AS NUMBER\nEND TYPE\nLET p = Point { x: 1 }\nPRINT p.xx');
+    expect(formatDiagnostic(field, '')).toContain("error: No function 'xx' matches receiver type Point");
+    expect((field as RuntimeError).suggestions).toContain('x');
+
+    const variable = await capture('LET total = 5\nPRINT totl.x');
+    expect((variable as RuntimeError).suggestions).toEqual(['total']);
+  });
+
+  it('points parse and tokenize errors at their column', () => {
+    const parseFailure = (() => {
+      try {
+        parseSource('PRINT (1 +\nPRINT 2');
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(formatDiagnostic(parseFailure, 'PRINT (1 +\nPRINT 2')).toBe([
+      'error: Expected expression',
+      ' --> line 1, column 11',
+      '  |',
+      '1 | PRINT (1 +',
+      '  |           ^'
+    ].join('\n'));
+
+    const tokenizeFailure = (() => {
+      try {
+        parseSource('\tprint 1');
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(formatDiagnostic(tokenizeFailure, '\tprint 1').split('\n').slice(-1)).toEqual(['  | \t^']);
+  });
+
+  it('appends the call stack and colors terminal output', async () => {
+    const source = 'SUB Fail()\n  ERROR "boom"\nEND SUB\nFail()';
+    const error = await capture(source);
+    const plain = formatDiagnostic(error, source);
+    expect(plain.split('\n').slice(-2)).toEqual(['  at Fail (line 2, column 3)', '  at <main> (line 4, column 6)']);
+    expect(formatDiagnostic(error, source, { color: true })).toContain('\x1b[1;31merror:\x1b[0m boom');
+    expect(formatDiagnostic(error, source, { fileName: 'other.bas' })).not.toContain('|');
+  });
+
+  it('ranks close names by edit distance', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(suggestNames('conut', ['count', 'cont', 'amount', 'count'])).toEqual(['cont', 'count']);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { createInterpreter } from '../../src/interpreter/embedding.js';
+import { executeSource, ExecutionAbortedError } from '../../src/interpreter/evaluator.js';
+import { createFunction, createNamespace } from '../../src/interpreter/host.js';
+import type { RuntimeValue } from '../../src/interpreter/runtime-values.js';
+
+describe('embedding API', () => {
+  it('runs source text directly with executeSource', async () => {
+    const result = await executeSource('LET total = 2 + 3\nPRINT "total"; total\nSTOP');
+    expect(result.outputs).toEqual(['total5']);
+    expect(result.variables.total).toBe(5);
+    expect(result.halted).toBe('STOP');
+  });
+
+  it('lets hosts register namespaces that programs and sessions can call', async () => {
+    const interpreter = createInterpreter();
+    const orders: string[] = [];
+    interpreter.register('SHOP', createNamespace('SHOP', {
+      ORDER: createFunction('SHOP.ORDER', ([item]) => {
+        orders.push(String(item));
+        return orders.length;
+      }),
+      CURRENCY: 'EUR'
+    }));
+
+    expect((await interpreter.run('PRINT SHOP.ORDER("tea"); " "; SHOP.CURRENCY')).outputs).toEqual(['1 EUR']);
+
+    const session = interpreter.createSession();
+    await session.run('LET n = SHOP.ORDER("scones")');
+    expect((await session.run('PRINT n + 1')).outputs).toEqual(['3']);
+    expect(orders).toEqual(['tea', 'scones']);
+
+    // Runs start from scratch; only the session remembers n
+    expect((await interpreter.run('PRINT n')).outputs).toEqual(['0']);
+  });
+
+  it('streams output lines to onOutput as PRINT completes them', async () => {
+    const lines: string[] = [];
+    const seenByHost: string[][] = [];
+    const interpreter = createInterpreter({ onOutput: (line) => lines.push(line) });
+    interpreter.register('PROBE', createFunction('PROBE', () => {
+      seenByHost.push(lines.slice());
+      return 0;
+    }));
+
+    const result = await interpreter.run('PRINT "one"\nPRINT "two"; \nCALL PROBE()\nPRINT "three"\nPRINT "unfinished";');
+    expect(seenByHost).toEqual([['one']]);
+    expect(lines).toEqual(['one', 'twothree', 'unfinished']);
+    expect(result.outputs).toEqual([]);
+  });
+
+  it('reports unfinished lines to onFlush as they grow', async () => {
+    const events: string[] = [];
+    const result = await executeSource('PRINT "Loading";\nFOR i = 1 TO 3\nPRINT ".";\nNEXT i\nPRINT " done"\nPRINT "left open";', {
+      onFlush: (pending) => events.push(`flush ${pending}`)
+    });
+    expect(events).toEqual(['flush Loading', 'flush Loading.', 'flush Loading..', 'flush Loading...', 'flush left open']);
+    expect(result.outputs).toEqual(['Loading... done', 'left open']);
+  });
+
+  it('stops a run when its AbortSignal fires, even inside TRY', async () => {
+    const interpreter = createInterpreter();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort('shutting down'), 20);
+
+    const run = interpreter.run(['TRY', '  WHILE 1', '    LET spins = spins + 1', '  WEND', 'CATCH e', '  PRINT "caught"', 'END TRY'].join('\n'), {
+      signal: controller.signal
+    });
+    const error = await run.catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(ExecutionAbortedError);
+    expect(error).toMatchObject({ name: 'AbortError', cause: 'shutting down' });
+  });
+
+  it('stops a run blocked in INPUT, SLEEP or RECV as soon as its AbortSignal fires', async () => {
+    const programs = ['INPUT name$', 'CALL SYS.SLEEP(60000)', 'DIM c AS CHANNEL\nLET m = RECEIVE(c)'];
+    for (const program of programs) {
+      const controller = new AbortController();
+      const run = createInterpreter({ inputHandler: () => new Promise<string>(() => {}) }).run(program, {
+        signal: controller.signal
+      });
+      setTimeout(() => controller.abort('shutting down'), 20);
+      await expect(run).rejects.toThrow(ExecutionAbortedError);
+    }
+  });
+
+  it('reports tasks stopped by an abort as killed, without restarting them', async () => {
+    const interpreter = createInterpreter();
+    let worker: RuntimeValue = null;
+    interpreter.register('KEEP', createFunction('KEEP', ([task]) => {
+      worker = task ?? null;
+      return null;
+    }));
+    const controller = new AbortController();
+    const run = interpreter.run([
+      'DIM exits AS CHANNEL BUFFER 8',
+      'SUB Waiter()',
+      '  LET m = RECV()',
+      'END SUB',
+      'LET w = SPAWN "Waiter" SUPERVISED BY exits RESTART ON ERROR 2 TIMES',
+      'CALL KEEP(w)',
+      'JOIN w'
+    ].join('\n'), { signal: controller.signal });
+    setTimeout(() => controller.abort('shutting down'), 20);
+
+    await expect(run).rejects.toThrow(ExecutionAbortedError);
+    expect(worker).toMatchObject({ status: 'killed', restarts: 0 });
+  });
+
+  it('does not start a run whose signal is already aborted', async () => {
+    const lines: string[] = [];
+    const run = createInterpreter({ onOutput: (line) => lines.push(line) }).run('PRINT "hello"', {
+      signal: AbortSignal.abort()
+    });
+    await expect(run).rejects.toThrow(ExecutionAbortedError);
+    expect(lines).toEqual([]);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, expect, it, beforeEach } from 'vitest';
+import { describe, expect, it, beforeEach, afterAll } from 'vitest';
 import fs from 'node:fs';
 import http from 'node:http';
 import os from 'node:os';
@@ -17,6 +17,7 @@ import {
   createFunction,
   createNamespace
 } from '../../src/interpreter/host.js';
+import { TaskValue } from '../../src/interpreter/runtime-values.js';
 
 const run = (source: string, options?: ExecutionOptions) => {
   const maxSteps = options?.maxSteps ?? 10000; // Add default max steps
@@ -510,6 +511,590 @@ PRINT "END"`;
     });
   });
 
+  it('runs spawned SUBs as concurrent tasks with their own mailbox', async () => {
+    const program = `
+SUB Worker(prefix$)
+  LET msg$ = RECV()
+  PRINT prefix$ + msg$
+END SUB
+LET w = SPAWN Worker("got ")
+SEND w, "ping"
+SYS.SLEEP(10)
+PRINT "main done"
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['got ping', 'main done']);
+    expect(result.variables.w).toBeInstanceOf(TaskValue);
+    expect((result.variables.w as TaskValue).status).toBe('completed');
+  });
+
+  it('captures spawned task results and errors', async () => {
+    const program = `
+FUNCTION Square(n AS NUMBER) AS NUMBER
+  RETURN n * n
+END FUNCTION
+SUB Crash()
+  ERROR "boom"
+END SUB
+LET ok = SPAWN Square(7)
+LET bad = SPAWN "Crash"
+SYS.SLEEP(10)
+`;
+    const result = await run(program.trim());
+    const ok = result.variables.ok as TaskValue;
+    const bad = result.variables.bad as TaskValue;
+    expect(ok.status).toBe('completed');
+    expect(ok.result).toBe(49);
+    expect(bad.status).toBe('error');
+    expect(bad.error).toContain('boom');
+  });
+
+  it('AWAITs task results and rethrows task errors into TRY/CATCH', async () => {
+    const program = `
+FUNCTION Double(n AS NUMBER) AS NUMBER
+  YIELD
+  RETURN n * 2
+END FUNCTION
+SUB Crash()
+  ERROR "worker failed"
+END SUB
+PRINT AWAIT SPAWN Double(21)
+LET bad = SPAWN "Crash"
+TRY
+  LET x = AWAIT bad
+CATCH e
+  PRINT e.message
+END TRY
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['42', 'worker failed']);
+  });
+
+  it('KILLs a blocked task, running its DEFERs, and JOINs it', async () => {
+    const program = `
+SUB Worker()
+  DEFER PRINT "cleanup"
+  LET msg$ = RECV()
+  PRINT "unreachable"
+END SUB
+LET w = SPAWN "Worker"
+YIELD
+KILL w
+JOIN w
+PRINT "joined"
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['cleanup', 'joined']);
+    expect((result.variables.w as TaskValue).status).toBe('killed');
+  });
+
+  it('KILLs tasks blocked in JOIN, AWAIT and host calls at once', async () => {
+    const program = `
+SUB Sleeper()
+  DEFER PRINT "sleeper stopped"
+  SYS.SLEEP(60000)
+END SUB
+SUB Joiner(other)
+  DEFER PRINT "joiner stopped"
+  JOIN other
+END SUB
+SUB Awaiter(other)
+  DEFER PRINT "awaiter stopped"
+  LET r = AWAIT other
+END SUB
+LET s = SPAWN "Sleeper"
+LET j = SPAWN Joiner(s)
+LET a = SPAWN Awaiter(s)
+YIELD
+KILL j
+JOIN j
+KILL a
+JOIN a
+KILL s
+JOIN s
+PRINT "done"
+`;
+    const started = Date.now();
+    const result = await run(program.trim());
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(result.outputs).toEqual(['joiner stopped', 'awaiter stopped', 'sleeper stopped', 'done']);
+    for (const name of ['s', 'j', 'a']) {
+      expect((result.variables[name] as TaskValue).status).toBe('killed');
+    }
+  });
+
+  it('kills tasks still running when the program ends', async () => {
+    const program = `
+SUB Spinner()
+  DEFER PRINT "spinner stopped"
+  WHILE 1
+    n = n + 1
+  WEND
+END SUB
+LET s = SPAWN "Spinner"
+SYS.SLEEP(5)
+PRINT "main done"
+`;
+    const result = await run(program.trim(), { maxSteps: 1000000 });
+    expect(result.outputs).toEqual(['main done', 'spinner stopped']);
+    expect((result.variables.s as TaskValue).status).toBe('killed');
+  });
+
+  it('charges task statements to the step budget', async () => {
+    const program = `
+SUB Spinner()
+  WHILE 1
+    n = n + 1
+  WEND
+END SUB
+LET s = SPAWN "Spinner"
+JOIN s
+PRINT "unreachable"
+`;
+    // The spinner runs out of steps first, leaving none for the program after JOIN
+    await expect(run(program.trim(), { maxSteps: 1000 })).rejects.toThrow(/Exceeded maximum execution steps \(line 8/);
+  });
+
+  it('lets other fibers run at YIELD', async () => {
+    const program = `
+SUB Ticker(name$)
+  PRINT name$ + "1"
+  YIELD
+  PRINT name$ + "2"
+END SUB
+LET a = SPAWN Ticker("a")
+LET b = SPAWN Ticker("b")
+JOIN a, b
+`;
+    const result = await run(program.trim());
+    expect(result.outputs.slice(0, 2).sort()).toEqual(['a1', 'b1']);
+    expect(result.outputs.slice(2).sort()).toEqual(['a2', 'b2']);
+  });
+
+  it('rejects SPAWN of unknown routines', async () => {
+    await expect(run('LET t = SPAWN "missing"')).rejects.toThrow(/Unknown routine 'missing'/);
+  });
+
+  it('pipes typed records through a buffered CHANNEL between tasks', async () => {
+    const program = `
+TYPE Vector
+  x AS NUMBER
+  y AS NUMBER
+END TYPE
+DIM c AS CHANNEL OF Vector BUFFER 2
+SUB Producer(out)
+  FOR i = 1 TO 4
+    SEND out, NEW Vector(i, i * 10)
+  NEXT i
+  out.CLOSE()
+END SUB
+LET p = SPAWN Producer(c)
+LET v = RECEIVE(c)
+WHILE v <> NULL
+  PRINT v.x + v.y
+  v = RECEIVE(c)
+WEND
+PRINT c.CLOSED
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['11', '22', '33', '44', '-1']);
+    expect(result.variables.c).toMatchObject({ kind: 'channel', elementType: 'Vector', capacity: 2 });
+  });
+
+  it('BROADCASTs to every subscriber of a channel', async () => {
+    const program = `
+DIM news AS CHANNEL OF STRING BUFFER 4
+LET a = news.SUBSCRIBE()
+LET b = news.SUBSCRIBE()
+BROADCAST news, "hello"
+BROADCAST news, "bye"
+PRINT RECEIVE(a) + " " + RECEIVE(b)
+PRINT RECEIVE(a) + " " + RECEIVE(b)
+PRINT news.COUNT
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['hello hello', 'bye bye', '0']);
+  });
+
+  it('rejects messages of the wrong type and SENDs on closed channels', async () => {
+    await expect(run('DIM c AS CHANNEL OF NUMBER BUFFER 1\nSEND c, "text"'))
+      .rejects.toThrow(/Channel of NUMBER cannot carry STRING/);
+    await expect(run('DIM c AS CHANNEL BUFFER 1\nc.CLOSE()\nSEND c, 1'))
+      .rejects.toThrow(/Cannot SEND on closed channel/);
+    await expect(run('DIM c AS CHANNEL OF Missing'))
+      .rejects.toThrow(/Unknown type 'Missing' for CHANNEL/);
+  });
+
+  it('times out a RECEIVE on an empty channel with NULL', async () => {
+    const result = await run('DIM c AS CHANNEL\nPRINT RECEIVE(c, 5) = NULL');
+    expect(result.outputs).toEqual(['-1']);
+  });
+
+  it('SELECT RECEIVE resumes on whichever source delivers first', async () => {
+    const program = `
+DIM fast AS CHANNEL BUFFER 1
+DIM slow AS CHANNEL BUFFER 1
+SUB Later(ch, value$)
+  SYS.SLEEP(20)
+  SEND ch, value$
+END SUB
+LET t = SPAWN Later(slow, "slow")
+SEND fast, "fast"
+FOR i = 1 TO 2
+  SELECT RECEIVE
+    CASE msg$ FROM slow
+      PRINT "slow got " + msg$
+    CASE msg$ FROM fast
+      PRINT "fast got " + msg$
+    CASE TIMEOUT 500
+      PRINT "timeout"
+  END SELECT
+NEXT i
+PRINT slow.COUNT + fast.COUNT
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['fast got fast', 'slow got slow', '0']);
+  });
+
+  it('SELECT RECEIVE falls back to CASE TIMEOUT or CASE ELSE', async () => {
+    const program = `
+DIM idle AS CHANNEL
+SELECT RECEIVE
+  CASE msg FROM idle
+    PRINT "unexpected"
+  CASE TIMEOUT 5
+    PRINT "timed out"
+END SELECT
+SELECT RECEIVE
+  CASE msg FROM idle
+    PRINT "unexpected"
+  CASE ELSE
+    PRINT "nothing ready"
+END SELECT
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['timed out', 'nothing ready']);
+  });
+
+  it('SELECT RECEIVE waits on a task mailbox alongside channels', async () => {
+    const program = `
+DIM control AS CHANNEL BUFFER 1
+SUB Coordinator(ctl)
+  FOR round = 1 TO 2
+    SELECT RECEIVE
+      CASE job
+        PRINT "job " + STR$(job)
+      CASE cmd$ FROM ctl
+        PRINT "cmd " + cmd$
+    END SELECT
+  NEXT round
+END SUB
+LET c = SPAWN Coordinator(control)
+YIELD
+SEND c, 7
+YIELD
+SEND control, "stop"
+JOIN c
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['job 7', 'cmd stop']);
+  });
+
+  it('rejects SELECT RECEIVE with both CASE TIMEOUT and CASE ELSE', () => {
+    expect(() => parseSource('SELECT RECEIVE\nCASE m FROM c\nCASE TIMEOUT 5\nCASE ELSE\nEND SELECT'))
+      .toThrow(/both CASE TIMEOUT and CASE ELSE/);
+  });
+
+  it('restarts a crashing task and reports each exit to its supervisor', async () => {
+    const program = `
+DIM exits AS CHANNEL BUFFER 8
+SUB Flaky()
+  ERROR "boom"
+END SUB
+LET w = SPAWN "Flaky" SUPERVISED BY exits RESTART ON ERROR 2 TIMES
+JOIN w
+FOR i = 1 TO 3
+  LET e = RECEIVE(exits, 10)
+  PRINT e.name + " " + e.status + " " + STR$(e.restarts)
+NEXT i
+PRINT w.STATUS + " " + w.ERROR
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual([
+      'Flaky restarting 1',
+      'Flaky restarting 2',
+      'Flaky error 2',
+      'error boom (line 3, column 3)'
+    ]);
+  });
+
+  it('queues every exit record on a full bounded supervisor channel', async () => {
+    const program = `
+DIM exits AS CHANNEL BUFFER 1
+SUB Flaky()
+  ERROR "boom"
+END SUB
+LET w = SPAWN "Flaky" SUPERVISED BY exits RESTART ON ERROR 2 TIMES
+JOIN w
+FOR i = 1 TO 3
+  LET e = RECEIVE(exits, 0)
+  PRINT e.status
+NEXT i
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['restarting', 'restarting', 'error']);
+  });
+
+  it('rejects supervision by a closed channel', async () => {
+    const program = `
+DIM exits AS CHANNEL BUFFER 1
+SUB Idle()
+END SUB
+exits.CLOSE()
+LET w = SPAWN "Idle" SUPERVISED BY exits
+`;
+    await expect(run(program.trim())).rejects.toThrow(/SUPERVISED BY a closed Channel/);
+  });
+
+  it('delivers exit records to a supervising task mailbox', async () => {
+    const program = `
+SUB Crash(n)
+  ERROR "crash " + STR$(n)
+END SUB
+SUB Supervisor()
+  LET down = RECV(100)
+  PRINT down.status + ": " + down.reason
+END SUB
+LET sup = SPAWN "Supervisor"
+LET child = SPAWN Crash(1) SUPERVISED BY sup
+JOIN sup
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['error: crash 1 (line 2, column 3)']);
+  });
+
+  it('kills LINKed tasks when one of them fails', async () => {
+    const program = `
+SUB Waiter()
+  DEFER PRINT "waiter stopped"
+  LET msg = RECV()
+END SUB
+SUB Crash()
+  YIELD
+  ERROR "linked crash"
+END SUB
+LET a = SPAWN "Waiter"
+LET b = SPAWN "Crash"
+a.LINK(b)
+JOIN a, b
+PRINT a.STATUS + " " + b.STATUS
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['waiter stopped', 'killed error']);
+  });
+
+  it('reports bad GOTO and GOSUB usage', async () => {
+    await expect(run('10 ON 1 GOSUB 20, 99\n20 END')).resolves.toBeDefined();
+    await expect(run('10 ON 2 GOTO 20, 99\n20 END')).rejects.toThrow('Undefined line number 99 (line 1, column 18)');
+    await expect(run('10 PRINT "A"\n20 RETURN')).rejects.toThrow('RETURN without GOSUB (line 2, column 4)');
+    await expect(run('SUB Jump()\n  GOTO 10\nEND SUB\n10 Jump()')).rejects.toThrow('GOTO cannot be used inside FUNCTION or SUB');
+  });
+
+  it('traps errors with ON ERROR GOTO until the handler gives up', async () => {
+    const trapped = await run('10 ON ERROR GOTO 100\n20 DIM a(2)\n30 PRINT a(5)\n40 PRINT "after"\n50 END\n100 PRINT ERR; " at "; ERL\n110 RESUME 40');
+    expect(trapped.outputs).toEqual(['9 at 30', 'after']);
+    await expect(run('10 ON ERROR GOTO 100\n20 ERROR "boom"\n30 END\n100 ON ERROR GOTO 0'))
+      .rejects.toThrow('boom (line 2, column 4)');
+    await expect(run('10 ON ERROR GOTO 100\n20 ERROR "first"\n30 END\n100 ERROR "second"'))
+      .rejects.toThrow('second (line 4, column 5)');
+    await expect(run('10 RESUME NEXT')).rejects.toThrow('RESUME without error');
+  });
+
+  it('selects CATCH clauses by error TYPE and RETHROWs the original error', async () => {
+    const program = `
+TYPE NotFound
+  Message AS STRING
+  Path AS STRING
+  Line AS NUMBER
+END TYPE
+TRY
+  ERROR NotFound { Message: "no such file", Path: "/tmp/x", Line: 0 }
+CATCH e AS HttpError
+  PRINT "http"
+CATCH e AS NotFound
+  PRINT e.Message + " " + e.Path; e.Line
+END TRY
+DIM a(2)
+TRY
+  PRINT a(5)
+CATCH e AS ERROR
+  PRINT e.Code; " "; e.Line; " "; e.Column; " "; e.Stack
+END TRY
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['no such file /tmp/x7', '9 15 11 at <main> (line 15, column 11)']);
+    await expect(run('TRY\n  ERROR "boom"\nCATCH e\n  RETHROW\nEND TRY')).rejects.toThrow('boom (line 2, column 3)');
+    await expect(run('TRY\n  ERROR "boom"\nCATCH e AS HttpError\n  PRINT "no"\nEND TRY')).rejects.toThrow('boom (line 2, column 3)');
+    await expect(run('TRY\n  ERROR "boom"\nCATCH e AS Missing\nEND TRY')).rejects.toThrow("Unknown error type 'Missing' in CATCH");
+    await expect(run('RETHROW')).rejects.toThrow('RETHROW outside of CATCH');
+  });
+
+  it('keeps location fields a raised record already set, and reads Message in any case', async () => {
+    const program = `
+TYPE Remote
+  Message AS STRING
+  Line AS NUMBER
+  Column AS NUMBER
+END TYPE
+TRY
+  ERROR Remote { Message: "lost", Line: 42, Column: 0 }
+CATCH e AS Remote
+  PRINT e.message; " "; e.Line; " "; e.Column
+END TRY
+TRY
+  ERROR "boom"
+CATCH e
+  PRINT e.MESSAGE
+END TRY
+`;
+    const result = await run(program.trim());
+    expect(result.outputs).toEqual(['lost 42 3', 'boom']);
+  });
+
+  it('attaches the FUNCTION and SUB call chain to runtime errors', async () => {
+    const program = `
+FUNCTION Inner(x)
+  ERROR "bad input"
+END FUNCTION
+SUB Outer()
+  LET y = Inner(3)
+END SUB
+TRY
+  Outer()
+CATCH e
+  PRINT e.Stack
+END TRY
+Outer()
+`;
+    const error = await run(program.trim()).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(RuntimeError);
+    expect((error as RuntimeError).formatTraceback()).toBe(
+      'bad input (line 2, column 3)\n  at Inner (line 2, column 3)\n  at Outer (line 5, column 18)\n  at <main> (line 12, column 7)'
+    );
+    const caught = await run(program.trim().split('\n').slice(0, -1).join('\n'));
+    expect(caught.outputs).toEqual(['at Inner (line 2, column 3)\nat Outer (line 5, column 18)\nat <main> (line 8, column 9)']);
+  });
+
+  it('coerces READ values by variable name', async () => {
+    const result = await run('READ a$, b\nPRINT a$ + "!"; b + 1\nDATA 42, "7"');
+    expect(result.outputs).toEqual(['42!8']);
+    await expect(run('READ n\nDATA north')).rejects.toThrow("Cannot convert 'north' to number (line 2, column 6)");
+    await expect(run('10 RESTORE 99')).rejects.toThrow('Undefined line number 99');
+  });
+
+  it('bounds-checks DIM arrays against their declared subscripts', async () => {
+    const result = await run('OPTION BASE 1\nDIM grid(2, 3)\ngrid(2, 3) = 7\nPRINT LEN(grid); LEN(grid(1)); grid[2][3]');
+    expect(result.outputs).toEqual(['237']);
+    await expect(run('DIM grid(80, 25)\nPRINT grid(81, 0)')).rejects.toThrow('Array index 81 out of bounds (0 TO 80) (line 2, column 12)');
+    await expect(run('DIM days(1 TO 7)\ndays(0) = 1')).rejects.toThrow('Array index 0 out of bounds (1 TO 7)');
+    await expect(run('DIM empty(5 TO 1)')).rejects.toThrow('Array upper bound 1 is below lower bound 5');
+  });
+
+  it('resizes arrays with REDIM and REDIM PRESERVE', async () => {
+    const result = await run(
+      'DIM grid(1, 1)\ngrid(1, 1) = 4\nREDIM PRESERVE grid(2, 1)\nPRINT grid(1, 1); grid(2, 1)\nREDIM grid(2, 1)\nPRINT grid(1, 1)'
+    );
+    expect(result.outputs).toEqual(['40', '0']);
+    await expect(run('DIM grid(1, 1)\nREDIM PRESERVE grid(4)')).rejects.toThrow("REDIM PRESERVE cannot change 'grid' from 2 to 1 dimension(s)");
+    await expect(run('REDIM PRESERVE missing(4)')).rejects.toThrow("REDIM PRESERVE requires an existing array 'missing'");
+  });
+
+  it('declares CONST values and rejects reassignment', async () => {
+    const result = await run('CONST MAX_SPEED = 12.5\nCONST HALF = MAX_SPEED / 2\nPRINT MAX_SPEED; " "; HALF');
+    expect(result.outputs).toEqual(['12.5 6.25']);
+    await expect(run('CONST MAX_SPEED = 12.5\nMAX_SPEED = 3'))
+      .rejects.toThrow('Cannot assign to CONST MAX_SPEED declared at line 1, column 7 (line 2, column 1)');
+    await expect(run('CONST LIMIT = 3\nFOR LIMIT = 1 TO 2\nNEXT LIMIT')).rejects.toThrow('Cannot assign to CONST LIMIT');
+    await expect(run('CONST ROOT = SQR(16)\nLET ROOT = 5')).rejects.toThrow('Cannot assign to CONST ROOT');
+  });
+
+  describe('IMPORT', () => {
+    const moduleDirs: string[] = [];
+    afterAll(() => {
+      for (const dir of moduleDirs) {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    const writeModules = (files: Record<string, string>) => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'basic9000-modules-'));
+      moduleDirs.push(dir);
+      for (const [name, source] of Object.entries(files)) {
+        fs.writeFileSync(path.join(dir, name), source.trim());
+      }
+      return dir;
+    };
+
+    it('evaluates a module once however often it is imported', async () => {
+      const dir = writeModules({
+        'counter.bas': 'PRINT "loading counter"\nPUBLIC FUNCTION Twice(n)\n  RETURN n * 2\nEND FUNCTION',
+        'main.bas': ''
+      });
+      const result = await run(
+        'IMPORT "counter.bas" AS A\nIMPORT "counter.bas" AS B\nPRINT A.Twice(4) + B.Twice(1)',
+        { sourcePath: path.join(dir, 'main.bas') }
+      );
+      expect(result.outputs).toEqual(['loading counter', '10']);
+    });
+
+    it('reports circular imports', async () => {
+      const dir = writeModules({
+        'a.bas': 'IMPORT "b.bas"',
+        'b.bas': 'IMPORT "a.bas"',
+        'main.bas': ''
+      });
+      await expect(run('IMPORT "a.bas"', { sourcePath: path.join(dir, 'main.bas') }))
+        .rejects.toThrow('Circular IMPORT: a.bas -> b.bas -> a.bas (b.bas, line 1, column 1)');
+    });
+
+    it('exports PUBLIC CONST values', async () => {
+      const dir = writeModules({
+        'physics.bas': 'MODULE Physics\nPUBLIC CONST GRAVITY = 9.8\nCONST SECRET = 1',
+        'main.bas': ''
+      });
+      const result = await run('IMPORT "physics.bas"\nPRINT Physics.GRAVITY * 2', { sourcePath: path.join(dir, 'main.bas') });
+      expect(result.outputs).toEqual(['19.6']);
+    });
+
+    it('names the imported file in parse and runtime errors', async () => {
+      const dir = writeModules({
+        'broken.bas': 'PRINT "ok"\nLET = 5',
+        'crash.bas': 'PUBLIC SUB Fail()\n  ERROR "module failure"\nEND SUB',
+        'main.bas': ''
+      });
+      const sourcePath = path.join(dir, 'main.bas');
+      await expect(run('IMPORT "broken.bas"', { sourcePath })).rejects.toThrow(/\(broken\.bas, line 2, column 5\)/);
+      await expect(run('IMPORT "crash.bas"\ncrash.Fail()', { sourcePath }))
+        .rejects.toThrow('module failure (crash.bas, line 2, column 3)');
+    });
+
+    it('traces calls through module routines', async () => {
+      const dir = writeModules({
+        'crash.bas': 'PUBLIC SUB Fail()\n  ERROR "module failure"\nEND SUB',
+        'main.bas': ''
+      });
+      const error = await run('IMPORT "crash.bas"\nSUB Go()\n  crash.Fail()\nEND SUB\nGo()', {
+        sourcePath: path.join(dir, 'main.bas')
+      }).catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(RuntimeError);
+      expect((error as RuntimeError).stackTrace).toEqual([
+        'at crash.Fail (crash.bas, line 2, column 3)',
+        'at Go (line 3, column 14)',
+        'at <main> (line 5, column 4)'
+      ]);
+    });
+  });
+
   it('sorts arrays and joins elements', async () => {
     const result = await run('PRINT ARRAY.SORT([5,2,8,1])\nPRINT ARRAY.JOIN(ARRAY.REVERSE(["A","B","C"]), "-")');
     expect(result.outputs[0]).toBe('[1,2,5,8]');
@@ -587,6 +1172,27 @@ PRINT FS.LIST("${escapedDir}")
     }
   });
 
+  it('raises HttpError for failed HTTP requests', async () => {
+    const server = http.createServer((_req, res) => {
+      res.writeHead(404);
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as { port: number };
+    try {
+      const program = `
+TRY
+  PRINT HTTP.GET("http://127.0.0.1:${port}/missing")
+CATCH e AS HttpError
+  PRINT e.Status; " "; e.Line
+END TRY`;
+      const result = await run(program.trim());
+      expect(result.outputs).toEqual(['404 2']);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
   it('parses JSON documents and extracts values', async () => {
     const program = `
 LET J = JSON.PARSE("{""temp"":{""value"":42,""status"":""ok""}}")
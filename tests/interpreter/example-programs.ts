@@ -0,0 +1,11 @@
+import { readdirSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+
+const listPrograms = (directory: string): string[] =>
+  readdirSync(directory).flatMap((entry) => {
+    const path = join(directory, entry);
+    return statSync(path).isDirectory() ? listPrograms(path) : entry.endsWith('.bas') ? [path] : [];
+  });
+
+// Every .bas file under the demos and the test programs, for specs that must handle them all
+export const examplePrograms = (): string[] => [...listPrograms('demos'), ...listPrograms('tests/basic-programs')];
@@ -0,0 +1,123 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { formatSource } from '../../src/interpreter/formatter.js';
+import { ParseError, parseSource } from '../../src/interpreter/parser.js';
+import { examplePrograms } from './example-programs.js';
+
+// Tokens carry positions that formatting is expected to change; compare what was written instead
+const withoutPositions = (node: unknown): unknown => {
+  if (Array.isArray(node)) {
+    return node.map(withoutPositions);
+  }
+  if (!node || typeof node !== 'object') {
+    return node;
+  }
+  if ('lexeme' in node && 'line' in node && 'column' in node) {
+    return node.lexeme;
+  }
+  return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, withoutPositions(value)]));
+};
+
+describe('formatter', () => {
+  const programs = examplePrograms();
+
+  it.each(programs)('formats %s idempotently without changing its meaning', (path) => {
+    const source = readFileSync(path, 'utf8');
+    let original;
+    try {
+      original = parseSource(source);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParseError);
+      expect(() => formatSource(source)).toThrow(ParseError);
+      return;
+    }
+
+    const formatted = formatSource(source);
+    expect(formatSource(formatted)).toBe(formatted);
+    expect(withoutPositions(parseSource(formatted))).toEqual(withoutPositions(original));
+  });
+
+  it('indents blocks and spaces operators', () => {
+    const source = [
+      'FUNCTION Fact(n AS NUMBER) AS NUMBER',
+      'IF n<=1 THEN',
+      'RETURN 1',
+      'ELSE',
+      '      RETURN n*Fact(n-1)',
+      'END IF',
+      'END FUNCTION',
+      'FOR i=1 TO 3',
+      'WHILE i<2',
+      'PRINT (i+1)*2;grid(i, 2)',
+      'WEND',
+      'NEXT i'
+    ].join('\n');
+    expect(formatSource(source)).toBe(
+      [
+        'FUNCTION Fact(n AS NUMBER) AS NUMBER',
+        '  IF n <= 1 THEN',
+        '    RETURN 1',
+        '  ELSE',
+        '    RETURN n * Fact(n - 1)',
+        '  END IF',
+        'END FUNCTION',
+        'FOR i = 1 TO 3',
+        '  WHILE i < 2',
+        '    PRINT (i + 1) * 2; grid(i, 2)',
+        '  WEND',
+        'NEXT i',
+        ''
+      ].join('\n')
+    );
+  });
+
+  it('keeps comments, single blank lines and constants as written', () => {
+    const source = [
+      "' Settings",
+      'CONST SIZE = 2 * 8   \' bytes',
+      '',
+      '',
+      'SELECT CASE SIZE',
+      'CASE 16',
+      "' the usual",
+      'PRINT "ok"',
+      'CASE ELSE',
+      'PRINT "odd"',
+      'END SELECT'
+    ].join('\n');
+    expect(formatSource(source)).toBe(
+      [
+        "' Settings",
+        "CONST SIZE = 2 * 8 ' bytes",
+        '',
+        'SELECT CASE SIZE',
+        '  CASE 16',
+        "    ' the usual",
+        '    PRINT "ok"',
+        '  CASE ELSE',
+        '    PRINT "odd"',
+        'END SELECT',
+        ''
+      ].join('\n')
+    );
+  });
+
+  it('keeps unary signs on number literals as written', () => {
+    const source = ['PRINT --5', 'PRINT +5', 'PRINT -5 * -x', 'PRINT 2 - -3', ''].join('\n');
+    expect(formatSource(source)).toBe(source);
+  });
+
+  it('renumbers lines and their jump targets', () => {
+    const source = ['5 LET X = 1', '7 IF X > 2 THEN 12', '9 X = X + 1 : GOTO 7', '12 PRINT X'].join('\n');
+    expect(formatSource(source, { lineNumbers: 'renumber', renumberStart: 100, renumberStep: 5 })).toBe(
+      ['100 LET X = 1', '105 IF X > 2 THEN 115', '110 X = X + 1 : GOTO 105', '115 PRINT X', ''].join('\n')
+    );
+    expect(formatSource(source, { lineNumbers: 'remove' })).toBe(
+      ['LET X = 1', '7 IF X > 2 THEN 12', 'X = X + 1 : GOTO 7', '12 PRINT X', ''].join('\n')
+    );
+  });
+
+  it('refuses to format source that does not parse', () => {
+    expect(() => formatSource('PRINT (1 +')).toThrow(ParseError);
+  });
+});
@@ -4,9 +4,9 @@ import { join } from 'node:path';
 import { parseSource } from '../../src/interpreter/parser.js';
 import { executeProgram, RuntimeError } from '../../src/interpreter/evaluator.js';
 
-const run = async (source: string) => {
+const run = async (source: string, sourcePath?: string) => {
   const parsed = parseSource(source);
-  return executeProgram(parsed);
+  return executeProgram(parsed, { sourcePath });
 };
 
 describe('Objects.md Language Features', () => {
@@ -21,7 +21,7 @@ describe('Objects.md Language Features', () => {
     const expectsRuntimeError = source.includes('REM EXPECT: RuntimeError');
 
     try {
-      const result = await run(source);
+      const result = await run(source, filePath);
 
       if (expectsRuntimeError) {
         throw new Error(`Expected RuntimeError in ${fileName}, but test completed successfully`);
@@ -2,6 +2,8 @@ import { describe, expect, it } from 'vitest';
 import { parseSource, ParseError } from '../../src/interpreter/parser.js';
 import type {
   AssignmentStatementNode,
+  ConstStatementNode,
+  DimStatementNode,
   ForStatementNode,
   IfStatementNode,
   LetStatementNode,
@@ -150,7 +152,68 @@ describe('parser', () => {
     }
   });
 
+  it('folds constant arithmetic and inlines literal CONST values', () => {
+    const program = parseSource('CONST LIMIT = 2 * 5 + 1\nCONST TITLE$ = "Max " + "Speed"\nFOR I = 1 TO LIMIT * 2\nNEXT I');
+    const [limit, title, loop] = program.lines.map((line) => line.statements[0]);
+    expect((limit as ConstStatementNode).value).toMatchObject({ type: 'NumberLiteral', value: 11 });
+    expect((title as ConstStatementNode).value).toMatchObject({ type: 'StringLiteral', value: 'Max Speed' });
+    expect((loop as ForStatementNode).end).toMatchObject({ type: 'NumberLiteral', value: 22 });
+  });
+
+  it('rejects parameters that share a name with a CONST', () => {
+    expect(() => parseSource('CONST n = 3\nFUNCTION Twice(n)\n  RETURN n * 2\nEND FUNCTION'))
+      .toThrow('Parameter n cannot shadow CONST n declared at line 1, column 7');
+    expect(() => parseSource('SUB Show(label$)\n  PRINT label$\nEND SUB\nCONST label$ = "x"'))
+      .toThrow('CONST label$ clashes with the parameter declared at line 1, column 10');
+    expect(() => parseSource('CONST n = 3\nFUNCTION Twice(m)\n  RETURN m * n\nEND FUNCTION')).not.toThrow();
+  });
+
+  it('rejects CONST inside routines', () => {
+    expect(() => parseSource('SUB Tune()\n  CONST X = 1\nEND SUB')).toThrow('CONST is only allowed at program or module level');
+  });
+
+  it('parses subscripts on DIMmed arrays as nested index expressions', () => {
+    const program = parseSource('OPTION BASE 1\nDIM grid(80, 0 TO 25)\ngrid(1, 2) = grid(3, 4)');
+    const dim = program.lines[1]!.statements[0] as DimStatementNode;
+    expect(dim.dimensions?.[0]?.lower).toMatchObject({ type: 'NumberLiteral', value: 1 });
+    expect(dim.dimensions?.[1]?.lower).toMatchObject({ type: 'NumberLiteral', value: 0 });
+    const assignment = program.lines[2]!.statements[0] as AssignmentStatementNode;
+    expect(assignment.target).toMatchObject({
+      type: 'IndexExpression',
+      object: { type: 'IndexExpression', object: { name: 'grid' }, index: { value: 1 } },
+      index: { value: 2 }
+    });
+    expect(assignment.value.type).toBe('IndexExpression');
+  });
+
+  it('collects DATA values across lines without reserving data as a keyword', () => {
+    const program = parseSource('10 DATA 1, "two"\n20 LET data = 5\n30 DATA -3, bare words');
+    expect(program.data.map((item) => [item.value, item.lineIndex])).toEqual([[1, 0], ['two', 0], [-3, 2], ['bare words', 2]]);
+    expect(program.lines[1]!.statements[0]!.type).toBe('LetStatement');
+  });
+
   it('raises on invalid assignments', () => {
     expect(() => parseSource('LET = 5')).toThrow(ParseError);
   });
+
+  it('recovers at statement and line boundaries when collecting diagnostics', () => {
+    const diagnostics: ParseError[] = [];
+    const program = parseSource(
+      'LET = 5\nFUNCTION F(x)\n  LET y = * 2\n  RETURN x\nEND FUNCTION\nPRINT "a" : LET : PRINT "b"\nPRINT (1 +',
+      { diagnostics }
+    );
+    expect(diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+      'Expected identifier (line 1, column 5)',
+      'Expected expression (line 3, column 11)',
+      'Expected identifier (line 6, column 17)',
+      'Expected expression (line 7, column 11)'
+    ]);
+    expect(program.lines.map((line) => line.statements.map((statement) => statement.type))).toEqual([
+      ['InvalidStatement'],
+      ['FunctionStatement'],
+      ['PrintStatement', 'InvalidStatement', 'PrintStatement'],
+      ['InvalidStatement']
+    ]);
+    expect(program.lines[0]!.statements[0]).toMatchObject({ message: 'Expected identifier', token: { lexeme: '=' } });
+  });
 });
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { executeSource, InterpreterSession } from '../../src/interpreter/evaluator.js';
+import { createDefaultHostEnvironment } from '../../src/interpreter/host-defaults.js';
+import { createFunction } from '../../src/interpreter/host.js';
+import { Profiler } from '../../src/interpreter/profiler.js';
+
+// Time only passes when a program calls TICK(ms), so every timing is exact
+const createClock = () => {
+  let time = 0;
+  const hostEnvironment = createDefaultHostEnvironment();
+  hostEnvironment.register('TICK', createFunction('TICK', ([ms]) => {
+    time += Number(ms);
+    return null;
+  }));
+  return { hostEnvironment, profiler: new Profiler(() => time) };
+};
+
+describe('Profiler', () => {
+  it('records hits and time per line, and calls and timings per function', async () => {
+    const { hostEnvironment, profiler } = createClock();
+    await executeSource([
+      'FUNCTION Work(n)',
+      '  CALL TICK(n)',
+      '  RETURN n',
+      'END FUNCTION',
+      'FOR i = 1 TO 2',
+      '  total = total + Work(i * 10)',
+      'NEXT i',
+      'CALL TICK(5)'
+    ].join('\n'), { hostEnvironment, profiler });
+
+    expect(profiler.totalTime).toBe(35);
+    const lines = profiler.lines();
+    expect(lines.find((line) => line.line === 2)).toEqual({ file: undefined, line: 2, hits: 2, time: 30 });
+    expect(lines.find((line) => line.line === 6)).toMatchObject({ hits: 2, time: 0 });
+    expect(lines.find((line) => line.line === 8)).toMatchObject({ hits: 1, time: 5 });
+
+    expect(profiler.functions()).toEqual([
+      { name: 'TICK', kind: 'host', calls: 3, inclusiveTime: 35, exclusiveTime: 35 },
+      { name: 'Work', kind: 'user', calls: 2, inclusiveTime: 30, exclusiveTime: 0 }
+    ]);
+    expect(profiler.foldedStacks()).toBe('<main>;Work;TICK 30000\n<main>;TICK 5000\n');
+  });
+
+  it('counts recursive calls once towards inclusive time', async () => {
+    const { hostEnvironment, profiler } = createClock();
+    const result = await executeSource([
+      'FUNCTION Fact(n)',
+      '  CALL TICK(1)',
+      '  IF n <= 1 THEN RETURN 1',
+      '  RETURN n * Fact(n - 1)',
+      'END FUNCTION',
+      'PRINT Fact(3)'
+    ].join('\n'), { hostEnvironment, profiler });
+
+    expect(result.outputs).toEqual(['6']);
+    expect(profiler.functions().find((func) => func.name === 'Fact')).toEqual({
+      name: 'Fact',
+      kind: 'user',
+      calls: 3,
+      inclusiveTime: 3,
+      exclusiveTime: 0
+    });
+    expect(profiler.foldedStacks().split('\n')).toEqual([
+      '<main>;Fact;TICK 1000',
+      '<main>;Fact;Fact;TICK 1000',
+      '<main>;Fact;Fact;Fact;TICK 1000',
+      ''
+    ]);
+  });
+
+  it('keeps the calls of a task apart from the program calls they overlap', async () => {
+    const { hostEnvironment, profiler } = createClock();
+    await executeSource([
+      'SUB Slow(n)',
+      '  LET m = RECV()',
+      'END SUB',
+      'FUNCTION Fast()',
+      '  CALL TICK(40)',
+      '  RETURN 1',
+      'END FUNCTION',
+      'LET t = SPAWN Slow(1)',
+      'CALL TICK(0)',
+      'LET x = Fast()',
+      'SEND t, "go"',
+      'JOIN t'
+    ].join('\n'), { hostEnvironment, profiler });
+
+    expect(profiler.foldedStacks().split('\n')).toEqual([
+      '<main>;Fast;TICK 40000',
+      '<main>;Slow 40000',
+      ''
+    ]);
+    expect(profiler.functions().find((func) => func.name === 'Fast')).toMatchObject({ inclusiveTime: 40, exclusiveTime: 0 });
+  });
+
+  it('adds up session runs, including ones that fail, and summarizes them', async () => {
+    const { hostEnvironment, profiler } = createClock();
+    const session = new InterpreterSession({ hostEnvironment, profiler });
+    await session.run('CALL TICK(4)');
+    await expect(session.run('CALL TICK(6)\nERROR "boom"')).rejects.toThrow('boom');
+    await session.run('CALL TICK(10)');
+
+    expect(profiler.totalTime).toBe(20);
+    expect(profiler.functions()).toEqual([
+      { name: 'TICK', kind: 'host', calls: 3, inclusiveTime: 20, exclusiveTime: 20 }
+    ]);
+    const summary = profiler.summary();
+    expect(summary).toContain('Profile: 20.00 ms total');
+    expect(summary).toMatch(/TICK\s+host\s+3\s+20\.00\s+20\.00\s+100\.0%/);
+
+    profiler.reset();
+    expect(profiler.totalTime).toBe(0);
+    expect(profiler.foldedStacks()).toBe('');
+  });
+});
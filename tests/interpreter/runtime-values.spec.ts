@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+
+import { ChannelValue, TaskValue } from '../../src/interpreter/runtime-values.js';
+
+const makeTask = (name: string) => new TaskValue(`task_${name}`, name, async () => null);
+
+describe('TaskValue mailbox', () => {
+  it('delivers queued messages in order, including falsy values', async () => {
+    const task = makeTask('queue');
+    task.send(0);
+    task.send('');
+    task.send('last');
+    expect(await task.receive()).toBe(0);
+    expect(await task.receive()).toBe('');
+    expect(await task.receive()).toBe('last');
+  });
+
+  it('wakes the oldest pending receiver first', async () => {
+    const task = makeTask('waiters');
+    const first = task.receive();
+    const second = task.receive();
+    expect(task.status).toBe('waiting');
+
+    task.send('a');
+    task.send('b');
+
+    expect(await first).toBe('a');
+    expect(await second).toBe('b');
+    expect(task.status).toBe('running');
+  });
+
+  it('times out without swallowing later messages', async () => {
+    const task = makeTask('timeout');
+    expect(await task.receive(5)).toBeNull();
+    expect(task.status).toBe('running');
+
+    task.send('late');
+    expect(task.mailbox).toEqual(['late']);
+    expect(await task.receive(0)).toBe('late');
+  });
+
+  it('returns immediately for a zero timeout on an empty mailbox', async () => {
+    const task = makeTask('poll');
+    expect(await task.receive(0)).toBeNull();
+    expect(task.status).toBe('running');
+  });
+
+  it('pushes 100k messages through a ping-pong pair quickly', async () => {
+    const ping = makeTask('ping');
+    const pong = makeTask('pong');
+    const rounds = 50_000;
+
+    const started = performance.now();
+    const ponger = (async () => {
+      for (let i = 0; i < rounds; i += 1) {
+        const message = await pong.receive();
+        ping.send(message);
+      }
+    })();
+
+    let received = 0;
+    for (let i = 0; i < rounds; i += 1) {
+      pong.send(i);
+      if ((await ping.receive()) === i) {
+        received += 1;
+      }
+    }
+    await ponger;
+    const elapsed = performance.now() - started;
+
+    expect(received).toBe(rounds);
+    expect(elapsed).toBeLessThan(1000);
+  });
+});
+
+describe('ChannelValue', () => {
+  it('holds senders back while the buffer is full', async () => {
+    const channel = new ChannelValue('channel_bp', 'NUMBER', 1);
+    expect(await channel.send(1)).toBe(true);
+
+    let secondAccepted = false;
+    const second = channel.send(2).then((accepted) => {
+      secondAccepted = accepted;
+    });
+    await Promise.resolve();
+    expect(secondAccepted).toBe(false);
+    expect(channel.buffer).toEqual([1]);
+
+    expect(await channel.receive()).toBe(1);
+    await second;
+    expect(secondAccepted).toBe(true);
+    expect(await channel.receive()).toBe(2);
+  });
+
+  it('hands messages straight over on an unbuffered channel', async () => {
+    const channel = new ChannelValue('channel_sync', undefined, 0);
+    const pending = channel.receive();
+    expect(await channel.send('direct')).toBe(true);
+    expect(await pending).toBe('direct');
+  });
+
+  it('drains buffered messages after close and rejects blocked senders', async () => {
+    const channel = new ChannelValue('channel_close', undefined, 1);
+    await channel.send('kept');
+    const blocked = channel.send('dropped');
+
+    expect(channel.close()).toBe(true);
+    expect(await blocked).toBe(false);
+    expect(await channel.send('late')).toBe(false);
+    expect(await channel.receive()).toBe('kept');
+    expect(await channel.receive()).toBeNull();
+  });
+
+  it('posts past a full buffer without waiting, until closed', async () => {
+    const channel = new ChannelValue('channel_post', undefined, 1);
+    expect(channel.post('first')).toBe(true);
+    expect(channel.post('second')).toBe(true);
+    expect(channel.buffer).toEqual(['first', 'second']);
+
+    channel.close();
+    expect(channel.post('late')).toBe(false);
+    expect(await channel.receive()).toBe('first');
+    expect(await channel.receive()).toBe('second');
+  });
+
+  it('copies broadcasts to each subscriber and closes them with the source', async () => {
+    const channel = new ChannelValue('channel_pub', undefined, 2);
+    const first = channel.subscribe();
+    const second = channel.subscribe();
+
+    expect(await channel.broadcast('news')).toBe(true);
+    expect(await first.receive(0)).toBe('news');
+    expect(await second.receive(0)).toBe('news');
+    expect(channel.buffer).toEqual([]);
+
+    channel.close();
+    expect(first.closed && second.closed).toBe(true);
+    expect(channel.subscribe().closed).toBe(true);
+  });
+
+  it('wakes a blocked receiver when its abort signal fires', async () => {
+    const channel = new ChannelValue('channel_abort', undefined, 0);
+    const controller = new AbortController();
+    const pending = channel.receive(undefined, controller.signal);
+    controller.abort();
+    expect(await pending).toBeNull();
+
+    await channel.send('after', controller.signal);
+    expect(channel.buffer).toEqual([]);
+  });
+});
+
+describe('SELECT RECEIVE claims', () => {
+  it('leaves the message queued when another source already won', async () => {
+    const channel = new ChannelValue('channel_claim', undefined, 1);
+    await channel.send('kept');
+    expect(await channel.receive(undefined, undefined, () => false)).toBeNull();
+    expect(channel.buffer).toEqual(['kept']);
+  });
+
+  it('skips waiters whose SELECT has settled and buffers for the next receiver', async () => {
+    const task = makeTask('claims');
+    const controller = new AbortController();
+    let won = false;
+    const loser = task.receive(undefined, controller.signal, () => won);
+    task.send('kept');
+    expect(await loser).toBeNull();
+    expect(task.mailbox).toEqual(['kept']);
+
+    won = true;
+    expect(await task.receive(undefined, controller.signal, () => won)).toBe('kept');
+  });
+});
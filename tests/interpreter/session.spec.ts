@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { InterpreterSession, RuntimeError } from '../../src/interpreter/evaluator.js';
+import { createDefaultHostEnvironment } from '../../src/interpreter/host-defaults.js';
+import { createFunction } from '../../src/interpreter/host.js';
+
+// A session whose programs can CALL INTERRUPT() or PAUSE() to stop themselves at a known point
+const createSession = (onOutput?: (line: string) => void) => {
+  const hostEnvironment = createDefaultHostEnvironment();
+  const session: InterpreterSession = new InterpreterSession({ hostEnvironment, onOutput });
+  hostEnvironment.register('INTERRUPT', createFunction('INTERRUPT', () => {
+    session.interrupt();
+    return null;
+  }));
+  hostEnvironment.register('PAUSE', createFunction('PAUSE', () => {
+    session.pause();
+    return null;
+  }));
+  return session;
+};
+
+describe('InterpreterSession interrupts', () => {
+  it('breaks at the next statement after running DEFER blocks, and CONT carries on from there', async () => {
+    const session = createSession();
+    const program = [
+      'DEFER PRINT "cleanup"',
+      'FOR i = 1 TO 5',
+      '  PRINT i',
+      '  IF i = 3 THEN CALL INTERRUPT()',
+      'NEXT i',
+      'PRINT "done"'
+    ].join('\n');
+
+    const interrupted = await session.run(program);
+    expect(interrupted.outputs).toEqual(['1', '2', '3', 'cleanup']);
+    expect(interrupted.halted).toBe('BREAK');
+
+    expect((await session.run('PRINT "i is"; i')).outputs).toEqual(['i is3']);
+    const continued = await session.run('CONT');
+    expect(continued.outputs).toEqual(['4', '5', 'done']);
+    expect(continued.halted).toBeUndefined();
+    await expect(session.run('CONT')).rejects.toThrow("Can't continue");
+  });
+
+  it('stops loops that never yield, running FINALLY but not CATCH', async () => {
+    const session = createSession();
+    setTimeout(() => session.interrupt(), 20);
+    const result = await session.run([
+      'TRY',
+      '  WHILE 1',
+      '    spins = spins + 1',
+      '  WEND',
+      'CATCH e',
+      '  PRINT "caught"',
+      'FINALLY',
+      '  PRINT "finally"',
+      'END TRY'
+    ].join('\n'));
+    expect(result.halted).toBe('BREAK');
+    expect(result.outputs).toEqual(['finally']);
+    expect(result.variables.spins).toBeGreaterThan(0);
+  });
+
+  it('continues after STOP with the next statement', async () => {
+    const session = createSession();
+    const stopped = await session.run('PRINT "one" : STOP : PRINT "two"\nPRINT "three"');
+    expect(stopped).toMatchObject({ outputs: ['one'], halted: 'STOP' });
+    expect((await session.run('CONT')).outputs).toEqual(['two', 'three']);
+  });
+
+  it('refuses CONT after a break or STOP inside a block, which it cannot re-enter', async () => {
+    const session = createSession();
+    const interrupted = await session.run([
+      'n = 0',
+      'WHILE n < 5',
+      '  n = n + 1',
+      '  IF n = 2 THEN CALL INTERRUPT()',
+      '  PRINT n',
+      'WEND',
+      'PRINT "done"'
+    ].join('\n'));
+    expect(interrupted).toMatchObject({ outputs: ['1'], halted: 'BREAK' });
+    await expect(session.run('CONT')).rejects.toThrow("Can't continue");
+
+    const stopped = await session.run('n = 0\nWHILE n < 5\n  n = n + 1\n  IF n = 2 THEN STOP\nWEND\nPRINT "done"');
+    expect(stopped.halted).toBe('STOP');
+    await expect(session.run('CONT')).rejects.toThrow("Can't continue");
+
+    expect((await session.run('IF 1 THEN STOP\nPRINT "after"')).halted).toBe('STOP');
+    expect((await session.run('CONT')).outputs).toEqual(['after']);
+  });
+
+  it('pauses tasks with the program and kills them on an interrupt', async () => {
+    const session = createSession();
+    const run = session.run([
+      'SUB Spin()',
+      '  WHILE 1',
+      '    spins = spins + 1',
+      '  WEND',
+      'END SUB',
+      'LET worker = SPAWN Spin',
+      'JOIN worker',
+      'PRINT "never"'
+    ].join('\n'));
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    session.pause();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(session.paused).toBe(true);
+    session.interrupt();
+    const result = await run;
+    expect(result).toMatchObject({ outputs: [], halted: 'BREAK' });
+    expect((await session.run('PRINT worker.STATUS')).outputs).toEqual(['killed']);
+  });
+
+  it('pauses in place until resumed', async () => {
+    const lines: string[] = [];
+    const session = createSession((line) => lines.push(line));
+    const run = session.run('PRINT "before"\nCALL PAUSE()\nPRINT "after"');
+
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(session.paused).toBe(true);
+    expect(lines).toEqual(['before']);
+
+    session.resume();
+    expect((await run).halted).toBeUndefined();
+    expect(session.paused).toBe(false);
+    expect(lines).toEqual(['before', 'after']);
+  });
+
+  it('turns an interrupt while paused into a break', async () => {
+    const session = createSession();
+    const run = session.run('CALL PAUSE()\nPRINT "never"');
+    await new Promise((resolve) => setImmediate(resolve));
+    session.interrupt();
+    expect(await run).toMatchObject({ outputs: [], halted: 'BREAK' });
+  });
+
+  it('ignores requests made while nothing runs and refuses CONT inside a program', async () => {
+    const session = createSession();
+    session.interrupt();
+    session.pause();
+    expect((await session.run('PRINT "fine"')).outputs).toEqual(['fine']);
+
+    const error = await session.run('PRINT 1\nCONT').catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(RuntimeError);
+    expect(error).toMatchObject({ detail: "Can't continue", code: 17 });
+  });
+});
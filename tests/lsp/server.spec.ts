@@ -0,0 +1,194 @@
+import { PassThrough } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import type { Range } from '../../src/lsp/document.js';
+import { startLanguageServer } from '../../src/lsp/server.js';
+
+interface Message {
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+// A response whose result the test knows the shape of
+interface Response<Result> extends Message {
+  result: Result;
+}
+
+interface Diagnostic {
+  range: Range;
+  severity: number;
+  source: string;
+  message: string;
+}
+
+interface PublishDiagnosticsParams {
+  uri: string;
+  diagnostics: Diagnostic[];
+}
+
+interface DocumentSymbol {
+  name: string;
+  kind: number;
+  range: Range;
+  children?: DocumentSymbol[];
+}
+
+// Speaks framed JSON-RPC to an in-process server, the same bytes an editor would send over stdio
+const createClient = (onExit?: (code: number) => void) => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  startLanguageServer(input, output, { onExit });
+
+  const received: Message[] = [];
+  const waiters: Array<() => void> = [];
+  let buffer = '';
+  output.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    for (;;) {
+      const match = /^Content-Length: (\d+)\r\n\r\n/.exec(buffer);
+      if (!match || buffer.length < match[0].length + Number(match[1])) {
+        break;
+      }
+      received.push(JSON.parse(buffer.slice(match[0].length, match[0].length + Number(match[1]))));
+      buffer = buffer.slice(match[0].length + Number(match[1]));
+      waiters.splice(0).forEach((wake) => wake());
+    }
+  });
+
+  const waitFor = async (predicate: (message: Message) => boolean): Promise<Message> => {
+    for (;;) {
+      const index = received.findIndex(predicate);
+      if (index !== -1) {
+        return received.splice(index, 1)[0]!;
+      }
+      await new Promise<void>((resolve) => waiters.push(resolve));
+    }
+  };
+
+  const send = (message: object): void => {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+    input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+  };
+
+  let nextId = 1;
+  return {
+    notify: (method: string, params: unknown) => send({ method, params }),
+    request: async <Result = unknown>(method: string, params?: unknown): Promise<Response<Result>> => {
+      const id = nextId++;
+      send({ id, method, params });
+      return (await waitFor((message) => message.id === id)) as Response<Result>;
+    },
+    diagnostics: async (uri: string): Promise<Diagnostic[]> => {
+      const published = await waitFor((message) =>
+        message.method === 'textDocument/publishDiagnostics' && (message.params as PublishDiagnosticsParams).uri === uri);
+      return (published.params as PublishDiagnosticsParams).diagnostics;
+    }
+  };
+};
+
+const uri = 'file:///shapes.bas';
+const source = [
+  'TYPE Point',
+  '  x AS NUMBER',
+  '  y AS NUMBER',
+  'END TYPE',
+  '',
+  'PROPERTY Point.Length(self AS Point) AS NUMBER GET',
+  '  RETURN MATH.SQRT(self.x * self.x + self.y * self.y)',
+  'END PROPERTY',
+  '',
+  'FUNCTION Shift(p AS Point, dx AS NUMBER) AS Point',
+  '  RETURN Point { x: p.x + dx, y: p.y }',
+  'END FUNCTION',
+  '',
+  'DIM origin AS Point',
+  'LET moved = Shift(origin, 2)',
+  'PRINT moved.'
+].join('\n');
+
+const at = (line: number, character: number) => ({ textDocument: { uri }, position: { line, character } });
+
+describe('language server', () => {
+  it('advertises its capabilities and shuts down cleanly', async () => {
+    let exitCode: number | undefined;
+    const client = createClient((code) => {
+      exitCode = code;
+    });
+    const initialize = await client.request<{ capabilities: object }>('initialize', { capabilities: {} });
+    expect(initialize.result.capabilities).toMatchObject({
+      textDocumentSync: 1,
+      hoverProvider: true,
+      definitionProvider: true,
+      documentSymbolProvider: true,
+      completionProvider: { triggerCharacters: ['.'] }
+    });
+
+    expect((await client.request('workspace/symbol', {})).error?.code).toBe(-32601);
+    expect((await client.request('shutdown')).result).toBeNull();
+    client.notify('exit', undefined);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(exitCode).toBe(0);
+  });
+
+  it('publishes every parse error and clears them once fixed', async () => {
+    const client = createClient();
+    client.notify('textDocument/didOpen', {
+      textDocument: { uri, languageId: 'basic', version: 1, text: 'PRINT (1 +\nLET = 3\nPRINT "ok"' }
+    });
+    const diagnostics = await client.diagnostics(uri);
+    expect(diagnostics.map((diagnostic) => diagnostic.range.start)).toEqual([
+      { line: 0, character: 10 },
+      { line: 1, character: 4 }
+    ]);
+    expect(diagnostics[0]).toMatchObject({ severity: 1, source: 'basic9000', message: 'Expected expression' });
+
+    client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: 'PRINT (1 + 2)' }]
+    });
+    expect(await client.diagnostics(uri)).toEqual([]);
+  });
+
+  it('answers hover, definition, completion and symbol requests', async () => {
+    const client = createClient();
+    client.notify('textDocument/didOpen', { textDocument: { uri, languageId: 'basic', version: 1, text: source } });
+    await client.diagnostics(uri);
+
+    const hostHover = await client.request<{ contents: { value: string } }>('textDocument/hover', at(6, 14));
+    expect(hostHover.result.contents.value).toBe('```basic\nMATH.SQRT(...args)\n```');
+    const userHover = await client.request<{ contents: { value: string } }>('textDocument/hover', at(14, 13));
+    expect(userHover.result.contents.value).toContain('FUNCTION Shift(p AS Point, dx AS NUMBER) AS Point');
+
+    const definition = await client.request('textDocument/definition', at(14, 13));
+    expect(definition.result).toEqual([{ uri, range: { start: { line: 9, character: 9 }, end: { line: 9, character: 14 } } }]);
+    const typeDefinition = await client.request<{ uri: string; range: Range }[]>('textDocument/definition', at(13, 14));
+    expect(typeDefinition.result[0]!.range.start).toEqual({ line: 0, character: 5 });
+
+    const completion = await client.request<{ label: string }[]>('textDocument/completion', at(15, 12));
+    const labels = completion.result.map((item) => item.label);
+    expect(labels).toEqual(['x', 'y', 'Length', 'Shift']);
+
+    const symbols = await client.request<DocumentSymbol[]>('textDocument/documentSymbol', { textDocument: { uri } });
+    expect(symbols.result.map((symbol) => [symbol.name, symbol.kind])).toEqual([
+      ['Point', 23],
+      ['Point.Length', 7],
+      ['Shift', 12]
+    ]);
+    expect(symbols.result[0]!.children?.map((child) => child.name)).toEqual(['x', 'y']);
+    expect(symbols.result[2]!.range).toEqual({ start: { line: 9, character: 0 }, end: { line: 11, character: 12 } });
+  });
+
+  it('completes host namespace members and string methods', async () => {
+    const client = createClient();
+    const text = 'LET name$ = "Ada"\nPRINT name$.\nPRINT MATH.';
+    client.notify('textDocument/didOpen', { textDocument: { uri, languageId: 'basic', version: 1, text } });
+    await client.diagnostics(uri);
+
+    const strings = await client.request<{ label: string }[]>('textDocument/completion', at(1, 12));
+    expect(strings.result.map((item) => item.label)).toContain('UPPER');
+    const math = await client.request<{ label: string }[]>('textDocument/completion', at(2, 11));
+    expect(math.result.map((item) => item.label)).toContain('SQRT');
+  });
+});